@@ -6,8 +6,15 @@ import "./globals.css";
 import LenisScroll from "./components/LenisScroll";
 import Generate from "./pages/Generate";
 import MyGeneration from "./pages/MyGeneration";
+import BrandKit from "./pages/BrandKit";
+import Experiments from "./pages/Experiments";
+import ExperimentDetail from "./pages/ExperimentDetail";
+import Billing from "./pages/Billing";
+import FakeCheckout from "./pages/FakeCheckout";
+import ApiKeys from "./pages/ApiKeys";
 import Ytpreview from "./pages/Ytpreview";
 import Login from "./components/Login";
+import VerifyEmail from "./pages/VerifyEmail";
 import { useEffect } from "react";
 import {Toaster} from 'react-hot-toast'
 
@@ -28,8 +35,15 @@ export default function App() {
                 <Route path="/generate" element={<Generate />} />
                 <Route path="/generate/:id" element={<Generate />} />
                 <Route path="/my-generation" element={<MyGeneration />} />
+                <Route path="/brand-kit" element={<BrandKit />} />
+                <Route path="/experiments" element={<Experiments />} />
+                <Route path="/experiments/:id" element={<ExperimentDetail />} />
+                <Route path="/billing" element={<Billing />} />
+                <Route path="/billing/fake-checkout" element={<FakeCheckout />} />
+                <Route path="/api-keys" element={<ApiKeys />} />
                 <Route path="/preview" element={<Ytpreview />} />
                 <Route path="/login" element={<Login />} />
+                <Route path="/verify-email" element={<VerifyEmail />} />
                 
             </Routes>
             <Footer />
@@ -9,6 +9,49 @@ import thumb_7 from "./thumb_7.jpg";
 export const aspectRatios = ["16:9", "1:1", "9:16"];
 export type AspectRatio = (typeof aspectRatios)[number];
 
+export const variationCounts = [1, 2, 3, 4];
+
+export const overlayFonts = [
+    { id: "impact", name: "Impact" },
+    { id: "sans", name: "Sans" },
+    { id: "serif", name: "Serif" },
+    { id: "rounded", name: "Rounded" },
+    { id: "mono", name: "Mono" },
+] as const;
+export type OverlayFont = (typeof overlayFonts)[number]["id"];
+
+export const overlayPositions = ["top-left", "top", "top-right", "center", "bottom-left", "bottom", "bottom-right"] as const;
+export type OverlayPosition = (typeof overlayPositions)[number];
+
+export interface IOverlayStyle {
+    font: OverlayFont;
+    position: OverlayPosition;
+    color: string;
+    stroke: boolean;
+    shadow: boolean;
+    uppercase: boolean;
+}
+
+export const defaultOverlayStyle: IOverlayStyle = {
+    font: "impact",
+    position: "bottom",
+    color: "#FFFFFF",
+    stroke: true,
+    shadow: true,
+    uppercase: true,
+};
+
+export const exportPresets = [
+    { id: "youtube", name: "YouTube", size: "1280×720" },
+    { id: "shorts", name: "YouTube Shorts", size: "1080×1920" },
+    { id: "instagram-square", name: "Instagram Square", size: "1080×1080" },
+    { id: "instagram-portrait", name: "Instagram Portrait", size: "1080×1350" },
+    { id: "og", name: "X / Open Graph", size: "1200×630" },
+] as const;
+
+export const exportFormats = ["jpeg", "png", "webp"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
 export const thumbnailStyles = ["Bold & Graphic", "Minimalist", "Photorealistic", "Illustrated", "Tech/Futuristic"];
 export type ThumbnailStyle = (typeof thumbnailStyles)[number];
 
@@ -24,6 +67,69 @@ export const colorSchemes = [
 ] as const;
 export type ColorScheme = (typeof colorSchemes)[number];
 
+export interface ICustomStyle {
+    _id: string;
+    name: string;
+    prompt: string;
+    negative_prompt?: string;
+}
+
+export interface ICustomPalette {
+    _id: string;
+    name: string;
+    colors: string[];
+    description: string;
+}
+
+export interface IHookSuggestion {
+    text: string;
+    score: number;
+    length: number;
+    power_words: number;
+    numbers: number;
+    readability: number;
+}
+
+export const logoPositions = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+export type LogoPosition = (typeof logoPositions)[number];
+
+export interface IBrandKit {
+    logo_url?: string;
+    logo_position: LogoPosition;
+    logo_scale: number;
+    logo_opacity: number;
+    colors: string[];
+    color_description?: string;
+    font?: OverlayFont;
+    default_style?: string;
+}
+
+export interface IExperimentVariantStats {
+    thumbnailId: string;
+    label: string;
+    impressions: number;
+    clicks: number;
+    ctr: number;
+    interval: { low: number; high: number };
+}
+
+export interface IExperiment {
+    _id: string;
+    name: string;
+    status: "running" | "completed";
+    tracking_key: string;
+    winner_thumbnail_id?: string;
+    completedAt?: string;
+    createdAt?: string;
+    stats: {
+        variants: IExperimentVariantStats[];
+        leader?: string;
+        confidence: number;
+        significant: boolean;
+        min_impressions: number;
+    };
+}
+
 export interface ThumbnailRequest {
     title: string;
     colorSchemeId: string;
@@ -32,31 +138,133 @@ export interface ThumbnailRequest {
     additionalDetails?: string;
 }
 
+export type ThumbnailStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export const isThumbnailPending = (thumbnail: { status?: ThumbnailStatus } | null) =>
+    thumbnail?.status === "queued" || thumbnail?.status === "running";
+
+export interface IGenerationEvent {
+    stage: "prompt" | "generating" | "uploading";
+    message: string;
+    provider?: string;
+    at: string;
+}
+
+export interface IAlternateImage {
+    image_url: string;
+    seed?: number;
+    provider?: string;
+    model?: string;
+}
+
+export interface IQualityReport {
+    image_url: string;
+    score: number;
+    metrics: {
+        brightness: number;
+        contrast: number;
+        saturation: number;
+        edge_density: number;
+        legibility: number;
+    };
+    dominant_colors: { hex: string; share: number }[];
+    small_sizes: { width: number; height: number; legibility: number }[];
+    warnings: { metric: string; message: string }[];
+    analyzedAt?: string;
+}
+
+// reports are measured on one image, a newly picked primary needs a fresh one
+export const hasFreshQuality = (thumbnail: IThumbnail) => !!thumbnail.image_url && thumbnail.quality?.image_url === thumbnail.image_url
+
+export const qualityScoreClass = (score: number) => score >= 75 ? 'text-emerald-300 bg-emerald-500/15' : score >= 50 ? 'text-amber-300 bg-amber-500/15' : 'text-red-300 bg-red-500/15'
+
 export interface IThumbnail {
     _id: string;
     userId: string;
     title: string;
     description?: string;
-    style: "Bold & Graphic" | "Tech/Futuristic" | "Minimalist" | "Photorealistic" | "Illustrated";
+    style: string;
+    custom_style_id?: string;
     aspect_ratio?: "16:9" | "1:1" | "9:16";
-    color_scheme?: "vibrant" | "sunset" | "forest" | "neon" | "purple" | "monochrome" | "ocean" | "pastel";
+    color_scheme?: string;
+    custom_palette_id?: string;
     text_overlay?: boolean;
+    overlay_text?: string;
+    overlay_style?: IOverlayStyle;
     image_url?: string;
+    variation_count?: number;
+    alternates?: IAlternateImage[];
     prompt_used?: string;
+    template_version?: number;
     user_prompt?: string;
-    isGenerating?: boolean;
+    negative_prompt?: string;
+    reference_image_url?: string;
+    use_brand_kit?: boolean;
+    quality?: IQualityReport;
+    seed?: number;
+    provider?: string;
+    model?: string;
+    parent_id?: string;
+    status: ThumbnailStatus;
+    error?: string;
+    attempts?: number;
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+export type PlanId = "free" | "basic" | "pro" | "enterprise";
+
 export interface IUser {
     name: string;
     email: string;
     password?: string;
+    plan?: PlanId;
+    // false until the signup email is confirmed, missing on older accounts
+    emailVerified?: boolean;
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+export interface ISubscription {
+    _id: string;
+    plan: PlanId;
+    status: "pending" | "incomplete" | "active" | "past_due" | "cancelled";
+    provider: string;
+    subscription_id?: string;
+    current_period_end?: string;
+    cancelledAt?: string;
+    createdAt?: string;
+}
+
+export interface IPaidPlan {
+    id: PlanId;
+    label: string;
+    price: number;
+    monthly_credits: number | null;
+}
+
+// limit and remaining are null on unlimited plans
+export interface ICredits {
+    plan: PlanId;
+    plan_label: string;
+    limit: number | null;
+    used: number;
+    remaining: number | null;
+    period: string;
+    resets_at: string;
+}
+
+export type ApiKeyScope = "thumbnails:read" | "thumbnails:write";
+
+export interface IApiKey {
+    _id: string;
+    name: string;
+    prefix: string;
+    scopes: ApiKeyScope[];
+    lastUsedAt?: string;
+    createdAt: string;
+}
+
 export const dummyThumbnails = [
     {
         _id: "69451ff3c9ea67e4c930f6a6",
@@ -69,7 +277,7 @@ export const dummyThumbnails = [
         image_url: thumb_1,
         prompt_used: "add multiple smartwatches ",
         user_prompt: "add multiple smartwatches ",
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-19T09:50:43.727Z",
         updatedAt: "2025-12-19T09:51:07.874Z",
         __v: 0,
@@ -85,7 +293,7 @@ export const dummyThumbnails = [
         image_url: thumb_2,
         prompt_used: "add cash images graph and etc",
         user_prompt: "add cash images graph and etc",
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-19T09:39:39.971Z",
         updatedAt: "2025-12-19T09:40:05.084Z",
         __v: 0,
@@ -101,7 +309,7 @@ export const dummyThumbnails = [
         image_url: thumb_3,
         prompt_used: "add human with laptop",
         user_prompt: "add human with laptop",
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-18T13:01:52.205Z",
         updatedAt: "2025-12-18T13:02:13.766Z",
         __v: 0,
@@ -117,7 +325,7 @@ export const dummyThumbnails = [
         image_url: thumb_4,
         prompt_used: "",
         user_prompt: "",
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-18T11:43:03.281Z",
         updatedAt: "2025-12-18T11:43:24.982Z",
         __v: 0,
@@ -131,7 +339,7 @@ export const dummyThumbnails = [
         color_scheme: "vibrant",
         text_overlay: true,
         image_url: thumb_5,
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-18T11:14:42.466Z",
         updatedAt: "2025-12-18T11:15:04.260Z",
         __v: 0,
@@ -145,7 +353,7 @@ export const dummyThumbnails = [
         color_scheme: "vibrant",
         text_overlay: true,
         image_url: thumb_6,
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-18T11:06:52.555Z",
         updatedAt: "2025-12-18T11:07:18.715Z",
         __v: 0,
@@ -159,7 +367,7 @@ export const dummyThumbnails = [
         color_scheme: "ocean",
         text_overlay: true,
         image_url: thumb_7,
-        isGenerating: false,
+        status: "succeeded",
         createdAt: "2025-12-18T10:25:17.135Z",
         updatedAt: "2025-12-18T10:25:41.648Z",
         __v: 0,
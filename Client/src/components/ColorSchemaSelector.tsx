@@ -1,8 +1,59 @@
+import { useEffect, useState } from "react";
+import { PlusIcon, XIcon } from "lucide-react";
+import { colorSchemes, type ICustomPalette } from "../assets/assets"
+import { useAuth } from "../context/AuthContext";
+import toast from "react-hot-toast";
+import api from "../configs/api";
 
-import { button, div } from "motion/react-client";
-import { colorSchemes } from "../assets/assets"
+const ColorSchemaSelector = ({value,customPaletteId,onChange} : {value:string; customPaletteId:string | null; onChange: (color:string, customPaletteId:string | null)=>void} ) => {
+
+  const {isLoggedIn} = useAuth()
+
+  const [customPalettes,setCustomPalettes] = useState<ICustomPalette[]>([])
+  const [creating,setCreating] = useState(false)
+  const [draftName,setDraftName] = useState('')
+  const [draftColors,setDraftColors] = useState<string[]>(['#FF6B6B','#4ECDC4','#45B7D1'])
+
+  const selectedCustom = customPalettes.find((palette)=>palette._id === customPaletteId)
+
+  useEffect(()=>{
+      if(isLoggedIn){
+          api.get('/api/user/palettes').then(({data})=>setCustomPalettes(data.palettes)).catch((error)=>console.log(error))
+      }
+  },[isLoggedIn])
+
+  const handleCreate = async()=>{
+
+    try {
+      const {data} = await api.post('/api/user/palettes/create',{name:draftName,colors:draftColors});
+      setCustomPalettes([data.palette, ...customPalettes])
+      onChange(data.palette.name, data.palette._id)
+      setDraftName('')
+      setCreating(false)
+      toast.success(data.message)
+    } catch (error:any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  const handleDelete = async(id:string)=>{
+
+    try {
+      const {data} = await api.delete(`/api/user/palettes/delete/${id}`);
+      setCustomPalettes(customPalettes.filter((palette)=>palette._id !== id))
+      if(customPaletteId === id){
+          onChange(colorSchemes[0].id, null)
+      }
+      toast.success(data.message)
+    } catch (error:any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
 
-const ColorSchemaSelector = ({value,onChange} : {value:string; onChange: (color:string)=>void} ) => {
   return (
     <div className="space-y-3">
         <label className="block text-sm font-medium text-zinc-200"> Color Scheme </label>
@@ -11,7 +62,7 @@ const ColorSchemaSelector = ({value,onChange} : {value:string; onChange: (color:
       <div className="grid grid-cols-6 gap-3">
          {colorSchemes.map((scheme)=>(
 
-            <button key={scheme.id} onClick={()=>onChange(scheme.id)} className={`relative rounded-lg transition-all ${value===scheme.id && 'ring-2 ring-pink-500' }`} title={scheme.name}>
+            <button key={scheme.id} onClick={()=>onChange(scheme.id, null)} className={`relative rounded-lg transition-all ${!customPaletteId && value===scheme.id && 'ring-2 ring-pink-500' }`} title={scheme.name}>
 
                 <div className="flex h-10 rounded-lg overflow-hidden">
                        {scheme.colors.map((color,i)=>(
@@ -26,9 +77,59 @@ const ColorSchemaSelector = ({value,onChange} : {value:string; onChange: (color:
             </button>
 
          ))}
+
+         {customPalettes.map((palette)=>(
+
+            <div key={palette._id} className="group relative">
+
+                <button onClick={()=>onChange(palette.name, palette._id)} className={`w-full rounded-lg transition-all ${customPaletteId===palette._id && 'ring-2 ring-pink-500' }`} title={palette.name}>
+                    <div className="flex h-10 rounded-lg overflow-hidden">
+                        {palette.colors.map((color,i)=>(
+                            <div key={i} className="flex-1" style={{backgroundColor:color}} />
+                        ))}
+                    </div>
+                </button>
+
+                <XIcon onClick={()=>handleDelete(palette._id)} className="absolute -top-1.5 -right-1.5 size-4 cursor-pointer rounded-full bg-black p-0.5 text-zinc-300 opacity-0 group-hover:opacity-100 hover:text-pink-400 transition" />
+
+            </div>
+
+         ))}
+
+         {isLoggedIn && (
+            <button type="button" onClick={()=>setCreating(!creating)} title="Create a palette" className="flex h-10 items-center justify-center rounded-lg border border-dashed border-white/20 text-zinc-400 hover:bg-white/6 hover:text-zinc-200 transition">
+                <PlusIcon className="size-4" />
+            </button>
+         )}
       </div>
 
-          <p className="text-xs text-zinc-400">Selected: {colorSchemes.find((s)=>s.id === value)?.name}</p>
+      {creating && (
+
+        <div className="space-y-3 rounded-lg border border-white/10 bg-black/20 p-3">
+
+            <input type="text" value={draftName} onChange={(e)=>setDraftName(e.target.value)} maxLength={40} placeholder="Palette name" className="w-full px-3 py-2 rounded-md border border-white/12 bg-black/20 text-sm text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500" />
+
+            <div className="flex flex-wrap items-center gap-2">
+                {draftColors.map((color,i)=>(
+                    <div key={i} className="group relative">
+                        <input type="color" value={color} onChange={(e)=>setDraftColors(draftColors.map((c,j)=>j === i ? e.target.value.toUpperCase() : c))} className="h-8 w-10 cursor-pointer rounded bg-transparent" />
+                        {draftColors.length > 1 && <XIcon onClick={()=>setDraftColors(draftColors.filter((_,j)=>j !== i))} className="absolute -top-1.5 -right-1.5 size-3.5 cursor-pointer rounded-full bg-black p-0.5 text-zinc-300 opacity-0 group-hover:opacity-100" />}
+                    </div>
+                ))}
+                {draftColors.length < 6 && (
+                    <button type="button" onClick={()=>setDraftColors([...draftColors,'#FFFFFF'])} className="flex h-8 w-10 items-center justify-center rounded border border-dashed border-white/20 text-zinc-400 hover:text-zinc-200">
+                        <PlusIcon className="size-3.5" />
+                    </button>
+                )}
+            </div>
+
+            <button type="button" onClick={handleCreate} className="w-full rounded-md bg-pink-600 py-2 text-sm hover:bg-pink-700 transition-colors">Save palette</button>
+
+        </div>
+
+      )}
+
+          <p className="text-xs text-zinc-400">Selected: {customPaletteId ? selectedCustom ? `${selectedCustom.name} - ${selectedCustom.description}` : value : colorSchemes.find((s)=>s.id === value)?.name}</p>
 
     </div>
   )
@@ -0,0 +1,68 @@
+import { useState } from "react"
+import { DownloadIcon, PackageIcon, XIcon } from "lucide-react"
+import { exportFormats, exportPresets, type ExportFormat, type IThumbnail } from "../assets/assets"
+import api from "../configs/api"
+
+const ExportPanel = ({thumbnail,onClose}:{thumbnail:IThumbnail; onClose:()=>void}) => {
+
+    const [format,setFormat] = useState<ExportFormat>('jpeg')
+    const [fit,setFit] = useState<'auto' | 'crop' | 'pad'>('auto')
+
+    // the API renders every size and sets Content-Disposition, a plain link is enough
+    const download = (path:string)=>{
+        const link = document.createElement('a');
+        link.href = `${api.defaults.baseURL}/api/thumbnail/export/${thumbnail._id}${path}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    }
+
+    return (
+        <div onClick={onClose} className="fixed inset-0 z-100 flex items-center justify-center bg-black/60 backdrop-blur-sm px-4">
+
+            <div onClick={(e)=>e.stopPropagation()} className="w-full max-w-md space-y-5 rounded-2xl border border-white/12 bg-zinc-950 p-6 shadow-xl">
+
+                <div className="flex items-start justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold text-zinc-100">Export for platforms</h2>
+                        <p className="text-xs text-zinc-400 line-clamp-1">{thumbnail.title}</p>
+                    </div>
+                    <XIcon onClick={onClose} className="size-5 cursor-pointer text-zinc-400 hover:text-white" />
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-xs text-zinc-300">
+                    <div className="flex gap-1.5">
+                        {exportFormats.map((option)=>(
+                            <button key={option} type="button" onClick={()=>setFormat(option)} className={`rounded-md border border-white/10 px-3 py-1.5 uppercase transition ${format === option ? 'bg-white/10' : 'hover:bg-white/6'}`}>{option}</button>
+                        ))}
+                    </div>
+                    <div className="flex gap-1.5">
+                        {(['auto','crop','pad'] as const).map((option)=>(
+                            <button key={option} type="button" onClick={()=>setFit(option)} className={`rounded-md border border-white/10 px-3 py-1.5 capitalize transition ${fit === option ? 'bg-white/10' : 'hover:bg-white/6'}`}>{option}</button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="divide-y divide-white/8 rounded-lg border border-white/10">
+                    {exportPresets.map((preset)=>(
+                        <div key={preset.id} className="flex items-center justify-between px-4 py-2.5">
+                            <div>
+                                <p className="text-sm text-zinc-200">{preset.name}</p>
+                                <p className="text-xs text-zinc-500">{preset.size}</p>
+                            </div>
+                            <DownloadIcon onClick={()=>download(`?preset=${preset.id}&format=${format}&fit=${fit}`)} className="size-7 cursor-pointer rounded bg-white/8 p-1.5 hover:bg-pink-600 transition-all" />
+                        </div>
+                    ))}
+                </div>
+
+                <button type="button" onClick={()=>download(`/zip?format=${format}&fit=${fit}`)} className="flex w-full items-center justify-center gap-2 rounded-xl bg-linear-to-b from-pink-500 to-pink-600 py-3 text-sm font-medium hover:from-pink-700 transition-colors">
+                    <PackageIcon className="size-4" /> Download all (ZIP)
+                </button>
+
+            </div>
+
+        </div>
+    )
+}
+
+export default ExportPanel
@@ -0,0 +1,57 @@
+import { useState } from "react"
+import { LightbulbIcon } from "lucide-react"
+import type { IHookSuggestion } from "../assets/assets"
+import toast from "react-hot-toast"
+import api from "../configs/api"
+
+const scoreColor = (score:number) => score >= 75 ? 'text-emerald-300 bg-emerald-500/15' : score >= 50 ? 'text-amber-300 bg-amber-500/15' : 'text-zinc-300 bg-white/8'
+
+const HookSuggestions = ({title,details,value,onUse}:{title:string; details:string; value:string; onUse:(hook:string)=>void}) => {
+
+    const [hooks,setHooks] = useState<IHookSuggestion[]>([])
+    const [loading,setLoading] = useState(false)
+
+    const handleSuggest = async()=>{
+
+      if(!title.trim()){
+          return toast.error('Add a title to get hook ideas')
+      }
+
+      try {
+        setLoading(true)
+        const {data} = await api.post('/api/thumbnail/hooks',{title,prompt:details});
+        setHooks(data.hooks)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      } finally {
+        setLoading(false)
+      }
+
+    }
+
+    return (
+        <div className="space-y-2">
+
+            <button type="button" onClick={handleSuggest} disabled={loading} className="flex items-center gap-1.5 text-xs text-pink-300 hover:text-pink-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                <LightbulbIcon className="size-3.5" /> {loading ? 'Thinking of hooks...' : hooks.length ? 'Suggest other hooks' : 'Suggest short hooks for the overlay'}
+            </button>
+
+            {hooks.length > 0 && (
+
+                <div className="divide-y divide-white/8 rounded-lg border border-white/10 bg-black/20">
+                    {hooks.map((hook)=>(
+                        <button key={hook.text} type="button" onClick={()=>onUse(hook.text)} title={`Length ${hook.length}/35 · Power words ${hook.power_words}/25 · Numbers ${hook.numbers}/15 · Readability ${hook.readability}/25`} className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm transition hover:bg-white/6 ${value === hook.text && 'bg-white/6'}`}>
+                            <span className="text-zinc-100">{hook.text}</span>
+                            <span className={`shrink-0 rounded px-1.5 py-0.5 text-xs font-medium ${scoreColor(hook.score)}`}>{hook.score}</span>
+                        </button>
+                    ))}
+                </div>
+
+            )}
+
+        </div>
+    )
+}
+
+export default HookSuggestions
@@ -1,18 +1,34 @@
 import React, { useEffect, useState } from "react"
 import SoftBackdrop from "./SoftBackdrop"
 import { useAuth } from "../context/AuthContext"
-import { useNavigate } from "react-router-dom"
+import { useNavigate, useSearchParams } from "react-router-dom"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const titles: Record<string, string> = {
+  login: "Login",
+  register: "Sign up",
+  forgot: "Reset password",
+  reset: "Choose a new password",
+}
 
 const Login = () => {
 
-  const [state, setState] = useState("login")
+  // reset links from the email land here with the token in the URL
+  const [searchParams, setSearchParams] = useSearchParams()
+  const resetToken = searchParams.get('reset_token')
+
+  const [state, setState] = useState(resetToken ? "reset" : "login")
+  const [submitting, setSubmitting] = useState(false)
+  const [sso, setSso] = useState<{ enabled: boolean; name: string } | null>(null)
   const { user, login, signUp } = useAuth()
 
   const navigate = useNavigate();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: ''
+    password: '',
+    confirmPassword: ''
   })
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -20,10 +36,52 @@ const Login = () => {
     setFormData(prev => ({ ...prev, [name]: value }))
   }
 
+  const handleForgot = async () => {
+
+    try {
+      setSubmitting(true)
+      const { data } = await api.post('/api/auth/forgot-password', { email: formData.email })
+      toast.success(data.message)
+      setState("login")
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setSubmitting(false)
+    }
+
+  }
+
+  const handleReset = async () => {
+
+    if (formData.password !== formData.confirmPassword) {
+      return toast.error("Passwords don't match")
+    }
+
+    try {
+      setSubmitting(true)
+      const { data } = await api.post('/api/auth/reset-password', { token: resetToken, password: formData.password })
+      toast.success(data.message)
+      setSearchParams({}, { replace: true })
+      setFormData(prev => ({ ...prev, password: '', confirmPassword: '' }))
+      setState("login")
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setSubmitting(false)
+    }
+
+  }
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
 
-    if (state === "login") {
+    if (state === "forgot") {
+      handleForgot()
+    } else if (state === "reset") {
+      handleReset()
+    } else if (state === "login") {
       // ✅ FIX: send only email & password (remove name)
       login({
         email: formData.email,
@@ -40,6 +98,19 @@ const Login = () => {
     }
   }, [user, navigate])
 
+  // single sign-on is optional server side, and failed attempts come back here with the reason
+  useEffect(() => {
+
+    api.get('/api/auth/oidc').then(({ data }) => setSso(data)).catch((error) => console.log(error))
+
+    const oidcError = searchParams.get('oidc_error')
+    if (oidcError) {
+      toast.error(oidcError)
+      setSearchParams({}, { replace: true })
+    }
+
+  }, [])
+
   return (
     <>
 
@@ -52,42 +123,76 @@ const Login = () => {
           className="w-full sm:w-87.5 text-center bg-white/6 border border-white/10 rounded-2xl px-8">
 
           <h1 className="text-white text-3xl mt-10 font-medium">
-            {state === "login" ? "Login" : "Sign up"}
+            {titles[state]}
           </h1>
 
-          <p className="text-gray-400 text-sm mt-2">Please sign in to continue</p>
+          <p className="text-gray-400 text-sm mt-2">
+            {state === "forgot" ? "We'll email you a link to reset it" : state === "reset" ? "Use at least 8 characters" : "Please sign in to continue"}
+          </p>
 
-          {state !== "login" && (
+          {state === "register" && (
             <div className="flex items-center mt-6 w-full bg-white/5 ring-2 ring-white/10 focus-within:ring-pink-500/60 h-12 rounded-full overflow-hidden pl-6 gap-2 transition-all ">
               <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-white/60" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"> <circle cx="12" cy="8" r="5" /> <path d="M20 21a8 8 0 0 0-16 0" /> </svg>
               <input type="text" name="name" placeholder="Name" className="w-full bg-transparent text-white placeholder-white/60 border-none outline-none " value={formData.name} onChange={handleChange} required />
             </div>
           )}
 
+          {state !== "reset" && (
           <div className="flex items-center w-full mt-4 bg-white/5 ring-2 ring-white/10 focus-within:ring-pink-500/60 h-12 rounded-full overflow-hidden pl-6 gap-2 transition-all ">
             <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-white/75" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"> <path d="m22 7-8.991 5.727a2 2 0 0 1-2.009 0L2 7" /> <rect x="2" y="4" width="20" height="16" rx="2" /> </svg>
             <input type="email" name="email" placeholder="Email id" className="w-full bg-transparent text-white placeholder-white/60 border-none outline-none " value={formData.email} onChange={handleChange} required />
           </div>
+          )}
 
+          {state !== "forgot" && (
           <div className=" flex items-center mt-4 w-full bg-white/5 ring-2 ring-white/10 focus-within:ring-pink-500/60 h-12 rounded-full overflow-hidden pl-6 gap-2 transition-all ">
             <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-white/75" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"> <rect width="18" height="11" x="3" y="11" rx="2" ry="2" /> <path d="M7 11V7a5 5 0 0 1 10 0v4" /> </svg>
-            <input type="password" name="password" placeholder="Password" className="w-full bg-transparent text-white placeholder-white/60 border-none outline-none" value={formData.password} onChange={handleChange} required />
+            <input type="password" name="password" placeholder={state === "reset" ? "New password" : "Password"} className="w-full bg-transparent text-white placeholder-white/60 border-none outline-none" value={formData.password} onChange={handleChange} required minLength={state === "reset" ? 8 : undefined} />
           </div>
+          )}
+
+          {state === "reset" && (
+            <div className=" flex items-center mt-4 w-full bg-white/5 ring-2 ring-white/10 focus-within:ring-pink-500/60 h-12 rounded-full overflow-hidden pl-6 gap-2 transition-all ">
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" className="text-white/75" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"> <rect width="18" height="11" x="3" y="11" rx="2" ry="2" /> <path d="M7 11V7a5 5 0 0 1 10 0v4" /> </svg>
+              <input type="password" name="confirmPassword" placeholder="Confirm new password" className="w-full bg-transparent text-white placeholder-white/60 border-none outline-none" value={formData.confirmPassword} onChange={handleChange} required minLength={8} />
+            </div>
+          )}
 
           <div className="mt-4 text-left">
-            <button className="text-sm text-pink-400 hover:underline">
-              Forget password?
-            </button>
+            {state === "login" && (
+              <button type="button" onClick={() => setState("forgot")} className="text-sm text-pink-400 hover:underline">
+                Forget password?
+              </button>
+            )}
           </div>
 
-          <button type="submit" className="mt-2 w-full h-11 rounded-full text-white bg-pink-600 hover:bg-pink-500 transition ">
-            {state === "login" ? "Login" : "Sign up"}
+          <button type="submit" disabled={submitting} className="mt-2 w-full h-11 rounded-full text-white bg-pink-600 hover:bg-pink-500 disabled:opacity-50 transition ">
+            {state === "forgot" ? "Send reset link" : state === "reset" ? "Update password" : state === "login" ? "Login" : "Sign up"}
           </button>
 
-          <p onClick={() => setState(prev => prev === "login" ? "register" : "login")} className="text-gray-400 text-sm mt-3 mb-11 cursor-pointer" >
-            {state === "login" ? "Don't have an account?" : "Already have an account?"}
-            <span className="text-pink-500 hover:underline ml-1">click here</span>
-          </p>
+          {sso?.enabled && (state === "login" || state === "register") && (
+            <>
+              <div className="flex items-center gap-3 mt-4 text-xs text-gray-500">
+                <span className="flex-1 h-px bg-white/10" /> or <span className="flex-1 h-px bg-white/10" />
+              </div>
+              {/* a full page navigation, the provider sends the browser back through the API */}
+              <a href={`${api.defaults.baseURL}/api/auth/oidc/login?redirect=/`} className="mt-4 flex items-center justify-center w-full h-11 rounded-full text-white border border-white/15 hover:bg-white/8 transition">
+                Continue with {sso.name}
+              </a>
+            </>
+          )}
+
+          {state === "login" || state === "register" ? (
+            <p onClick={() => setState(prev => prev === "login" ? "register" : "login")} className="text-gray-400 text-sm mt-3 mb-11 cursor-pointer" >
+              {state === "login" ? "Don't have an account?" : "Already have an account?"}
+              <span className="text-pink-500 hover:underline ml-1">click here</span>
+            </p>
+          ) : (
+            <p onClick={() => { setSearchParams({}, { replace: true }); setState("login") }} className="text-gray-400 text-sm mt-3 mb-11 cursor-pointer" >
+              Remembered it?
+              <span className="text-pink-500 hover:underline ml-1">Back to login</span>
+            </p>
+          )}
 
         </form>
 
@@ -1,4 +1,4 @@
-import { MenuIcon, XIcon } from "lucide-react";
+import { MenuIcon, XIcon, ZapIcon } from "lucide-react";
 import { useState } from "react";
 import { motion } from "motion/react";
 import { useNavigate } from "react-router-dom";
@@ -6,7 +6,10 @@ import { Link } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 
 export default function Navbar() {
-    const {isLoggedIn,user,logout} = useAuth()
+    const {isLoggedIn,user,credits,logout} = useAuth()
+
+    const creditsLabel = credits && (credits.remaining === null ? 'Unlimited' : `${credits.remaining} credit${credits.remaining === 1 ? '' : 's'}`)
+    const creditsTitle = credits ? `${credits.plan_label} plan · ${credits.used}${credits.limit === null ? '' : `/${credits.limit}`} used this month` : undefined
     const [isOpen, setIsOpen] = useState(false);
     const navigate = useNavigate()
 
@@ -41,6 +44,12 @@ export default function Navbar() {
 
             <div className="flex items-center gap-2">
 
+                {isLoggedIn && credits && (
+                    <Link to={'/billing'} title={creditsTitle} className={`hidden md:flex items-center gap-1 px-3 py-1 rounded-full text-xs border hover:border-pink-500/50 transition ${credits.remaining === 0 ? 'border-red-500/40 text-red-300' : 'border-white/10 text-zinc-300'}`}>
+                        <ZapIcon className="size-3.5" /> {creditsLabel}
+                    </Link>
+                )}
+
                 {isLoggedIn ? (
                    
                 <div className="relative group">
@@ -49,7 +58,23 @@ export default function Navbar() {
                         {user?.name?.charAt(0)?.toUpperCase() || "U"} {/* ✅ FIXED */}
                     </button>
 
-                    <div className="absolute hidden group-hover:block top-6 right-0 pt-4">
+                    <div className="absolute hidden group-hover:flex flex-col gap-2 top-6 right-0 pt-4">
+
+                        <button onClick={()=>navigate('/brand-kit')} className="bg-white/20 border-2 border-white/10 px-5 py-1.5 rounded whitespace-nowrap">
+                            Brand Kit
+                        </button>
+
+                        <button onClick={()=>navigate('/experiments')} className="bg-white/20 border-2 border-white/10 px-5 py-1.5 rounded whitespace-nowrap">
+                            A/B Tests
+                        </button>
+
+                        <button onClick={()=>navigate('/billing')} className="bg-white/20 border-2 border-white/10 px-5 py-1.5 rounded whitespace-nowrap">
+                            Billing
+                        </button>
+
+                        <button onClick={()=>navigate('/api-keys')} className="bg-white/20 border-2 border-white/10 px-5 py-1.5 rounded whitespace-nowrap">
+                            API Keys
+                        </button>
 
                         <button onClick={()=>logout()} className="bg-white/20 border-2 border-white/10 px-5 py-1.5 rounded">
                             Logout
@@ -87,6 +112,15 @@ export default function Navbar() {
                 }
 
                 <Link onClick={() => setIsOpen(false)} to={'#'}>Contact us</Link>
+
+                {isLoggedIn && credits && <span title={creditsTitle} className="flex items-center gap-1.5 text-base text-zinc-300"><ZapIcon className="size-4" /> {creditsLabel}</span>}
+
+                {isLoggedIn && <Link onClick={() => setIsOpen(false)} to={'/brand-kit'}>Brand Kit</Link>}
+
+                {isLoggedIn && <Link onClick={() => setIsOpen(false)} to={'/experiments'}>A/B Tests</Link>}
+
+                {isLoggedIn && <Link onClick={() => setIsOpen(false)} to={'/billing'}>Billing</Link>}
+                {isLoggedIn && <Link onClick={() => setIsOpen(false)} to={'/api-keys'}>API Keys</Link>}
                     
                 {isLoggedIn 
                     ? <button onClick={()=>{setIsOpen(false); logout() }}> Logout </button>
@@ -1,9 +1,21 @@
 
-import type { AspectRatio, IThumbnail } from "../assets/assets"
-import { DownloadIcon, ImageIcon, Loader2Icon } from "lucide-react";
+import type { AspectRatio, IGenerationEvent, IThumbnail } from "../assets/assets"
+import api from "../configs/api";
+import { AlertTriangleIcon, DownloadIcon, ImageIcon, Loader2Icon } from "lucide-react";
 
 
-const PreviewPanel = ({thumbnail,isLoading,aspectRatio}:{thumbnail:IThumbnail | null, isLoading: boolean; aspectRatio:AspectRatio}) => {
+const PreviewPanel = ({thumbnail,isLoading,aspectRatio,progress = [],onCancel,onSelectPrimary}:{thumbnail:IThumbnail | null, isLoading: boolean; aspectRatio:AspectRatio; progress?: IGenerationEvent[]; onCancel?: ()=>void; onSelectPrimary?: (image_url:string)=>void}) => {
+
+    const stages = [
+        { id: 'queued', label: 'Queued' },
+        { id: 'prompt', label: 'Prompt' },
+        { id: 'generating', label: 'Generating' },
+        { id: 'uploading', label: 'Uploading' },
+    ]
+
+    const latestEvent = progress[progress.length - 1]
+    const currentStage = stages.findIndex((stage)=> stage.id === (latestEvent?.stage || 'queued'))
+
 
     const aspectClasses = {
 
@@ -17,10 +29,9 @@ const PreviewPanel = ({thumbnail,isLoading,aspectRatio}:{thumbnail:IThumbnail |
 
         if(!thumbnail?.image_url)return;
 
-        window.open(thumbnail.image_url,'_blank')
-
+        // the API sets Content-Disposition, whatever storage backend holds the image
         const link = document.createElement('a');
-        link.href = thumbnail?.image_url.replace('/upload','/upload/fi_attachment')
+        link.href = `${api.defaults.baseURL}/api/thumbnail/download/${thumbnail._id}`
         document.body.appendChild(link);
         link.click()
         link.remove()
@@ -41,9 +52,26 @@ const PreviewPanel = ({thumbnail,isLoading,aspectRatio}:{thumbnail:IThumbnail |
             <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/25 ">
                 <Loader2Icon className="size-8 animate-spin text-zinc-400" />
                 <div className="text-center">
-                    <p className="text-sm font-medium text-zinc-200">AI is creating your thumbnail...</p>
-                    <p className="mt-1 text-xs text-zinc-400">This may take 10-20 seconds</p>
+                    <p className="text-sm font-medium text-zinc-200">{thumbnail?.status === 'queued' ? 'Waiting in queue...' : 'AI is creating your thumbnail...'}</p>
+                    <p className="mt-1 text-xs text-zinc-400">{latestEvent ? latestEvent.message : 'This may take 10-20 seconds'}</p>
+                    {!!thumbnail?.attempts && thumbnail.attempts > 1 && (
+                        <p className="mt-1 text-xs text-amber-400">Retrying (attempt {thumbnail.attempts})</p>
+                    )}
                 </div>
+                {progress.length > 0 && (
+                    <div className="flex items-center gap-2 text-[11px]">
+                        {stages.map((stage,i)=>(
+                            <span key={stage.id} className={`px-2 py-0.5 rounded-full ${i < currentStage ? 'bg-pink-500/30 text-pink-200' : i === currentStage ? 'bg-pink-500 text-white' : 'bg-white/8 text-zinc-500'}`}>
+                                {stage.label}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                {onCancel && (
+                    <button onClick={onCancel} type="button" className="rounded-md px-4 py-1.5 text-xs font-medium bg-white/10 ring-1 ring-white/20 hover:bg-white/20 transition">
+                        Cancel
+                    </button>
+                )}
             </div>
           )}
 
@@ -65,9 +93,26 @@ const PreviewPanel = ({thumbnail,isLoading,aspectRatio}:{thumbnail:IThumbnail |
           )}
 
 
+          {/* Failed / cancelled state */}
+
+          {!isLoading && !thumbnail?.image_url && (thumbnail?.status === 'failed' || thumbnail?.status === 'cancelled') && (
+
+              <div className="absolute inset-0 m-2 flex flex-col items-center justify-center gap-4 rounded-lg border-2 border-dashed border-red-400/30 bg-black/25">
+
+                <AlertTriangleIcon className="size-10 text-red-400 opacity-70" />
+
+                <div className="px-4 text-center">
+                    <p className="font text-zinc-200">{thumbnail.status === 'failed' ? 'Generation failed' : 'Generation cancelled'}</p>
+                    {thumbnail.error && <p className="mt-1 text-xs text-zinc-400">{thumbnail.error}</p>}
+                </div>
+
+              </div>
+
+          )}
+
           {/* Empty State */}
 
-          {!isLoading && !thumbnail?.image_url && (
+          {!isLoading && !thumbnail?.image_url && thumbnail?.status !== 'failed' && thumbnail?.status !== 'cancelled' && (
 
               <div className="absolute inset-0 m-2 flex flex-col items-center justify-center gap-4 rounded-lg border-2 border-dashed border-white/20 bg-black/25">
 
@@ -86,6 +131,27 @@ const PreviewPanel = ({thumbnail,isLoading,aspectRatio}:{thumbnail:IThumbnail |
 
       </div>
 
+      {/* Variations grid */}
+
+      {!isLoading && thumbnail?.image_url && !!thumbnail.alternates?.length && (
+
+          <div className="mt-4 space-y-2">
+              <p className="text-xs text-zinc-400">Variations {onSelectPrimary && '- click one to make it the primary image'}</p>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {[{ image_url: thumbnail.image_url }, ...thumbnail.alternates].map((candidate,i)=>(
+
+                      <button key={candidate.image_url} type="button" disabled={i === 0 || !onSelectPrimary} onClick={()=>onSelectPrimary?.(candidate.image_url)} className={`relative overflow-hidden rounded-md ${aspectClasses[aspectRatio]} ${i === 0 ? 'ring-2 ring-pink-500' : 'ring-1 ring-white/10 hover:ring-white/40'} disabled:cursor-default transition`}>
+                          <img src={candidate.image_url} alt={`${thumbnail.title} variation ${i + 1}`} className="h-full w-full object-cover" />
+                          {i === 0 && <span className="absolute top-1 left-1 rounded bg-pink-500 px-1.5 py-0.5 text-[10px] font-medium">Primary</span>}
+                      </button>
+
+                  ))}
+              </div>
+          </div>
+
+      )}
+
     </div>
   )
 }
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react"
+import { AlertTriangleIcon, GaugeIcon, RefreshCwIcon } from "lucide-react"
+import { hasFreshQuality, qualityScoreClass, type IQualityReport, type IThumbnail } from "../assets/assets"
+import toast from "react-hot-toast"
+import api from "../configs/api"
+
+const metricLabels: Record<keyof IQualityReport['metrics'], string> = {
+    brightness: 'Brightness',
+    contrast: 'Contrast',
+    saturation: 'Saturation',
+    edge_density: 'Busy-ness',
+    legibility: 'Small-size legibility',
+}
+
+const QualityPanel = ({thumbnail}:{thumbnail:IThumbnail}) => {
+
+    const [quality,setQuality] = useState<IQualityReport | null>(hasFreshQuality(thumbnail) ? thumbnail.quality! : null)
+    const [loading,setLoading] = useState(false)
+
+    const fetchQuality = async(refresh = false)=>{
+
+      try {
+        setLoading(true)
+        const {data} = await api.get(`/api/thumbnail/quality/${thumbnail._id}`,{params: refresh ? {refresh:true} : {}});
+        setQuality(data.quality)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      } finally {
+        setLoading(false)
+      }
+
+    }
+
+    // the job stores a report with the image, older thumbnails are measured on first view
+    useEffect(()=>{
+
+      if(hasFreshQuality(thumbnail)){
+          setQuality(thumbnail.quality!)
+      } else {
+          setQuality(null)
+          fetchQuality()
+      }
+
+    },[thumbnail._id, thumbnail.image_url])
+
+    if(!quality){
+        return (
+            <div className="mt-6 text-sm text-zinc-400">{loading ? 'Analyzing thumbnail quality...' : 'No quality report yet'}</div>
+        )
+    }
+
+    return (
+        <div className="mt-6 space-y-4">
+
+            <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-zinc-100"><GaugeIcon className="size-4" /> Quality check</h3>
+                <div className="flex items-center gap-2">
+                    <span className={`rounded px-2 py-0.5 text-sm font-semibold ${qualityScoreClass(quality.score)}`}>{quality.score}/100</span>
+                    <button type="button" onClick={()=>fetchQuality(true)} disabled={loading} title="Analyze again" className="p-1 rounded hover:bg-white/8 disabled:opacity-50">
+                        <RefreshCwIcon className={`size-3.5 text-zinc-400 ${loading && 'animate-spin'}`} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                {(Object.keys(metricLabels) as (keyof IQualityReport['metrics'])[]).map((metric)=>(
+                    <div key={metric} className="grid grid-cols-[9rem_1fr_2.5rem] items-center gap-3 text-xs">
+                        <span className="text-zinc-400">{metricLabels[metric]}</span>
+                        <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                            <div className={`h-full rounded-full ${quality.warnings.some((warning)=>warning.metric === metric) ? 'bg-amber-400' : 'bg-pink-500'}`} style={{width:`${quality.metrics[metric] * 100}%`}} />
+                        </div>
+                        <span className="text-right text-zinc-300">{Math.round(quality.metrics[metric] * 100)}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <p className="text-xs text-zinc-400 mb-1.5">Dominant colors</p>
+                <div className="flex h-5 overflow-hidden rounded">
+                    {quality.dominant_colors.map((color)=>(
+                        <div key={color.hex} title={`${color.hex} · ${Math.round(color.share * 100)}%`} style={{backgroundColor:color.hex, flexGrow:color.share}} />
+                    ))}
+                </div>
+            </div>
+
+            {/* how it looks where YouTube shows it smallest */}
+            {thumbnail.image_url && (
+                <div>
+                    <p className="text-xs text-zinc-400 mb-1.5">At small sizes</p>
+                    <div className="flex flex-wrap items-end gap-3">
+                        {quality.small_sizes.map((size)=>(
+                            <div key={size.width} className="space-y-1">
+                                <img src={thumbnail.image_url} alt={`${size.width}x${size.height}`} style={{maxWidth:size.width, maxHeight:size.height}} className="rounded object-contain" />
+                                <p className="text-[11px] text-zinc-500">{size.width}×{size.height} · {Math.round(size.legibility * 100)}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {quality.warnings.length > 0 ? (
+                <ul className="space-y-1.5">
+                    {quality.warnings.map((warning)=>(
+                        <li key={warning.metric} className="flex gap-2 text-xs text-amber-200">
+                            <AlertTriangleIcon className="size-3.5 shrink-0 mt-0.5" /> {warning.message}
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-xs text-emerald-300">No issues found, this thumbnail should hold up in the feed.</p>
+            )}
+
+        </div>
+    )
+}
+
+export default QualityPanel
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react"
+import { ImagePlusIcon, XIcon } from "lucide-react"
+import toast from "react-hot-toast"
+
+const MAX_REFERENCE_MB = 10
+
+// `existingUrl` is the reference already stored on the thumbnail being remixed
+const ReferenceImageInput = ({file,onFileChange,existingUrl,onRemoveExisting}:{file:File | null; onFileChange:(file:File | null)=>void; existingUrl?:string; onRemoveExisting?:()=>void}) => {
+
+    const [preview,setPreview] = useState<string | null>(null)
+
+    useEffect(()=>{
+        if(!file){
+            return setPreview(null)
+        }
+        const url = URL.createObjectURL(file)
+        setPreview(url)
+        return ()=>URL.revokeObjectURL(url)
+    },[file])
+
+    const handleSelect = (selected?:File)=>{
+        if(!selected) return
+        if(!selected.type.startsWith('image/')){
+            return toast.error('Reference must be an image')
+        }
+        if(selected.size > MAX_REFERENCE_MB * 1024 * 1024){
+            return toast.error(`Reference image must be under ${MAX_REFERENCE_MB}MB`)
+        }
+        onFileChange(selected)
+    }
+
+    const shown = preview || existingUrl
+
+    return (
+        <div className="space-y-2">
+
+            <label className="block text-sm font-medium">
+                Reference Image <span className="text-zinc-400 text-xs">(optional)</span>
+            </label>
+
+            {shown ? (
+
+                <div className="relative w-fit">
+                    <img src={shown} alt="Reference" className="h-24 rounded-lg border border-white/10 object-cover" />
+                    <XIcon onClick={()=>file ? onFileChange(null) : onRemoveExisting?.()} className="absolute -top-2 -right-2 size-5 cursor-pointer rounded-full bg-black p-0.5 text-zinc-300 hover:text-pink-400" />
+                </div>
+
+            ) : (
+
+                <label className="flex cursor-pointer items-center gap-3 rounded-lg border border-dashed border-white/20 px-4 py-3 text-sm text-zinc-400 hover:bg-white/6 transition">
+                    <ImagePlusIcon className="size-5 shrink-0" />
+                    <span>Build around a face, product shot or video frame</span>
+                    <input type="file" accept="image/*" onChange={(e)=>{handleSelect(e.target.files?.[0]); e.target.value=''}} className="hidden" />
+                </label>
+
+            )}
+
+        </div>
+    )
+}
+
+export default ReferenceImageInput
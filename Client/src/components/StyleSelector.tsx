@@ -1,10 +1,19 @@
 import type React from "react";
-import { thumbnailStyles, type ThumbnailStyle } from "../assets/assets"
-import { CpuIcon, ImageIcon, PenToolIcon, SquareIcon, SparkleIcon, ChevronDownIcon } from "lucide-react";
-import { button, div } from "motion/react-client";
+import { useEffect, useState } from "react";
+import { thumbnailStyles, type ICustomStyle, type ThumbnailStyle } from "../assets/assets"
+import { CpuIcon, ImageIcon, PenToolIcon, SquareIcon, SparkleIcon, ChevronDownIcon, PlusIcon, TrashIcon, WandIcon } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import toast from "react-hot-toast";
+import api from "../configs/api";
 
 
-const StyleSelector = ({ value, onChange, isOpen, setisOpen }: { value: ThumbnailStyle; onChange: (style: ThumbnailStyle) => void; isOpen: boolean; setisOpen: (open: boolean) => void }) => {
+const StyleSelector = ({ value, customStyleId, onChange, isOpen, setisOpen }: { value: ThumbnailStyle; customStyleId: string | null; onChange: (style: ThumbnailStyle, customStyleId: string | null) => void; isOpen: boolean; setisOpen: (open: boolean) => void }) => {
+
+    const {isLoggedIn} = useAuth()
+
+    const [customStyles,setCustomStyles] = useState<ICustomStyle[]>([])
+    const [creating,setCreating] = useState(false)
+    const [draft,setDraft] = useState({name:'',prompt:'',negative_prompt:''})
 
     const styleDescriptions: Record<ThumbnailStyle, string> = {
 
@@ -27,6 +36,47 @@ const StyleSelector = ({ value, onChange, isOpen, setisOpen }: { value: Thumbnai
 
     }
 
+    const selectedCustom = customStyles.find((style)=>style._id === customStyleId)
+
+    useEffect(()=>{
+        if(isLoggedIn){
+            api.get('/api/user/styles').then(({data})=>setCustomStyles(data.styles)).catch((error)=>console.log(error))
+        }
+    },[isLoggedIn])
+
+    const handleCreate = async()=>{
+
+      try {
+        const {data} = await api.post('/api/user/styles/create',draft);
+        setCustomStyles([data.style, ...customStyles])
+        onChange(data.style.name, data.style._id)
+        setDraft({name:'',prompt:'',negative_prompt:''})
+        setCreating(false)
+        setisOpen(false)
+        toast.success(data.message)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      }
+
+    }
+
+    const handleDelete = async(id:string)=>{
+
+      try {
+        const {data} = await api.delete(`/api/user/styles/delete/${id}`);
+        setCustomStyles(customStyles.filter((style)=>style._id !== id))
+        if(customStyleId === id){
+            onChange('Bold & Graphic', null)
+        }
+        toast.success(data.message)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      }
+
+    }
+
 
     return (
         <div className="relative space-y-3 dark">
@@ -36,21 +86,21 @@ const StyleSelector = ({ value, onChange, isOpen, setisOpen }: { value: Thumbnai
             <button type="button" onClick={()=>setisOpen(!isOpen)} className="flex w-full items-center justify-between rounded-md border px-4 py-3 text-left transition bg-white/8 border-white/10 text-zinc-200 hover:bg-white/12">
                 <div className="space-y-1">
                     <div className="flex items-center gap-2 font-medium">
-                        {styleIcons[value]}
+                        {customStyleId ? <WandIcon className="h-4 w-4" /> : styleIcons[value]}
                         <span>{value}</span>
                     </div>
-                    <p className="text-xs text-zinc-400">{styleDescriptions[value]}</p>
+                    <p className="text-xs text-zinc-400 line-clamp-1">{customStyleId ? selectedCustom?.prompt || 'Your custom style' : styleDescriptions[value]}</p>
                 </div>
                 <ChevronDownIcon className={['h-5 w-5 text-zinc-400 transition-transform ',isOpen && 'rotate-180'].join('')} />
             </button>
 
             {isOpen && (
 
-                <div className="absolute bottom-0 z-50 mt-1 w-full rounded-md border border-white/12 bg-black backdrop:blur-3xl shadow-lg">
+                <div className="absolute bottom-0 z-50 mt-1 max-h-96 w-full overflow-y-auto rounded-md border border-white/12 bg-black backdrop:blur-3xl shadow-lg">
                     
                     {thumbnailStyles.map((style)=>(
                     
-                        <button key={style} type="button" onClick={()=>{onChange(style); setisOpen(false); }} className="flex w-full items-start gap-3 px-4 py-3 text-left transition hover:bg-black/30">
+                        <button key={style} type="button" onClick={()=>{onChange(style, null); setisOpen(false); }} className="flex w-full items-start gap-3 px-4 py-3 text-left transition hover:bg-black/30">
                             
                             <div className="mt-0.5">{styleIcons[style]}</div>
 
@@ -63,6 +113,46 @@ const StyleSelector = ({ value, onChange, isOpen, setisOpen }: { value: Thumbnai
                         
                     ))}
 
+                    {customStyles.length > 0 && <p className="border-t border-white/10 px-4 pt-3 pb-1 text-xs uppercase tracking-wide text-zinc-500">Your styles</p>}
+
+                    {customStyles.map((style)=>(
+
+                        <div key={style._id} className={`group flex w-full items-start gap-3 px-4 py-3 transition hover:bg-black/30 ${customStyleId === style._id && 'bg-white/6'}`}>
+
+                            <button type="button" onClick={()=>{onChange(style.name, style._id); setisOpen(false); }} className="flex flex-1 items-start gap-3 text-left">
+                                <div className="mt-0.5"><WandIcon className="h-4 w-4" /></div>
+                                <div>
+                                    <p className="font-medium">{style.name}</p>
+                                    <p className="text-xs text-zinc-400 line-clamp-2">{style.prompt}</p>
+                                </div>
+                            </button>
+
+                            <TrashIcon onClick={()=>handleDelete(style._id)} className="mt-0.5 size-4 shrink-0 cursor-pointer text-zinc-500 opacity-0 group-hover:opacity-100 hover:text-pink-400 transition" />
+
+                        </div>
+
+                    ))}
+
+                    {isLoggedIn && (creating ? (
+
+                        <div className="space-y-2 border-t border-white/10 p-4">
+                            <input type="text" value={draft.name} onChange={(e)=>setDraft({...draft,name:e.target.value})} maxLength={40} placeholder="Style name" className="w-full px-3 py-2 rounded-md border border-white/12 bg-black/20 text-sm text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500" />
+                            <textarea value={draft.prompt} onChange={(e)=>setDraft({...draft,prompt:e.target.value})} maxLength={500} rows={2} placeholder="Describe the look, e.g. retro 80s poster, grainy film, chrome lettering" className="w-full px-3 py-2 rounded-md border border-white/12 bg-black/20 text-sm text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500 resize-none" />
+                            <input type="text" value={draft.negative_prompt} onChange={(e)=>setDraft({...draft,negative_prompt:e.target.value})} maxLength={500} placeholder="Avoid (optional), e.g. text, watermark, blur" className="w-full px-3 py-2 rounded-md border border-white/12 bg-black/20 text-sm text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500" />
+                            <div className="flex gap-2">
+                                <button type="button" onClick={handleCreate} className="flex-1 rounded-md bg-pink-600 py-2 text-sm hover:bg-pink-700 transition-colors">Save style</button>
+                                <button type="button" onClick={()=>setCreating(false)} className="rounded-md border border-white/12 px-3 py-2 text-sm hover:bg-white/6 transition-colors">Cancel</button>
+                            </div>
+                        </div>
+
+                    ) : (
+
+                        <button type="button" onClick={()=>setCreating(true)} className="flex w-full items-center gap-3 border-t border-white/10 px-4 py-3 text-left text-sm text-pink-300 transition hover:bg-black/30">
+                            <PlusIcon className="h-4 w-4" /> Create your own style
+                        </button>
+
+                    ))}
+
                 </div>
             )}
 
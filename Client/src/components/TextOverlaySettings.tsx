@@ -0,0 +1,61 @@
+import { overlayFonts, overlayPositions, type IOverlayStyle } from "../assets/assets"
+
+const TextOverlaySettings = ({enabled,onToggle,text,onTextChange,placeholder,value,onChange}:{enabled:boolean; onToggle:(enabled:boolean)=>void; text:string; onTextChange:(text:string)=>void; placeholder:string; value:IOverlayStyle; onChange:(style:IOverlayStyle)=>void}) => {
+
+    const update = (fields: Partial<IOverlayStyle>) => onChange({ ...value, ...fields })
+
+    return (
+        <div className="space-y-3">
+
+            <label className="flex items-center justify-between text-sm font-medium text-zinc-200">
+                Text Overlay
+                <input type="checkbox" checked={enabled} onChange={(e)=>onToggle(e.target.checked)} className="size-4 accent-pink-500" />
+            </label>
+
+            {enabled && (
+
+                <div className="space-y-3 rounded-lg border border-white/10 bg-black/20 p-3">
+
+                    <input type="text" value={text} onChange={(e)=>onTextChange(e.target.value)} maxLength={60} placeholder={placeholder || 'Headline (defaults to title)'} className="w-full px-3 py-2 rounded-md border border-white/12 bg-black/20 text-sm text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500" />
+
+                    <div className="flex flex-wrap gap-1.5">
+                        {overlayFonts.map((font)=>(
+                            <button key={font.id} type="button" onClick={()=>update({font:font.id})} className={`rounded-md border px-3 py-1.5 text-xs transition border-white/10 ${value.font === font.id ? 'bg-white/10' : 'hover:bg-white/6'}`}>
+                                {font.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex items-start gap-4">
+
+                        {/* position presets laid out as a 3x3 grid, empty cells are not offered */}
+                        <div className="grid grid-cols-3 gap-1">
+                            {['top-left','top','top-right','','center','','bottom-left','bottom','bottom-right'].map((position,i)=>(
+                                overlayPositions.includes(position as IOverlayStyle['position']) ? (
+                                    <button key={i} type="button" title={position} onClick={()=>update({position:position as IOverlayStyle['position']})} className={`size-5 rounded-sm border border-white/20 ${value.position === position ? 'bg-pink-500' : 'hover:bg-white/10'}`} />
+                                ) : <span key={i} className="size-5" />
+                            ))}
+                        </div>
+
+                        <div className="space-y-1.5 text-xs text-zinc-300">
+                            <label className="flex items-center gap-2"><input type="checkbox" checked={value.stroke} onChange={(e)=>update({stroke:e.target.checked})} className="accent-pink-500" /> Outline</label>
+                            <label className="flex items-center gap-2"><input type="checkbox" checked={value.shadow} onChange={(e)=>update({shadow:e.target.checked})} className="accent-pink-500" /> Drop shadow</label>
+                            <label className="flex items-center gap-2"><input type="checkbox" checked={value.uppercase} onChange={(e)=>update({uppercase:e.target.checked})} className="accent-pink-500" /> Uppercase</label>
+                        </div>
+
+                        <label className="ml-auto flex flex-col items-center gap-1 text-xs text-zinc-400">
+                            <input type="color" value={value.color} onChange={(e)=>update({color:e.target.value.toUpperCase()})} className="h-8 w-10 cursor-pointer rounded bg-transparent" />
+                            Color
+                        </label>
+
+                    </div>
+
+                </div>
+
+            )}
+
+        </div>
+    )
+}
+
+export default TextOverlaySettings
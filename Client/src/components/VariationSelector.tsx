@@ -0,0 +1,32 @@
+import { variationCounts } from '../assets/assets'
+
+const VariationSelector = ({value,onChange}:{value:number; onChange:(count:number)=>void}) => {
+
+  return (
+    <div className='space-y-3 dark'>
+
+      <label className='block text-sm font-medium text-zinc-200'>Variations</label>
+
+       <div className='flex flex-wrap gap-2'>
+
+          {variationCounts.map((count)=>{
+
+             const selected = value === count;
+
+             return(
+                <button key={count} type='button' onClick={()=>onChange(count)} className={`flex items-center justify-center rounded-md border px-5 py-2.5 text-sm transition border-white/10 ${selected ? 'bg-white/10':'hover:bg-white/6'}`} >
+                    <span className='tracking-widest'>{count}</span>
+                </button>
+             )
+
+          })}
+
+       </div>
+
+       <p className='text-xs text-zinc-400'>Each variation uses its own seed, pick your favourite afterwards</p>
+
+    </div>
+  )
+}
+
+export default VariationSelector
@@ -0,0 +1,41 @@
+import { useState } from "react"
+import { MailWarningIcon } from "lucide-react"
+import { useAuth } from "../context/AuthContext"
+import toast from "react-hot-toast"
+import api from "../configs/api"
+
+// Shown until the signup email is confirmed; generation is blocked until then
+const VerifyEmailNotice = () => {
+
+    const { user } = useAuth()
+    const [sending, setSending] = useState(false)
+
+    const handleResend = async () => {
+
+      try {
+        setSending(true)
+        const { data } = await api.post('/api/auth/resend-verification')
+        toast.success(data.message)
+      } catch (error: any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      } finally {
+        setSending(false)
+      }
+
+    }
+
+    if (user?.emailVerified !== false) return null
+
+    return (
+      <div className="mb-6 p-4 rounded-2xl bg-amber-500/10 border border-amber-400/30 flex flex-wrap items-center gap-3 text-sm">
+        <MailWarningIcon className="size-5 text-amber-300 shrink-0" />
+        <p className="flex-1 text-amber-100">Verify your email to start generating. We sent a link to <span className="font-medium">{user.email}</span>.</p>
+        <button onClick={handleResend} disabled={sending} className="px-3 py-1.5 rounded-lg border border-amber-300/40 text-amber-100 hover:bg-amber-500/20 disabled:opacity-50 transition-colors">
+          {sending ? 'Sending...' : 'Resend email'}
+        </button>
+      </div>
+    )
+}
+
+export default VerifyEmailNotice
@@ -7,4 +7,22 @@ const api = axios.create({
 
 })
 
-export default api;
\ No newline at end of file
+const formatWait = (seconds:number) =>
+    seconds < 60 ? `${seconds} second${seconds === 1 ? '' : 's'}` : `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}`
+
+// Rate limited requests come back as 429 with the wait in retry_after (or the
+// Retry-After header). The message is rewritten to say how long, so every
+// toast that shows response.data.message reads the same friendly way.
+api.interceptors.response.use(undefined, (error) => {
+
+    if (error?.response?.status === 429) {
+        const seconds = Number(error.response.data?.retry_after ?? error.response.headers?.['retry-after']) || 60
+        const reason = error.response.data?.message || 'Too many requests.'
+        error.response.data = { ...error.response.data, message: `${reason} Please wait ${formatWait(seconds)} and try again.` }
+    }
+
+    return Promise.reject(error)
+
+})
+
+export default api;
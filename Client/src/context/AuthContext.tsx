@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
-import type { IUser } from "../assets/assets";
+import type { ICredits, IUser } from "../assets/assets";
 import api from "../configs/api";
 import toast from "react-hot-toast";
 
@@ -9,6 +9,8 @@ interface AuthContextProps {
     setIsLoggedIn: (isLoggedIn: boolean) => void;
     user: IUser | null;
     setUser: (user: IUser | null) => void;
+    credits: ICredits | null;
+    refreshCredits: () => Promise<void>;
     login: (user: { email: string; password: string }) => Promise<void>
     signUp: (user: { name: string; email: string; password: string }) => Promise<void>
     logout: () => Promise<void>;
@@ -21,6 +23,8 @@ const AuthContext = createContext<AuthContextProps>({
     setIsLoggedIn: () => { },
     user: null,
     setUser: () => { },
+    credits: null,
+    refreshCredits: async () => { },
     login: async () => { },
     signUp: async () => { },
     logout: async () => { },
@@ -31,6 +35,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     const [user, setUser] = useState<IUser | null>(null)
     const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false)
+    const [credits, setCredits] = useState<ICredits | null>(null)
 
 
 
@@ -48,8 +53,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
             toast.success(data.message)
 
-        } catch (error) {
+        } catch (error: any) {
             console.log(error)
+            toast.error(error?.response?.data?.message || error.message)
         }
 
     }
@@ -72,8 +78,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
             toast.success(data.message)
 
-        } catch (error) {
-            toast.error("invalid password and email")
+        } catch (error: any) {
+            // rate limited attempts explain how long to wait, anything else stays generic
+            toast.error(error?.response?.status === 429 ? error.response.data.message : "invalid password and email")
         }
 
 
@@ -92,6 +99,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             const { data } = await api.post('/api/auth/logout')
             setUser(null)
             setIsLoggedIn(false)
+            setCredits(null)
             toast.success(data.message)
 
         } catch (error) {
@@ -120,6 +128,21 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     }
 
+    // credits left this month, refreshed after anything that spends or refunds them
+
+    const refreshCredits = async () => {
+
+        try {
+
+            const { data } = await api.get('/api/user/credits')
+            setCredits(data.credits as ICredits)
+
+        } catch (error) {
+            console.log(error)
+        }
+
+    }
+
     useEffect(() => {
 
         (async () => {
@@ -128,9 +151,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     }, [])
 
+    useEffect(() => {
+
+        if (isLoggedIn) {
+            refreshCredits()
+        }
+
+    }, [isLoggedIn])
+
     const value = {
 
         user, setUser,
+        credits, refreshCredits,
         isLoggedIn, setIsLoggedIn,
         signUp, login, logout
 
@@ -2,6 +2,7 @@ import type { IPricing } from "../types";
 
 export const pricingData: IPricing[] = [
     {
+        id: "basic",
         name: "Basic",
         price: 29,
         period: "month",
@@ -15,6 +16,7 @@ export const pricingData: IPricing[] = [
         mostPopular: false
     },
     {
+        id: "pro",
         name: "Pro",
         price: 79,
         period: "month",
@@ -30,6 +32,7 @@ export const pricingData: IPricing[] = [
         mostPopular: true
     },
     {
+        id: "enterprise",
         name: "Enterprise",
         price: 199,
         period: "month",
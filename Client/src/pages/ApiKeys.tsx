@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react"
+import { Link } from "react-router-dom"
+import { CopyIcon, KeyRoundIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { type ApiKeyScope, type IApiKey } from "../assets/assets"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const scopeLabels: Record<ApiKeyScope, string> = {
+  'thumbnails:read': 'Read thumbnails and credits',
+  'thumbnails:write': 'Generate, edit and delete thumbnails',
+}
+
+const ApiKeys = () => {
+
+  const { isLoggedIn } = useAuth()
+
+  const [keys, setKeys] = useState<IApiKey[]>([])
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([])
+  const [apiAccess, setApiAccess] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const [name, setName] = useState('')
+  const [selectedScopes, setSelectedScopes] = useState<ApiKeyScope[]>(['thumbnails:read', 'thumbnails:write'])
+  const [creating, setCreating] = useState(false)
+  // the full key is only returned once, right after it is created
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  const fetchKeys = async () => {
+
+    try {
+      const { data } = await api.get('/api/user/api-keys')
+      setKeys(data.keys)
+      setScopes(data.scopes)
+      setApiAccess(data.api_access)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setLoading(false)
+    }
+
+  }
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+
+    e.preventDefault()
+
+    try {
+      setCreating(true)
+      const { data } = await api.post('/api/user/api-keys/create', { name, scopes: selectedScopes })
+      setNewKey(data.key)
+      setKeys(prev => [data.apiKey, ...prev])
+      setName('')
+      toast.success(data.message)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setCreating(false)
+    }
+
+  }
+
+  const handleRevoke = async (key: IApiKey) => {
+
+    try {
+      const confirm = window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`);
+      if (!confirm) return;
+      const { data } = await api.post(`/api/user/api-keys/revoke/${key._id}`)
+      setKeys(prev => prev.filter((k) => k._id !== key._id))
+      toast.success(data.message)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setSelectedScopes(prev => prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope])
+  }
+
+  const copyKey = async () => {
+    await navigator.clipboard.writeText(newKey as string)
+    toast.success('Copied to clipboard')
+  }
+
+  useEffect(() => {
+
+    if (isLoggedIn) {
+      fetchKeys()
+    }
+
+  }, [isLoggedIn])
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32 max-w-4xl">
+
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-zinc-200">API keys</h1>
+          <p className="text-sm text-zinc-400 mt-1">Call the API from your own scripts with <code className="text-zinc-300">Authorization: Bearer &lt;key&gt;</code></p>
+        </div>
+
+        {!loading && !apiAccess && (
+          <div className="mb-6 p-5 rounded-2xl bg-white/6 border border-white/10 text-sm text-zinc-300">
+            API access is part of the Enterprise plan. <Link to={'/#pricing'} className="text-pink-400 hover:underline">Upgrade</Link> to create keys{keys.length > 0 && ', your existing keys are paused until then'}.
+          </div>
+        )}
+
+        {newKey && (
+          <div className="mb-6 p-5 rounded-2xl bg-green-500/10 border border-green-400/30 space-y-2 text-sm">
+            <p className="text-green-200">Copy your new key now. You won't be able to see it again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 rounded-lg bg-black/40 text-xs text-zinc-200 break-all">{newKey}</code>
+              <button onClick={copyKey} className="p-2 rounded-lg border border-white/12 hover:bg-white/8 transition-colors" title="Copy"><CopyIcon className="size-4" /></button>
+            </div>
+            <button onClick={() => setNewKey(null)} className="text-xs text-zinc-400 hover:text-zinc-200">Done</button>
+          </div>
+        )}
+
+        {apiAccess && (
+          <form onSubmit={handleCreate} className="mb-6 p-6 rounded-2xl bg-white/6 border border-white/10 space-y-4">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-zinc-300"><PlusIcon className="size-4" /> New key</h2>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} placeholder="e.g., Upload script" required className="w-full px-4 py-3 rounded-lg border border-white/12 bg-black/20 text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500" />
+            <div className="space-y-2">
+              {scopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                  <input type="checkbox" checked={selectedScopes.includes(scope)} onChange={() => toggleScope(scope)} className="accent-pink-500" />
+                  <code className="text-zinc-200">{scope}</code> <span className="text-zinc-500">{scopeLabels[scope]}</span>
+                </label>
+              ))}
+            </div>
+            <button type="submit" disabled={creating || !name.trim() || selectedScopes.length === 0} className="px-4 py-2 rounded-lg text-sm bg-pink-600 hover:bg-pink-700 disabled:opacity-50 transition-colors">
+              {creating ? 'Creating...' : 'Create key'}
+            </button>
+          </form>
+        )}
+
+        <div className="space-y-3">
+          {keys.map((key) => (
+            <div key={key._id} className="p-4 rounded-2xl bg-white/6 border border-white/10 flex flex-wrap items-center gap-4">
+              <KeyRoundIcon className="size-5 text-zinc-400" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-zinc-100">{key.name} <code className="ml-2 text-xs text-zinc-400">{key.prefix}…</code></p>
+                <p className="text-xs text-zinc-400 mt-1">
+                  {key.scopes.join(', ')} · created {new Date(key.createdAt).toLocaleDateString()} · {key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleString()}` : 'never used'}
+                </p>
+              </div>
+              <button onClick={() => handleRevoke(key)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border border-white/12 hover:bg-red-500/20 transition-colors">
+                <Trash2Icon className="size-4" /> Revoke
+              </button>
+            </div>
+          ))}
+          {!loading && keys.length === 0 && <p className="text-sm text-zinc-400">No API keys yet.</p>}
+        </div>
+
+      </div>
+    </div>
+  )
+}
+
+export default ApiKeys
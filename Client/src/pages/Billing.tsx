@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react"
+import { Link, useSearchParams } from "react-router-dom"
+import { CreditCardIcon, ZapIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { type IPaidPlan, type ISubscription, type PlanId } from "../assets/assets"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const statusLabels: Record<ISubscription['status'], string> = {
+  pending: 'Waiting for payment',
+  incomplete: 'Payment declined',
+  active: 'Active',
+  past_due: 'Payment failed, retrying',
+  cancelled: 'Cancelled',
+}
+
+const Billing = () => {
+
+  const { isLoggedIn, user, setUser, credits, refreshCredits } = useAuth()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const [plan, setPlan] = useState<PlanId>('free')
+  const [subscription, setSubscription] = useState<ISubscription | null>(null)
+  const [plans, setPlans] = useState<IPaidPlan[]>([])
+  const [provider, setProvider] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+
+  const fetchBilling = async () => {
+
+    try {
+      const { data } = await api.get('/api/billing')
+      setPlan(data.plan)
+      setSubscription(data.subscription)
+      setPlans(data.plans)
+      setProvider(data.provider)
+      // webhooks change the plan server side, keep the session user in step
+      if (user && user.plan !== data.plan) {
+        setUser({ ...user, plan: data.plan })
+      }
+      refreshCredits()
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  const handleCancel = async () => {
+
+    try {
+      const confirm = window.confirm('Cancel your subscription? You will be moved to the free plan.');
+      if (!confirm) return;
+      setCancelling(true)
+      const { data } = await api.post('/api/billing/cancel')
+      toast.success(data.message)
+      fetchBilling()
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setCancelling(false)
+    }
+
+  }
+
+  // the provider sends the user back here with the checkout outcome
+  useEffect(() => {
+
+    const checkout = searchParams.get('checkout')
+    if (checkout === 'success') toast.success('Payment received, thanks for subscribing!')
+    if (checkout === 'cancelled') toast('Checkout cancelled')
+    if (checkout) setSearchParams({}, { replace: true })
+
+  }, [])
+
+  useEffect(() => {
+
+    if (isLoggedIn) {
+      fetchBilling()
+    }
+
+  }, [isLoggedIn])
+
+  const currentPlan = plans.find((p) => p.id === plan)
+  const live = subscription && (subscription.status === 'active' || subscription.status === 'past_due')
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32 max-w-4xl">
+
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-zinc-200">Billing</h1>
+          <p className="text-sm text-zinc-400 mt-1">Your plan, credits and subscription</p>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+
+          <div className="p-6 rounded-2xl bg-white/6 border border-white/10 space-y-3">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-zinc-300"><ZapIcon className="size-4" /> Plan</h2>
+            <p className="text-2xl font-semibold text-zinc-100">{credits?.plan_label || currentPlan?.label || 'Free'}</p>
+            {credits && (
+              <p className="text-sm text-zinc-400">
+                {credits.limit === null
+                  ? `Unlimited generations · ${credits.used} used this month`
+                  : `${credits.remaining} of ${credits.limit} credits left · resets ${new Date(credits.resets_at).toLocaleDateString()}`}
+              </p>
+            )}
+            <Link to={'/#pricing'} className="inline-block text-sm text-pink-400 hover:underline">{plan === 'free' ? 'Upgrade' : 'Change plan'}</Link>
+          </div>
+
+          <div className="p-6 rounded-2xl bg-white/6 border border-white/10 space-y-3">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-zinc-300"><CreditCardIcon className="size-4" /> Subscription</h2>
+
+            {subscription ? (
+              <>
+                <p className={`text-sm font-medium ${subscription.status === 'active' ? 'text-green-400' : subscription.status === 'cancelled' ? 'text-zinc-400' : 'text-amber-300'}`}>
+                  {plans.find((p) => p.id === subscription.plan)?.label} · {statusLabels[subscription.status]}
+                </p>
+                {live && subscription.current_period_end && (
+                  <p className="text-sm text-zinc-400">Renews {new Date(subscription.current_period_end).toDateString()}</p>
+                )}
+                {subscription.status === 'past_due' && (
+                  <p className="text-xs text-amber-200">Your last payment failed. You keep your plan while the payment is retried.</p>
+                )}
+                {subscription.cancelledAt && <p className="text-sm text-zinc-400">Cancelled {new Date(subscription.cancelledAt).toDateString()}</p>}
+                {live && (
+                  <button onClick={handleCancel} disabled={cancelling} className="px-4 py-2 rounded-lg text-sm border border-white/12 hover:bg-red-500/20 disabled:opacity-50 transition-colors">
+                    {cancelling ? 'Cancelling...' : 'Cancel subscription'}
+                  </button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-zinc-400">You're on the free plan. Pick a plan on the pricing page to subscribe.</p>
+            )}
+          </div>
+
+        </div>
+
+        {/* renewals and failed payments come from the provider, the fake one is driven by a script */}
+        {provider === 'fake' && live && subscription.subscription_id && (
+          <div className="mt-6 p-5 rounded-2xl bg-white/6 border border-dashed border-white/15 space-y-2 text-sm">
+            <h2 className="font-semibold text-zinc-200">Test mode</h2>
+            <p className="text-zinc-400">Payments go through the offline fake provider. Simulate the rest of the lifecycle from the server folder, then reload this page:</p>
+            <pre className="px-3 py-2 rounded-lg bg-black/40 text-xs text-zinc-300 overflow-x-auto">{`npm run billing:simulate -- --subscription=${subscription.subscription_id} --event=renewed
+npm run billing:simulate -- --subscription=${subscription.subscription_id} --event=payment_failed
+npm run billing:simulate -- --subscription=${subscription.subscription_id} --event=cancelled`}</pre>
+          </div>
+        )}
+
+      </div>
+    </div>
+  )
+}
+
+export default Billing
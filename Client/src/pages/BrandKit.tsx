@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react"
+import { ImagePlusIcon, PlusIcon, TrashIcon, XIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { logoPositions, overlayFonts, thumbnailStyles, type IBrandKit } from "../assets/assets"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const emptyKit: IBrandKit = { logo_position: 'bottom-right', logo_scale: 0.15, logo_opacity: 1, colors: [] }
+
+const BrandKit = () => {
+
+  const { isLoggedIn } = useAuth()
+
+  const [kit, setKit] = useState<IBrandKit>(emptyKit)
+  const [exists, setExists] = useState(false)
+  const [logoFile, setLogoFile] = useState<File | null>(null)
+  const [logoPreview, setLogoPreview] = useState<string | null>(null)
+  const [removeLogo, setRemoveLogo] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const update = (fields: Partial<IBrandKit>) => setKit({ ...kit, ...fields })
+
+  const fetchBrandKit = async () => {
+
+    try {
+      const { data } = await api.get('/api/user/brand-kit')
+      if (data.brandKit) {
+        setKit({ ...emptyKit, ...data.brandKit })
+        setExists(true)
+      }
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  // a new logo turns the request into multipart, with the JSON fields in `data`
+  const handleSave = async () => {
+
+    const payload = {
+      colors: kit.colors,
+      font: kit.font || null,
+      default_style: kit.default_style || null,
+      logo_position: kit.logo_position,
+      logo_scale: kit.logo_scale,
+      logo_opacity: kit.logo_opacity,
+      remove_logo: removeLogo,
+    }
+
+    let body: FormData | typeof payload = payload
+    if (logoFile) {
+      body = new FormData()
+      body.append('data', JSON.stringify(payload))
+      body.append('logo', logoFile)
+    }
+
+    try {
+      setSaving(true)
+      const { data } = await api.post('/api/user/brand-kit/update', body)
+      setKit({ ...emptyKit, ...data.brandKit })
+      setExists(true)
+      setLogoFile(null)
+      setRemoveLogo(false)
+      toast.success(data.message)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setSaving(false)
+    }
+
+  }
+
+  const handleDelete = async () => {
+
+    try {
+      const confirm = window.confirm('Delete your brand kit and its logo?');
+      if (!confirm) return;
+      const { data } = await api.delete('/api/user/brand-kit/delete')
+      setKit(emptyKit)
+      setExists(false)
+      toast.success(data.message)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  useEffect(() => {
+    if (!logoFile) {
+      return setLogoPreview(null)
+    }
+    const url = URL.createObjectURL(logoFile)
+    setLogoPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [logoFile])
+
+  useEffect(() => {
+
+    if (isLoggedIn) {
+      fetchBrandKit()
+    }
+
+  }, [isLoggedIn])
+
+  const shownLogo = logoPreview || (!removeLogo && kit.logo_url)
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32">
+
+        {/* HEADER */}
+
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-zinc-200">Brand Kit</h1>
+          <p className="text-sm text-zinc-400 mt-1">Your logo, colors and fonts, applied when "Use brand kit" is on</p>
+        </div>
+
+        <div className="grid max-w-4xl gap-6 lg:grid-cols-2">
+
+          {/* LOGO */}
+
+          <div className="p-6 rounded-2xl bg-white/8 border border-white/12 shadow-xl space-y-4">
+
+            <h2 className="text-lg font-semibold text-zinc-100">Logo</h2>
+
+            {shownLogo ? (
+
+              <div className="relative w-fit rounded-lg bg-[repeating-conic-gradient(#27272a_0_25%,#18181b_0_50%)] bg-size-[16px_16px] p-3">
+                <img src={shownLogo} alt="Logo" className="max-h-24 max-w-full" />
+                <XIcon onClick={() => logoFile ? setLogoFile(null) : setRemoveLogo(true)} className="absolute -top-2 -right-2 size-5 cursor-pointer rounded-full bg-black p-0.5 text-zinc-300 hover:text-pink-400" />
+              </div>
+
+            ) : (
+
+              <label className="flex cursor-pointer items-center gap-3 rounded-lg border border-dashed border-white/20 px-4 py-6 text-sm text-zinc-400 hover:bg-white/6 transition">
+                <ImagePlusIcon className="size-5 shrink-0" />
+                <span>Upload a logo - a transparent PNG works best</span>
+                <input type="file" accept="image/*" onChange={(e) => { if (e.target.files?.[0]) setLogoFile(e.target.files[0]); e.target.value = '' }} className="hidden" />
+              </label>
+
+            )}
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-zinc-200">Corner</label>
+              <div className="grid w-fit grid-cols-2 gap-1.5">
+                {logoPositions.map((position) => (
+                  <button key={position} type="button" title={position} onClick={() => update({ logo_position: position })} className={`h-8 w-14 rounded-md border border-white/20 ${kit.logo_position === position ? 'bg-pink-500' : 'hover:bg-white/10'}`} />
+                ))}
+              </div>
+            </div>
+
+            <label className="block space-y-1 text-sm text-zinc-200">
+              <span>Size ({Math.round(kit.logo_scale * 100)}% of width)</span>
+              <input type="range" min={0.05} max={0.4} step={0.01} value={kit.logo_scale} onChange={(e) => update({ logo_scale: Number(e.target.value) })} className="w-full accent-pink-500" />
+            </label>
+
+            <label className="block space-y-1 text-sm text-zinc-200">
+              <span>Opacity ({Math.round(kit.logo_opacity * 100)}%)</span>
+              <input type="range" min={0.1} max={1} step={0.05} value={kit.logo_opacity} onChange={(e) => update({ logo_opacity: Number(e.target.value) })} className="w-full accent-pink-500" />
+            </label>
+
+          </div>
+
+          {/* COLORS, FONT, STYLE */}
+
+          <div className="p-6 rounded-2xl bg-white/8 border border-white/12 shadow-xl space-y-5">
+
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-zinc-100">Brand colors</h2>
+              <div className="flex flex-wrap items-center gap-2">
+                {kit.colors.map((color, i) => (
+                  <div key={i} className="group relative">
+                    <input type="color" value={color} onChange={(e) => update({ colors: kit.colors.map((c, j) => j === i ? e.target.value.toUpperCase() : c) })} className="h-9 w-11 cursor-pointer rounded bg-transparent" />
+                    <XIcon onClick={() => update({ colors: kit.colors.filter((_, j) => j !== i) })} className="absolute -top-1.5 -right-1.5 size-3.5 cursor-pointer rounded-full bg-black p-0.5 text-zinc-300 opacity-0 group-hover:opacity-100" />
+                  </div>
+                ))}
+                {kit.colors.length < 6 && (
+                  <button type="button" onClick={() => update({ colors: [...kit.colors, '#FFFFFF'] })} className="flex h-9 w-11 items-center justify-center rounded border border-dashed border-white/20 text-zinc-400 hover:text-zinc-200">
+                    <PlusIcon className="size-4" />
+                  </button>
+                )}
+              </div>
+              {kit.color_description && <p className="text-xs text-zinc-400">Added to prompts as: {kit.color_description}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-zinc-200">Headline font</label>
+              <div className="flex flex-wrap gap-1.5">
+                {overlayFonts.map((font) => (
+                  <button key={font.id} type="button" onClick={() => update({ font: kit.font === font.id ? undefined : font.id })} className={`rounded-md border px-3 py-1.5 text-xs transition border-white/10 ${kit.font === font.id ? 'bg-white/10' : 'hover:bg-white/6'}`}>
+                    {font.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-zinc-200">Default style</label>
+              <select value={kit.default_style || ''} onChange={(e) => update({ default_style: e.target.value || undefined })} className="w-full rounded-md border border-white/12 bg-black/40 px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-pink-500">
+                <option value="">No default</option>
+                {thumbnailStyles.map((style) => <option key={style} value={style}>{style}</option>)}
+              </select>
+            </div>
+
+          </div>
+
+        </div>
+
+        <div className="mt-6 flex max-w-4xl gap-3">
+          <button onClick={handleSave} disabled={saving} className="px-8 py-3 rounded-xl font-medium bg-linear-to-b from-pink-500 to-pink-600 hover:from-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            {saving ? 'Saving...' : 'Save brand kit'}
+          </button>
+          {exists && (
+            <button onClick={handleDelete} className="flex items-center gap-2 px-5 py-3 rounded-xl border border-white/12 text-sm hover:bg-white/6 transition-colors">
+              <TrashIcon className="size-4" /> Delete
+            </button>
+          )}
+        </div>
+
+      </div>
+    </div>
+  )
+}
+
+export default BrandKit
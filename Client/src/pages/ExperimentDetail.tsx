@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react"
+import { Link, useNavigate, useParams } from "react-router-dom"
+import { ArrowLeftIcon, CopyIcon, RefreshCwIcon, TrashIcon, TrophyIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { type IExperiment, type IThumbnail } from "../assets/assets"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`
+
+const ExperimentDetail = () => {
+
+  const { id } = useParams()
+  const { isLoggedIn } = useAuth()
+  const navigate = useNavigate()
+
+  const [experiment, setExperiment] = useState<IExperiment | null>(null)
+  const [thumbnails, setThumbnails] = useState<IThumbnail[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchExperiment = async () => {
+
+    try {
+      setLoading(true)
+      const { data } = await api.get(`/api/experiments/${id}`)
+      setExperiment(data.experiment)
+      setThumbnails(data.thumbnails || [])
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setLoading(false)
+    }
+
+  }
+
+  const handleDeclareWinner = async (winner_id: string) => {
+
+    try {
+      const confirm = window.confirm('End this test and declare this variant the winner?');
+      if (!confirm) return;
+      const { data } = await api.post(`/api/experiments/complete/${id}`, { winner_id })
+      toast.success(data.message)
+      setExperiment(data.experiment)
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  const handleDelete = async () => {
+
+    try {
+      const confirm = window.confirm('Delete this A/B test and its results?');
+      if (!confirm) return;
+      const { data } = await api.delete(`/api/experiments/delete/${id}`)
+      toast.success(data.message)
+      navigate('/experiments')
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  const copyKey = () => {
+    navigator.clipboard.writeText(experiment!.tracking_key)
+    toast.success('Tracking key copied')
+  }
+
+  useEffect(() => {
+
+    if (isLoggedIn && id) {
+      fetchExperiment()
+    }
+
+  }, [isLoggedIn, id])
+
+  if (!experiment) {
+    return (
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32 text-sm text-zinc-400">
+        {loading ? 'Loading...' : 'Experiment not found'}
+      </div>
+    )
+  }
+
+  const { stats } = experiment
+  const running = experiment.status === 'running'
+
+  // interval bars share one scale so the variants can be compared at a glance
+  const scale = Math.max(...stats.variants.map((variant) => variant.interval.high), 0.01)
+  const underSampled = stats.variants.some((variant) => variant.impressions < stats.min_impressions)
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32">
+
+        <Link to={'/experiments'} className="inline-flex items-center gap-1 text-sm text-zinc-400 hover:text-pink-300 transition">
+          <ArrowLeftIcon className="size-4" /> All A/B tests
+        </Link>
+
+        <div className="mt-4 mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-zinc-200">{experiment.name}</h1>
+            <p className="text-sm text-zinc-400 mt-1">
+              {running ? 'Running' : `Completed ${new Date(experiment.completedAt!).toDateString()}`} · started {new Date(experiment.createdAt!).toDateString()}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {running && (
+              <button onClick={fetchExperiment} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm border border-white/12 hover:bg-white/6 transition-colors">
+                <RefreshCwIcon className={`size-4 ${loading && 'animate-spin'}`} /> Refresh
+              </button>
+            )}
+            <button onClick={handleDelete} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm border border-white/12 hover:bg-red-500/20 transition-colors">
+              <TrashIcon className="size-4" /> Delete
+            </button>
+          </div>
+        </div>
+
+        {/* CONFIDENCE */}
+
+        <div className="mb-8 p-5 rounded-2xl bg-white/6 border border-white/10">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-zinc-300">Confidence the leader beats the runner-up</span>
+            <span className="font-semibold text-zinc-100">{percent(stats.confidence)}</span>
+          </div>
+          <div className="mt-3 h-2 rounded-full bg-white/10 overflow-hidden">
+            <div className={`h-full rounded-full ${stats.significant ? 'bg-green-500' : 'bg-pink-500'}`} style={{ width: `${stats.confidence * 100}%` }} />
+          </div>
+          <p className="text-xs text-zinc-500 mt-3">
+            {stats.significant ? 'The difference is statistically significant at 95%.'
+              : underSampled ? `Keep the test running until every variant has at least ${stats.min_impressions} impressions.`
+                : 'Not significant yet, the variants may perform about the same.'}
+          </p>
+        </div>
+
+        {/* VARIANTS */}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {stats.variants.map((variant) => {
+            const thumbnail = thumbnails.find((t) => t._id === variant.thumbnailId)
+            const isWinner = experiment.winner_thumbnail_id === variant.thumbnailId
+            const isLeader = running && stats.leader === variant.thumbnailId
+
+            return (
+              <div key={variant.thumbnailId} className={`rounded-2xl bg-white/6 border ${isWinner ? 'border-yellow-400' : 'border-white/10'} overflow-hidden`}>
+                <div className="relative aspect-video bg-black">
+                  {thumbnail?.image_url ? (
+                    <img src={thumbnail.image_url} alt={thumbnail.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="h-full w-full flex items-center justify-center text-sm text-zinc-500">Thumbnail deleted</div>
+                  )}
+                  <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-xs font-semibold">Variant {variant.label}</span>
+                  {isWinner && <span className="absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 rounded bg-yellow-400 text-black text-xs font-semibold"><TrophyIcon className="size-3.5" /> Winner</span>}
+                  {isLeader && <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-pink-600 text-xs font-semibold">Leading</span>}
+                </div>
+
+                <div className="p-4 space-y-3">
+                  {thumbnail && <h3 className="text-sm font-semibold text-zinc-100 line-clamp-1">{thumbnail.title}</h3>}
+
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div>
+                      <p className="text-xs text-zinc-500">Impressions</p>
+                      <p className="text-sm font-semibold">{variant.impressions.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-zinc-500">Clicks</p>
+                      <p className="text-sm font-semibold">{variant.clicks.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-zinc-500">CTR</p>
+                      <p className="text-sm font-semibold">{percent(variant.ctr)}</p>
+                    </div>
+                  </div>
+
+                  <div title="95% confidence interval for the CTR">
+                    <div className="relative h-2 rounded-full bg-white/10">
+                      <div className="absolute h-full rounded-full bg-pink-500/50" style={{ left: `${variant.interval.low / scale * 100}%`, width: `${(variant.interval.high - variant.interval.low) / scale * 100}%` }} />
+                      <div className="absolute -top-0.5 h-3 w-0.5 bg-white" style={{ left: `${variant.ctr / scale * 100}%` }} />
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-1.5">95% interval {percent(variant.interval.low)} – {percent(variant.interval.high)}</p>
+                  </div>
+
+                  {running && (
+                    <button onClick={() => handleDeclareWinner(variant.thumbnailId)} className="w-full py-2 rounded-lg text-sm border border-white/12 hover:bg-pink-600 hover:border-pink-600 transition-colors">
+                      Declare winner
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* TRACKING */}
+
+        {running && (
+          <div className="mt-8 mb-16 p-5 rounded-2xl bg-white/6 border border-white/10 space-y-3 text-sm">
+            <h2 className="font-semibold text-zinc-200">Tracking</h2>
+            <p className="text-zinc-400">Report impressions and clicks for each variant (by label or thumbnail id) with this test's tracking key.</p>
+
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 rounded-lg bg-black/40 text-xs text-zinc-300 overflow-x-auto">{experiment.tracking_key}</code>
+              <CopyIcon onClick={copyKey} className="size-8 p-2 rounded-lg border border-white/12 hover:bg-white/6 cursor-pointer" />
+            </div>
+
+            <pre className="px-3 py-2 rounded-lg bg-black/40 text-xs text-zinc-300 overflow-x-auto">{`curl -X POST ${api.defaults.baseURL}/api/experiments/track \\
+  -H "Content-Type: application/json" \\
+  -d '{"key":"${experiment.tracking_key}","events":[{"variant":"A","type":"impression"},{"variant":"A","type":"click"}]}'`}</pre>
+
+            <p className="text-zinc-400">To try it locally, simulate traffic from the server folder:</p>
+            <pre className="px-3 py-2 rounded-lg bg-black/40 text-xs text-zinc-300 overflow-x-auto">{`npm run experiment:simulate -- --key=${experiment.tracking_key} --ctr=${stats.variants.map((_, i) => (0.04 + i * 0.01).toFixed(2)).join(',')}`}</pre>
+          </div>
+        )}
+
+      </div>
+    </div>
+  )
+}
+
+export default ExperimentDetail
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react"
+import { Link } from "react-router-dom"
+import { FlaskConicalIcon, TrophyIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { type IExperiment } from "../assets/assets"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+const Experiments = () => {
+
+  const { isLoggedIn } = useAuth()
+
+  const [experiments, setExperiments] = useState<IExperiment[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchExperiments = async () => {
+
+    try {
+      setLoading(true)
+      const { data } = await api.get('/api/experiments')
+      setExperiments(data.experiments || [])
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setLoading(false)
+    }
+
+  }
+
+  useEffect(() => {
+
+    if (isLoggedIn) {
+      fetchExperiments()
+    }
+
+  }, [isLoggedIn])
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 md:px-16 lg:px-24 xl:px-32">
+
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-zinc-200">A/B Tests</h1>
+          <p className="text-sm text-zinc-400 mt-1">Compare click-through rates of your thumbnails. Start a test from My Generations.</p>
+        </div>
+
+        {loading && (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="rounded-2xl bg-white/6 border border-white/10 animate-pulse h-20" />
+            ))}
+          </div>
+        )}
+
+        {!loading && experiments.length === 0 && (
+          <div className="text-center py-24">
+            <FlaskConicalIcon className="size-8 mx-auto text-zinc-500" />
+            <h3 className="text-lg font-semibold text-zinc-200 mt-4">No A/B tests yet</h3>
+            <p className="text-sm text-zinc-400 mt-2">Select two or more thumbnails in <Link to={'/my-generation'} className="text-pink-400 hover:underline">My Generations</Link> to start one</p>
+          </div>
+        )}
+
+        {!loading && experiments.length > 0 && (
+          <div className="space-y-4">
+            {experiments.map((experiment) => {
+              const impressions = experiment.stats.variants.reduce((sum, variant) => sum + variant.impressions, 0)
+              const winner = experiment.stats.variants.find((variant) => variant.thumbnailId === experiment.winner_thumbnail_id)
+
+              return (
+                <Link key={experiment._id} to={`/experiments/${experiment._id}`} className="flex flex-wrap items-center justify-between gap-4 p-5 rounded-2xl bg-white/6 border border-white/10 hover:border-pink-500/50 transition">
+                  <div>
+                    <h3 className="font-semibold text-zinc-100">{experiment.name}</h3>
+                    <p className="text-xs text-zinc-500 mt-1">{experiment.stats.variants.length} variants · {impressions.toLocaleString()} impressions · started {new Date(experiment.createdAt!).toDateString()}</p>
+                  </div>
+
+                  <div className="flex items-center gap-3 text-xs">
+                    {winner && <span className="flex items-center gap-1 text-yellow-300"><TrophyIcon className="size-3.5" /> Variant {winner.label}</span>}
+                    {!winner && experiment.stats.significant && <span className="text-green-400">Significant result</span>}
+                    <span className={`px-2 py-0.5 rounded ${experiment.status === 'running' ? 'bg-green-500/15 text-green-300' : 'bg-white/8 text-zinc-400'}`}>{experiment.status}</span>
+                  </div>
+                </Link>
+              )
+            })}
+          </div>
+        )}
+
+      </div>
+    </div>
+  )
+}
+
+export default Experiments
@@ -0,0 +1,69 @@
+import { useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { FlaskConicalIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import api from "../configs/api"
+import toast from "react-hot-toast"
+
+// Stand-in for a payment provider's hosted checkout, used with the fake billing
+// provider. Nothing is charged: the buttons decide which webhook gets sent.
+
+const FakeCheckout = () => {
+
+  const [searchParams] = useSearchParams()
+  const [submitting, setSubmitting] = useState(false)
+
+  const session = searchParams.get('session')
+  const plan = searchParams.get('plan') || ''
+  const amount = searchParams.get('amount')
+
+  const handleComplete = async (outcome: 'paid' | 'failed') => {
+
+    try {
+      setSubmitting(true)
+      const { data } = await api.post('/api/billing/fake/complete', { session, outcome })
+      if (data.subscription?.status === 'active') {
+        window.location.href = searchParams.get('success_url') || '/billing'
+      } else {
+        toast.error(data.message)
+      }
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    } finally {
+      setSubmitting(false)
+    }
+
+  }
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 flex justify-center">
+
+        <div className="w-full max-w-sm h-fit p-6 rounded-2xl bg-white/6 border border-white/10 space-y-5">
+          <p className="flex items-center gap-2 text-xs text-amber-300"><FlaskConicalIcon className="size-4" /> Test checkout, no real payment is made</p>
+
+          <div>
+            <p className="text-sm text-zinc-400">Subscribe to</p>
+            <h1 className="text-2xl font-semibold text-zinc-100 capitalize">{plan}</h1>
+            <p className="text-zinc-300">${amount}<span className="text-sm text-zinc-500">/month</span></p>
+          </div>
+
+          <div className="space-y-2">
+            <button onClick={() => handleComplete('paid')} disabled={submitting || !session} className="w-full py-2.5 rounded-lg bg-pink-600 hover:bg-pink-700 disabled:opacity-50 transition-colors">
+              Pay ${amount}
+            </button>
+            <button onClick={() => handleComplete('failed')} disabled={submitting || !session} className="w-full py-2.5 rounded-lg text-sm border border-white/12 hover:bg-white/6 disabled:opacity-50 transition-colors">
+              Simulate declined card
+            </button>
+            <a href={searchParams.get('cancel_url') || '/billing'} className="block text-center text-sm text-zinc-400 hover:text-zinc-200">Cancel</a>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  )
+}
+
+export default FakeCheckout
@@ -1,14 +1,20 @@
 import { useEffect, useState } from "react"
-import { useLocation, useNavigate, useParams } from "react-router-dom"
-import { colorSchemes, type AspectRatio, type IThumbnail, type ThumbnailStyle } from "../assets/assets"
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom"
+import { colorSchemes, defaultOverlayStyle, isThumbnailPending, type AspectRatio, type IBrandKit, type IGenerationEvent, type IOverlayStyle, type IThumbnail, type ThumbnailStyle } from "../assets/assets"
 import SoftBackdrop from "../components/SoftBackdrop"
-import { style } from "motion/react-client"
 import AspectRatioSelector from "../components/AspectRatioSelector"
 import StyleSelector from "../components/StyleSelector"
 import ColorSchemaSelector from "../components/ColorSchemaSelector"
 import PreviewPanel from "../components/PreviewPanel"
+import VariationSelector from "../components/VariationSelector"
+import TextOverlaySettings from "../components/TextOverlaySettings"
+import HookSuggestions from "../components/HookSuggestions"
+import QualityPanel from "../components/QualityPanel"
+import ReferenceImageInput from "../components/ReferenceImageInput"
+import VerifyEmailNotice from "../components/VerifyEmailNotice"
 import { useAuth } from "../context/AuthContext"
 import toast from "react-hot-toast"
+import { CheckIcon, SparklesIcon, XIcon } from "lucide-react"
 import api from "../configs/api"
 
 
@@ -17,19 +23,61 @@ const Generate = () => {
     const {id} = useParams()
     const {pathname} = useLocation()
     const navigate = useNavigate()
-    const {isLoggedIn} = useAuth()
+    const {isLoggedIn,refreshCredits} = useAuth()
 
 
     const [title,setTitle] = useState('')
     const [additionalDetails,setAdditionalDetails] = useState('')
     const [thumbnail,setThumbnail] = useState<IThumbnail |  null>(null)
     const [loading,setloading] = useState(false)
+    const [progress,setProgress] = useState<IGenerationEvent[]>([])
+    const [sseFailed,setSseFailed] = useState(false)
 
 
     const [aspectRatio,setAspectrati] = useState<AspectRatio>('16:9')
     const [colorSchemaId,setColorsShemaId] = useState<string>(colorSchemes[0].id)
     const [Style,setStyle] = useState<ThumbnailStyle>('Bold & Graphic')
+    const [customStyleId,setCustomStyleId] = useState<string | null>(null)
+    const [customPaletteId,setCustomPaletteId] = useState<string | null>(null)
     const [styleDropdown,setStyleDropdown] = useState(false)
+    const [variations,setVariations] = useState(1)
+    const [remixing,setRemixing] = useState(false)
+    const [textOverlay,setTextOverlay] = useState(true)
+    const [overlayText,setOverlayText] = useState('')
+    const [overlayStyle,setOverlayStyle] = useState<IOverlayStyle>(defaultOverlayStyle)
+    const [enhancing,setEnhancing] = useState(false)
+    const [referenceFile,setReferenceFile] = useState<File | null>(null)
+    const [removeReference,setRemoveReference] = useState(false)
+    const [brandKit,setBrandKit] = useState<IBrandKit | null>(null)
+    const [useBrandKit,setUseBrandKit] = useState(false)
+    const [enhancedPrompt,setEnhancedPrompt] = useState<string | null>(null)
+
+    const buildPayload = ()=>({
+        title,
+        prompt:additionalDetails,
+        style:Style,
+        style_id:customStyleId,
+        aspect_ratio:aspectRatio,
+        color_scheme:colorSchemaId,
+        palette_id:customPaletteId,
+        text_overlay:textOverlay,
+        overlay_text:overlayText,
+        overlay_style:overlayStyle,
+        variations,
+        remove_reference:removeReference,
+        use_brand_kit:useBrandKit,
+    })
+
+    // a reference image turns the request into multipart, with the JSON fields in `data`
+    const buildRequestBody = ()=>{
+        if(!referenceFile){
+            return buildPayload()
+        }
+        const form = new FormData()
+        form.append('data', JSON.stringify(buildPayload()))
+        form.append('reference_image', referenceFile)
+        return form
+    }
 
     const handleGenerate = async()=>{
 
@@ -43,21 +91,37 @@ const Generate = () => {
         } 
           setloading(true)
 
-        const api_payload = {
-            title,
-            prompt:additionalDetails,
-            style,
-            aspect_ratio:aspectRatio,
-            color_scheme:colorSchemaId,
-            text_overlay:true,
+        try {
+          const {data} = await api.post('/api/thumbnail/generate',buildRequestBody());
+
+          if(data.thumbnail){
+              setReferenceFile(null)
+              navigate('/generate/'+ data.thumbnail._id);
+              toast.success(data.message)
+              refreshCredits()
+          }
+        } catch (error:any) {
+          console.log(error);
+          setloading(false)
+          toast.error(error?.response?.data?.message || error.message)
         }
+    }
 
-        const {data} = await api.post('/api/thumbnail/generate',api_payload);
+    // regenerate reuses the stored prompt and seed, remix applies the edited form on top of them
+    const handleRegenerate = async(mode:'regenerate' | 'remix')=>{
+
+      try {
+        const {data} = await api.post(`/api/thumbnail/${mode}/${id}`, mode === 'remix' ? buildRequestBody() : {});
+        setRemixing(false)
+        setReferenceFile(null)
+        navigate('/generate/'+ data.thumbnail._id);
+        toast.success(data.message)
+        refreshCredits()
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      }
 
-        if(data.thumbnail){
-            navigate('/generate/'+ data.thumbnail._id);
-            toast.success(data.message)
-        }
     }
 
     const fetchThumbnail = async()=>{
@@ -65,12 +129,81 @@ const Generate = () => {
       try {
         const {data} = await api.get(`/api/user/thumbnail/${id}`);
         setThumbnail(data?.thumbnail as IThumbnail)
-        setloading(!data?.thumbnail?.image_url);
+        setloading(isThumbnailPending(data?.thumbnail));
         setAdditionalDetails(data?.thumbnail?.user_prompt)
         setTitle(data?.thumbnail?.title)
         setColorsShemaId(data?.thumbnail?.color_scheme)
         setAspectrati(data?.thumbnail?.aspect_ratio)
         setStyle(data?.thumbnail?.style)
+        setCustomStyleId(data?.thumbnail?.custom_style_id || null)
+        setCustomPaletteId(data?.thumbnail?.custom_palette_id || null)
+        setVariations(data?.thumbnail?.variation_count || 1)
+        setTextOverlay(!!data?.thumbnail?.text_overlay)
+        setOverlayText(data?.thumbnail?.overlay_text || '')
+        setOverlayStyle({...defaultOverlayStyle, ...data?.thumbnail?.overlay_style})
+        setRemoveReference(false)
+        setUseBrandKit(!!data?.thumbnail?.use_brand_kit)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      }
+
+    }
+
+
+    const handleSelectPrimary = async(image_url:string)=>{
+
+      try {
+        const {data} = await api.post(`/api/thumbnail/primary/${id}`,{image_url});
+        setThumbnail(data.thumbnail as IThumbnail)
+        toast.success(data.message)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      }
+
+    }
+
+
+    // the suggestion stays editable until the user takes it into "Additional Prompts"
+    const handleEnhance = async()=>{
+
+      if(!title.trim()){
+          return toast.error('Add a title to enhance')
+      }
+
+      try {
+        setEnhancing(true)
+        const {data} = await api.post('/api/thumbnail/enhance',{title,prompt:additionalDetails,style:Style});
+        setEnhancedPrompt(data.enhanced.prompt)
+      } catch (error:any) {
+        console.log(error);
+        toast.error(error?.response?.data?.message || error.message)
+      } finally {
+        setEnhancing(false)
+      }
+
+    }
+
+
+    // switching the kit on also picks its default style
+    const handleBrandKitToggle = (enabled:boolean)=>{
+        setUseBrandKit(enabled)
+        if(enabled && brandKit?.default_style){
+            setStyle(brandKit.default_style)
+            setCustomStyleId(null)
+        }
+    }
+
+
+    const handleCancel = async()=>{
+
+      try {
+        const {data} = await api.post(`/api/thumbnail/cancel/${id}`);
+        setThumbnail(data.thumbnail as IThumbnail)
+        setloading(false)
+        toast.success(data.message)
+        refreshCredits()
       } catch (error:any) {
         console.log(error);
         toast.error(error?.response?.data?.message || error.message)
@@ -85,15 +218,58 @@ const Generate = () => {
             fetchThumbnail()
         }
 
-        if(id && loading && isLoggedIn){
-            const interval = setInterval(()=>{
-                fetchThumbnail()
-            },5000);
+        if(!id || !loading || !isLoggedIn) return
+
+        // live progress over SSE, 5-second polling for clients that can't use it
+        if(typeof EventSource !== 'undefined' && !sseFailed){
+
+            setProgress([])
+            const source = new EventSource(`${api.defaults.baseURL}/api/thumbnail/${id}/events`,{withCredentials:true})
+
+            source.addEventListener('progress',(e)=>{
+                setProgress(prev=>[...prev, JSON.parse(e.data) as IGenerationEvent])
+            })
+
+            source.addEventListener('status',(e)=>{
+                const {status,attempts,error} = JSON.parse(e.data)
+                setThumbnail(prev=> prev ? {...prev,status,attempts,error} : prev)
+            })
+
+            source.addEventListener('done',(e)=>{
+                const {thumbnail} = JSON.parse(e.data)
+                source.close()
+                setThumbnail(thumbnail as IThumbnail)
+                setloading(false)
+                // a failed generation is refunded
+                refreshCredits()
+            })
+
+            const fallback = ()=>{
+                source.close()
+                setSseFailed(true)
+            }
+            source.addEventListener('stream_error',fallback)
+            source.onerror = fallback
+
+            return ()=> source.close()
+        }
+
+        const interval = setInterval(()=>{
+            fetchThumbnail()
+        },5000);
+
+        return ()=> clearInterval(interval)
+
+    },[id,loading,isLoggedIn,sseFailed])
 
-            return ()=> clearInterval(interval)
+
+    useEffect(()=>{
+
+        if(isLoggedIn){
+            api.get('/api/user/brand-kit').then(({data})=>setBrandKit(data.brandKit)).catch((error)=>console.log(error))
         }
 
-    },[id,loading,isLoggedIn])
+    },[isLoggedIn])
 
 
     useEffect(()=>{
@@ -113,11 +289,13 @@ const Generate = () => {
 
         <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-28 lg:pb-8">
 
+            <VerifyEmailNotice />
+
             <div className="grid lg:grid-cols-[400px_1fr] gap-8 ">
 
                 {/* LEFT PANEL */}
 
-                <div className={`space-y-6 ${id && 'pointer-events-none'}`}>
+                <div className={`space-y-6 ${id && !remixing && 'pointer-events-none'}`}>
 
                       <div className="p-6 rounded-2xl bg-white/8 border border-white/12 shadow-xl space-y-6">
 
@@ -143,23 +321,67 @@ const Generate = () => {
                              <AspectRatioSelector value={aspectRatio} onChange={setAspectrati} />
                                 
                                 
+                            {/* ReferenceImageInput */}
+                            <ReferenceImageInput file={referenceFile} onFileChange={setReferenceFile} existingUrl={removeReference ? undefined : thumbnail?.reference_image_url} onRemoveExisting={()=>setRemoveReference(true)} />
+
                             {/* {/* StyleSelector */}
-                            <StyleSelector value={Style} onChange={setStyle} isOpen={styleDropdown} setisOpen={setStyleDropdown} />
+                            <StyleSelector value={Style} customStyleId={customStyleId} onChange={(style,styleId)=>{setStyle(style); setCustomStyleId(styleId)}} isOpen={styleDropdown} setisOpen={setStyleDropdown} />
 
                             {/* ColorSchemeSelector */}
-                            <ColorSchemaSelector value={colorSchemaId} onChange={setColorsShemaId} />
+                            <ColorSchemaSelector value={colorSchemaId} customPaletteId={customPaletteId} onChange={(scheme,paletteId)=>{setColorsShemaId(scheme); setCustomPaletteId(paletteId)}} />
+
+                            {/* BrandKit */}
+                            {brandKit ? (
+                                <label className="flex items-center justify-between text-sm font-medium text-zinc-200">
+                                    <span>Use brand kit <span className="text-zinc-400 text-xs font-normal">(logo, colors, font)</span></span>
+                                    <input type="checkbox" checked={useBrandKit} onChange={(e)=>handleBrandKitToggle(e.target.checked)} className="size-4 accent-pink-500" />
+                                </label>
+                            ) : isLoggedIn && (
+                                <p className="text-xs text-zinc-400">Add your logo and colors in the <Link to="/brand-kit" className="text-pink-300 hover:text-pink-200">Brand Kit</Link> to apply them automatically</p>
+                            )}
+
+                            {/* TextOverlaySettings */}
+                            <TextOverlaySettings enabled={textOverlay} onToggle={setTextOverlay} text={overlayText} onTextChange={setOverlayText} placeholder={title} value={overlayStyle} onChange={setOverlayStyle} />
+
+                            {/* HookSuggestions */}
+                            <HookSuggestions title={title} details={additionalDetails} value={overlayText} onUse={(hook)=>{setOverlayText(hook); setTextOverlay(true)}} />
+
+                            {/* VariationSelector */}
+                            <VariationSelector value={variations} onChange={setVariations} />
 
                                 {/* DETAILS */}
 
 
                                 <div className="space-y-2 ">
                                    
-                                   <label className="block text-sm font-medium">
-                                       Additional Prompts <span className="text-zinc-400 text-xs">(optional)</span>
-                                   </label>
+                                   <div className="flex items-center justify-between">
+                                       <label className="block text-sm font-medium">
+                                           Additional Prompts <span className="text-zinc-400 text-xs">(optional)</span>
+                                       </label>
+                                       <button type="button" onClick={handleEnhance} disabled={enhancing} className="flex items-center gap-1 text-xs text-pink-300 hover:text-pink-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                                           <SparklesIcon className="size-3.5" /> {enhancing ? 'Enhancing...' : 'Enhance'}
+                                       </button>
+                                   </div>
 
                                    <textarea value={additionalDetails} onChange={(e)=>setAdditionalDetails(e.target.value)} rows={3} placeholder="Add any specific elements, mood, or style preferences..." className="w-full px-4 py-3 rounded-lg border border-white/10 bg-white/6 text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-pink-500 resize-none" />
 
+                                   {enhancedPrompt !== null && (
+
+                                     <div className="space-y-2 rounded-lg border border-pink-500/30 bg-pink-500/5 p-3">
+                                         <p className="text-xs text-zinc-400">Suggested prompt - edit it or use it as is</p>
+                                         <textarea value={enhancedPrompt} onChange={(e)=>setEnhancedPrompt(e.target.value)} rows={5} className="w-full px-3 py-2 rounded-md border border-white/10 bg-black/20 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-pink-500 resize-none" />
+                                         <div className="flex gap-2">
+                                             <button type="button" onClick={()=>{setAdditionalDetails(enhancedPrompt); setEnhancedPrompt(null)}} className="flex flex-1 items-center justify-center gap-1.5 rounded-md bg-pink-600 py-2 text-sm hover:bg-pink-700 transition-colors">
+                                                 <CheckIcon className="size-4" /> Use this prompt
+                                             </button>
+                                             <button type="button" onClick={()=>setEnhancedPrompt(null)} className="flex items-center gap-1.5 rounded-md border border-white/12 px-3 py-2 text-sm hover:bg-white/6 transition-colors">
+                                                 <XIcon className="size-4" /> Discard
+                                             </button>
+                                         </div>
+                                     </div>
+
+                                   )}
+
                                 </div>
                              
 
@@ -175,6 +397,32 @@ const Generate = () => {
                             </button>
 
                           )}
+
+                          {id && thumbnail?.status === 'succeeded' && (
+
+                            <div className="pointer-events-auto space-y-2">
+                                {remixing ? (
+                                    <>
+                                        <button onClick={()=>handleRegenerate('remix')} className="text-[15px] w-full py-3.5 rounded-xl font-medium bg-linear-to-b from-pink-500 to-pink-600 hover:from-pink-700 transition-colors ">
+                                            Remix Thumbnail
+                                        </button>
+                                        <button onClick={()=>setRemixing(false)} className="text-sm w-full py-2.5 rounded-xl border border-white/12 hover:bg-white/6 transition-colors ">
+                                            Cancel
+                                        </button>
+                                    </>
+                                ) : (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button onClick={()=>handleRegenerate('regenerate')} disabled={thumbnail.seed === undefined} className="text-sm py-3 rounded-xl border border-white/12 hover:bg-white/6 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ">
+                                            Regenerate (same seed)
+                                        </button>
+                                        <button onClick={()=>setRemixing(true)} className="text-sm py-3 rounded-xl bg-linear-to-b from-pink-500 to-pink-600 hover:from-pink-700 transition-colors ">
+                                            Remix with changes
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+
+                          )}
                           
                       </div>
 
@@ -186,7 +434,18 @@ const Generate = () => {
                     
                     <div className="p-6 rounded-2xl bg-white/8 border border-white/10 shadow-xl">
                         <h2 className="text-lg font-semibold text-zinc-100 mb-4">Preview</h2>
-                        <PreviewPanel thumbnail={thumbnail} isLoading={loading} aspectRatio={aspectRatio} />
+                        <PreviewPanel thumbnail={thumbnail} isLoading={loading} aspectRatio={aspectRatio} progress={progress} onCancel={id ? handleCancel : undefined} onSelectPrimary={id ? handleSelectPrimary : undefined} />
+
+                        {thumbnail?.seed !== undefined && (
+                            <div className="mt-4 flex flex-wrap gap-2 text-xs text-zinc-400">
+                                <span className="px-2 py-0.5 rounded bg-white/8">Seed {thumbnail.seed}</span>
+                                {thumbnail.model && <span className="px-2 py-0.5 rounded bg-white/8">{thumbnail.provider}/{thumbnail.model}</span>}
+                                {thumbnail.template_version !== undefined && <span className="px-2 py-0.5 rounded bg-white/8">Prompt template v{thumbnail.template_version}</span>}
+                                {thumbnail.parent_id && <Link to={`/generate/${thumbnail.parent_id}`} className="px-2 py-0.5 rounded bg-white/8 hover:text-pink-300">From parent thumbnail</Link>}
+                            </div>
+                        )}
+
+                        {id && thumbnail?.status === 'succeeded' && <QualityPanel thumbnail={thumbnail} />}
                     </div>
 
                 </div>
@@ -1,8 +1,9 @@
 import { useEffect, useState } from "react"
 import SoftBackdrop from "../components/SoftBackdrop"
-import { type IThumbnail } from "../assets/assets";
+import { hasFreshQuality, isThumbnailPending, qualityScoreClass, type IThumbnail } from "../assets/assets";
 import { useNavigate } from "react-router-dom";
-import { ArrowUpRightIcon, DownloadIcon, TrashIcon } from "lucide-react";
+import { ArrowUpRightIcon, CheckIcon, DownloadIcon, FlaskConicalIcon, Share2Icon, TrashIcon } from "lucide-react";
+import ExportPanel from "../components/ExportPanel";
 import { Link } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 import api from "../configs/api";
@@ -11,7 +12,7 @@ import toast from "react-hot-toast";
 
 const MyGeneration = () => {
 
-  const { isLoggedIn } = useAuth()
+  const { isLoggedIn, refreshCredits } = useAuth()
   const navigate = useNavigate()
 
   const aspectRatioClassmap: Record<string, string> = {
@@ -22,8 +23,20 @@ const MyGeneration = () => {
 
   }
 
+  const statusLabels: Record<string, string> = {
+
+    queued: 'Queued...',
+    running: 'Generating...',
+    failed: 'Generation failed',
+    cancelled: 'Cancelled',
+
+  }
+
   const [Thumnails, setThumbnails] = useState<IThumbnail[]>([]);
   const [Loading, SetLoading] = useState(false)
+  const [exporting, setExporting] = useState<IThumbnail | null>(null)
+  const [selecting, setSelecting] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
 
   const fetchThumbnails = async () => {
 
@@ -31,6 +44,7 @@ const MyGeneration = () => {
       SetLoading(true)
       const { data } = await api.get('/api/user/thumbnails')
       setThumbnails(data.thumbnails || [])
+      analyzeMissingQuality(data.thumbnails || [])
     } catch (error: any) {
       console.log(error);
       toast.error(error?.response?.data?.message || error.message)
@@ -42,19 +56,47 @@ const MyGeneration = () => {
 
   }
 
-  const handleDownload = (image_url: string) => {
+  // thumbnails made before the quality check (or with a newly picked primary)
+  // are analyzed one at a time in the background to fill in their badge
+  const analyzeMissingQuality = async (thumbnails: IThumbnail[]) => {
+
+    for (const thumb of thumbnails.filter((t) => t.status === 'succeeded' && !hasFreshQuality(t))) {
+      try {
+        const { data } = await api.get(`/api/thumbnail/quality/${thumb._id}`)
+        setThumbnails((current) => current.map((t) => t._id === thumb._id ? { ...t, quality: data.quality } : t))
+      } catch (error: any) {
+        console.log(error);
+      }
+    }
+
+  }
+
+  const handleDownload = (id: string) => {
     const link = document.createElement('a');
 
-    // 🔥 FIX: Use 'fl_attachment' instead of 'fi_attachment'
-    link.href = image_url.replace('/upload/', '/upload/fl_attachment/');
-    link.download = `thumbnail-${Date.now()}.jpg`;  // ✅ Add filename
+    // served by the API with Content-Disposition, works for every storage backend
+    link.href = `${api.defaults.baseURL}/api/thumbnail/download/${id}`;
     document.body.appendChild(link);
     link.click();
-    document.body.removeChild(link);  // ✅ Proper cleanup
+    document.body.removeChild(link);
   };
 
 
 
+  const handleSelectPrimary = async (id: string, image_url: string) => {
+
+    try {
+      const { data } = await api.post(`/api/thumbnail/primary/${id}`, { image_url })
+      toast.success(data.message)
+      setThumbnails(Thumnails.map((t) => t._id === id ? data.thumbnail as IThumbnail : t));
+      analyzeMissingQuality([data.thumbnail])
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
   const handleDelete = async (id: string) => {
 
     try {
@@ -63,6 +105,27 @@ const MyGeneration = () => {
       const { data } = await api.delete(`/api/thumbnail/delete/${id}`)
       toast.success(data.message)
       setThumbnails(Thumnails.filter((t) => t._id !== id));
+      refreshCredits()
+    } catch (error: any) {
+      console.log(error);
+      toast.error(error?.response?.data?.message || error.message)
+    }
+
+  }
+
+  // A/B tests are built from finished thumbnails picked on this page
+  const toggleSelected = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter((s) => s !== id) : [...selected, id])
+  }
+
+  const handleCreateExperiment = async () => {
+
+    try {
+      const name = window.prompt('Name this A/B test', 'Thumbnail test');
+      if (name === null) return;
+      const { data } = await api.post('/api/experiments/create', { name, thumbnail_ids: selected })
+      toast.success(data.message)
+      navigate(`/experiments/${data.experiment._id}`)
     } catch (error: any) {
       console.log(error);
       toast.error(error?.response?.data?.message || error.message)
@@ -85,9 +148,23 @@ const MyGeneration = () => {
 
         {/* HEADER */}
 
-        <div className="mb-8">
-          <h1 className="text-2xl font-bold text-zinc-200">My Generations</h1>
-          <p className="text-sm text-zinc-400 mt-1">View and manage all your AI-generated thumbnails</p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-zinc-200">My Generations</h1>
+            <p className="text-sm text-zinc-400 mt-1">View and manage all your AI-generated thumbnails</p>
+          </div>
+
+          {selecting ? (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-zinc-400">{selected.length} selected</span>
+              <button onClick={handleCreateExperiment} disabled={selected.length < 2} className="px-4 py-2 rounded-lg text-sm bg-pink-600 hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">Start A/B test</button>
+              <button onClick={() => { setSelecting(false); setSelected([]) }} className="px-4 py-2 rounded-lg text-sm border border-white/12 hover:bg-white/6 transition-colors">Cancel</button>
+            </div>
+          ) : Thumnails.length > 1 && (
+            <button onClick={() => setSelecting(true)} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm border border-white/12 hover:bg-white/6 transition-colors">
+              <FlaskConicalIcon className="size-4" /> Create A/B test
+            </button>
+          )}
         </div>
 
         {/* LOADING */}
@@ -129,7 +206,7 @@ const MyGeneration = () => {
               const aspectClass = aspectRatioClassmap[thumb.aspect_ratio || '16:9'];
 
               return (
-                <div key={thumb._id} onClick={() => navigate(`/generate/${thumb._id}`)} className="mb-8 group relative cursor-pointer rounded-2xl bg-white/6 border border-white/10 transition shadow-xl break-inside-avoid">
+                <div key={thumb._id} onClick={() => selecting ? thumb.status === 'succeeded' && toggleSelected(thumb._id) : navigate(`/generate/${thumb._id}`)} className={`mb-8 group relative cursor-pointer rounded-2xl bg-white/6 border transition shadow-xl break-inside-avoid ${selected.includes(thumb._id) ? 'border-pink-500' : 'border-white/10'} ${selecting && thumb.status !== 'succeeded' && 'opacity-40 cursor-not-allowed'}`}>
 
                   {/* IMAGE */}
 
@@ -138,12 +215,24 @@ const MyGeneration = () => {
                       <img src={thumb.image_url} alt={thumb.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300" />
                     ) : (
                       <div className="h-full w-full flex items-center justify-center text-sm text-zinc-400">
-                        {thumb.isGenerating ? 'Generating...' : 'No image'}
+                        {statusLabels[thumb.status] || 'No image'}
                       </div>
                     )}
 
-                    {thumb.isGenerating && <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-sm font-medium text-white">
-                      Generating...
+                    {selecting && thumb.status === 'succeeded' && (
+                      <div className={`absolute top-2 left-2 size-6 rounded-md border-2 flex items-center justify-center ${selected.includes(thumb._id) ? 'bg-pink-600 border-pink-600' : 'bg-black/40 border-white/60'}`}>
+                        {selected.includes(thumb._id) && <CheckIcon className="size-4" />}
+                      </div>
+                    )}
+
+                    {hasFreshQuality(thumb) && (
+                      <span title={thumb.quality!.warnings.map((warning) => warning.message).join('\n') || 'No quality issues found'} className={`absolute top-2 right-2 px-2 py-0.5 rounded text-xs font-semibold backdrop-blur ${qualityScoreClass(thumb.quality!.score)}`}>
+                        {thumb.quality!.score}{thumb.quality!.warnings.length > 0 && ` · ${thumb.quality!.warnings.length} ⚠`}
+                      </span>
+                    )}
+
+                    {isThumbnailPending(thumb) && <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-sm font-medium text-white">
+                      {statusLabels[thumb.status]}
                     </div>}
 
                   </div>
@@ -157,6 +246,14 @@ const MyGeneration = () => {
                       <span className="px-2 py-0.5 rounded bg-white/8 ">{thumb.color_scheme}</span>
                       <span className="px-2 py-0.5 rounded bg-white/8 ">{thumb.aspect_ratio}</span>
                     </div>
+                    {!!thumb.alternates?.length && (
+                      <div onClick={(e) => e.stopPropagation()} className="flex gap-1.5 pt-1">
+                        {thumb.alternates.map((alternate) => (
+                          <img key={alternate.image_url} src={alternate.image_url} alt="alternate" title="Use as primary" onClick={() => handleSelectPrimary(thumb._id, alternate.image_url)} className="h-8 w-12 rounded object-cover ring-1 ring-white/10 hover:ring-pink-500 transition" />
+                        ))}
+                      </div>
+                    )}
+                    {thumb.status === 'failed' && thumb.error && <p className="text-xs text-red-400 line-clamp-2">{thumb.error}</p>}
                     <p className="text-xs text-zinc-500">{new Date(thumb.createdAt!).toDateString()}</p>
                   </div>
 
@@ -164,7 +261,9 @@ const MyGeneration = () => {
 
                     <TrashIcon onClick={() => handleDelete(thumb._id)} className="size-6 bg-black/50 p-1 rounded hover:bg-pink-600 transition-all" />
 
-                    <DownloadIcon onClick={() => handleDownload(thumb.image_url!)} className="size-6 bg-black/50 p-1 rounded hover:bg-pink-600 transition-all" />
+                    <DownloadIcon onClick={() => handleDownload(thumb._id)} className="size-6 bg-black/50 p-1 rounded hover:bg-pink-600 transition-all" />
+
+                    {thumb.image_url && <Share2Icon onClick={() => setExporting(thumb)} className="size-6 bg-black/50 p-1 rounded hover:bg-pink-600 transition-all" />}
 
                     <Link target="_blank" to={`/preview?thumbnail_url=${thumb.image_url}&title=${thumb.title}`}>
                       <ArrowUpRightIcon className="size-6 bg-black/50 p-1 rounded hover:bg-pink-600 transition-all" />
@@ -179,6 +278,9 @@ const MyGeneration = () => {
         )}
 
       </div>
+
+      {exporting && <ExportPanel thumbnail={exporting} onClose={() => setExporting(null)} />}
+
     </div>
   )
 }
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react"
+import { Link, useSearchParams } from "react-router-dom"
+import { CheckCircle2Icon, Loader2Icon, XCircleIcon } from "lucide-react"
+import SoftBackdrop from "../components/SoftBackdrop"
+import { useAuth } from "../context/AuthContext"
+import api from "../configs/api"
+
+// Landing page for the link in the verification email
+const VerifyEmail = () => {
+
+  const [searchParams] = useSearchParams()
+  const { user, setUser } = useAuth()
+
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [message, setMessage] = useState('')
+  // tokens are single use, so don't send it twice under StrictMode
+  const sent = useRef(false)
+
+  const verify = async () => {
+
+    try {
+      const { data } = await api.post('/api/auth/verify-email', { token: searchParams.get('token') })
+      setMessage(data.message)
+      setStatus('verified')
+    } catch (error: any) {
+      console.log(error);
+      setMessage(error?.response?.data?.message || error.message)
+      setStatus('failed')
+    }
+
+  }
+
+  useEffect(() => {
+
+    if (sent.current) return
+    sent.current = true
+    verify()
+
+  }, [])
+
+  // the session user may have loaded before or after the link was confirmed
+  useEffect(() => {
+
+    if (status === 'verified' && user && user.emailVerified === false) {
+      setUser({ ...user, emailVerified: true })
+    }
+
+  }, [status, user])
+
+  return (
+    <div>
+      <SoftBackdrop />
+      <div className="mt-32 min-h-screen px-6 flex justify-center">
+
+        <div className="w-full max-w-sm h-fit p-6 rounded-2xl bg-white/6 border border-white/10 text-center space-y-4">
+          {status === 'verifying' && <Loader2Icon className="size-8 mx-auto animate-spin text-zinc-400" />}
+          {status === 'verified' && <CheckCircle2Icon className="size-8 mx-auto text-green-400" />}
+          {status === 'failed' && <XCircleIcon className="size-8 mx-auto text-red-400" />}
+
+          <h1 className="text-xl font-semibold text-zinc-100">
+            {status === 'verifying' ? 'Verifying your email...' : status === 'verified' ? 'Email verified' : 'Verification failed'}
+          </h1>
+          {message && <p className="text-sm text-zinc-400">{message}</p>}
+          {status === 'failed' && user && <p className="text-sm text-zinc-400">You can request a new link from the generate page.</p>}
+
+          {status !== 'verifying' && (
+            <Link to={user ? '/generate' : '/login'} className="inline-block px-5 py-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-sm transition-colors">
+              {user ? 'Start generating' : 'Go to login'}
+            </Link>
+          )}
+        </div>
+
+      </div>
+    </div>
+  )
+}
+
+export default VerifyEmail
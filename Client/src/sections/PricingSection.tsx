@@ -4,8 +4,37 @@ import { pricingData } from "../data/pricing";
 import type { IPricing } from "../types";
 import { CheckIcon } from "lucide-react";
 import { motion } from "motion/react";
+import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import api from "../configs/api";
+import toast from "react-hot-toast";
 
 export default function PricingSection() {
+
+    const { isLoggedIn, user } = useAuth()
+    const navigate = useNavigate()
+    const [checkingOut, setCheckingOut] = useState<string | null>(null)
+
+    // the payment provider hosts the checkout page, the server hands back its url
+    const handleCheckout = async (plan: string) => {
+
+        if (!isLoggedIn) {
+            return navigate('/login')
+        }
+
+        try {
+            setCheckingOut(plan)
+            const { data } = await api.post('/api/billing/checkout', { plan })
+            window.location.href = data.url
+        } catch (error: any) {
+            console.log(error);
+            toast.error(error?.response?.data?.message || error.message)
+            setCheckingOut(null)
+        }
+
+    }
+
     return (
         <div id="pricing" className="px-4 md:px-16 lg:px-24 xl:px-32">
             <SectionTitle text1="Pricing" text2="Simple Pricing" text3="Choose the plan that fits your creation schedule Cancel anytime." />
@@ -31,8 +60,8 @@ export default function PricingSection() {
                                 </li>
                             ))}
                         </ul>
-                        <button type="button" className={`w-full py-2.5 rounded-md font-medium mt-7 transition-all ${plan.mostPopular ? 'bg-white text-pink-600 hover:bg-slate-200' : 'bg-pink-500 hover:bg-pink-600'}`}>
-                            Get Started
+                        <button type="button" onClick={() => handleCheckout(plan.id)} disabled={!!checkingOut || user?.plan === plan.id} className={`w-full py-2.5 rounded-md font-medium mt-7 transition-all disabled:opacity-60 disabled:cursor-not-allowed ${plan.mostPopular ? 'bg-white text-pink-600 hover:bg-slate-200' : 'bg-pink-500 hover:bg-pink-600'}`}>
+                            {user?.plan === plan.id ? 'Current Plan' : checkingOut === plan.id ? 'Redirecting...' : 'Get Started'}
                         </button>
                     </motion.div>
                 ))}
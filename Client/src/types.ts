@@ -48,6 +48,7 @@ export interface PricingCardProps {
 }
 
 export interface IPricing {
+    id: string;
     name: string;
     price: number;
     period: string;
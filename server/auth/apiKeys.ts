@@ -0,0 +1,48 @@
+import crypto from "node:crypto";
+import ApiKey, { ApiKeyScope } from "../models/ApiKey.js";
+import User from "../models/User.js";
+import { getPlan } from "../configs/plans.js";
+import { hashToken } from "./tokens.js";
+
+const KEY_PREFIX = 'tg_';
+
+// lastUsedAt is refreshed at most this often, so busy scripts don't write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Returns the raw key (shown to the user once) and what gets stored
+export const generateApiKey = () => {
+
+    const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    return { key, prefix: key.slice(0, KEY_PREFIX.length + 6), key_hash: hashToken(key) };
+};
+
+export const hasApiAccess = (plan?: string) => getPlan(plan).api_access;
+
+// Resolves a bearer key to its user. The error carries the status to answer with.
+export const authenticateApiKey = async (key: string, scope: ApiKeyScope) => {
+
+    const apiKey = await ApiKey.findOne({ key_hash: hashToken(key), revokedAt: { $exists: false } });
+
+    if (!apiKey) {
+        return { status: 401, error: "Invalid or revoked API key" };
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+        return { status: 403, error: `This API key doesn't have the ${scope} scope` };
+    }
+
+    // keys stop working when the account moves to a plan without API access
+    const user = await User.findById(apiKey.userId).select('plan');
+    if (!user || !hasApiAccess(user.plan)) {
+        return { status: 403, error: "Your plan doesn't include API access" };
+    }
+
+    const now = new Date();
+    ApiKey.updateOne(
+        { _id: apiKey._id, lastUsedAt: { $not: { $gt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } } },
+        { lastUsedAt: now }
+    ).catch((error) => console.log('Could not record API key use:', error.message));
+
+    return { userId: apiKey.userId as string };
+};
@@ -0,0 +1,101 @@
+import * as client from "openid-client";
+import User from "../models/User.js";
+import { OIDC_REDIRECT_URI, OIDC_SCOPES } from "../configs/oidc.js";
+import { endUserSessions } from "./sessions.js";
+
+// Authorization code flow with PKCE. The verifier, state and nonce live in the
+// session between the redirect to the provider and the callback.
+
+export interface PendingOidcLogin {
+    codeVerifier: string;
+    state: string;
+    nonce: string;
+    returnTo: string;
+}
+
+// Only paths inside the client app, so the callback can't be used as an open redirect
+const safeReturnTo = (returnTo: unknown) =>
+    typeof returnTo === 'string' && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/';
+
+export const startOidcLogin = async (config: client.Configuration, returnTo: unknown) => {
+
+    const pending: PendingOidcLogin = {
+        codeVerifier: client.randomPKCECodeVerifier(),
+        state: client.randomState(),
+        nonce: client.randomNonce(),
+        returnTo: safeReturnTo(returnTo),
+    };
+
+    const url = client.buildAuthorizationUrl(config, {
+        redirect_uri: OIDC_REDIRECT_URI,
+        scope: OIDC_SCOPES,
+        code_challenge: await client.calculatePKCECodeChallenge(pending.codeVerifier),
+        code_challenge_method: 'S256',
+        state: pending.state,
+        nonce: pending.nonce,
+    });
+
+    return { url: url.href, pending };
+};
+
+// Exchanges the code and returns the verified ID token claims. Throws when the
+// provider reports an error or any check (state, nonce, PKCE, signature) fails.
+export const finishOidcLogin = async (config: client.Configuration, currentUrl: URL, pending: PendingOidcLogin) => {
+
+    const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+        pkceCodeVerifier: pending.codeVerifier,
+        expectedState: pending.state,
+        expectedNonce: pending.nonce,
+        idTokenExpected: true,
+    });
+
+    return tokens.claims() as client.IDToken & { email?: string; email_verified?: boolean; name?: string };
+};
+
+// Finds the user for a provider identity: first by the linked subject, then by
+// email, creating the account when there is none. Linking by email requires the
+// provider to vouch for the address, otherwise anyone could claim an account.
+export const findOrCreateOidcUser = async (issuer: string, claims: Awaited<ReturnType<typeof finishOidcLogin>>) => {
+
+    const linked = await User.findOne({ oidc_issuer: issuer, oidc_subject: claims.sub });
+    if (linked) {
+        return { user: linked };
+    }
+
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+    if (!email) {
+        return { error: "Your identity provider didn't share an email address" };
+    }
+    if (claims.email_verified !== true) {
+        return { error: "Your identity provider hasn't verified your email address" };
+    }
+
+    const existing = await User.findOne({ email });
+    if (existing) {
+        if (existing.oidc_subject) {
+            return { error: "This email is already linked to another sign-in account" };
+        }
+        // An unverified account may have been registered by someone else with this
+        // address before its owner arrived. The provider proves who owns it, so the
+        // password and any sessions set up by the registrant stop working.
+        if (existing.emailVerified === false) {
+            existing.password = undefined;
+            existing.emailVerified = true;
+            await endUserSessions(existing._id.toString());
+        }
+        existing.oidc_issuer = issuer;
+        existing.oidc_subject = claims.sub;
+        await existing.save();
+        return { user: existing };
+    }
+
+    const user = await User.create({
+        name: claims.name || email.split('@')[0],
+        email,
+        emailVerified: true,
+        oidc_issuer: issuer,
+        oidc_subject: claims.sub,
+    });
+
+    return { user };
+};
@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+
+// Logs a user out everywhere. connect-mongo keeps each session as a JSON string
+// in the `sessions` collection (see server.ts), holding the userId set at login.
+export const endUserSessions = async (userId: string) => {
+
+    // ObjectId hex, safe to put in a pattern as is
+    const id = String(userId);
+    if (!/^[0-9a-f]{24}$/i.test(id)) {
+        return 0;
+    }
+
+    const result = await mongoose.connection.collection('sessions').deleteMany({ session: { $regex: `"userId":"${id}"` } });
+
+    return result.deletedCount;
+};
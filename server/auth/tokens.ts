@@ -0,0 +1,34 @@
+import crypto from "node:crypto";
+import AuthToken, { AuthTokenPurpose } from "../models/AuthToken.js";
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Creates a token for the user and returns the raw value to put in the link.
+// Older unused tokens for the same purpose stop working.
+export const issueToken = async (userId: string, purpose: AuthTokenPurpose, ttlMs: number) => {
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await AuthToken.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+    await AuthToken.create({ userId, purpose, token_hash: hashToken(token), expiresAt: new Date(Date.now() + ttlMs) });
+
+    return token;
+};
+
+// Marks the token used and returns its user id, or null when it is unknown,
+// expired or already used. The check and the update are one atomic operation,
+// so a token can't be redeemed twice in parallel.
+export const consumeToken = async (token: string, purpose: AuthTokenPurpose) => {
+
+    if (typeof token !== 'string' || !token) {
+        return null;
+    }
+
+    const record = await AuthToken.findOneAndUpdate(
+        { token_hash: hashToken(token), purpose, usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+        { usedAt: new Date() },
+        { new: true }
+    );
+
+    return record ? record.userId as string : null;
+};
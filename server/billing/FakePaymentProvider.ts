@@ -0,0 +1,79 @@
+import crypto from "node:crypto";
+import axios from "axios";
+import { BillingEvent, BillingEventType, PaymentProvider } from "./PaymentProvider.js";
+
+// Offline provider for dev and tests. Checkout is a page on the client that
+// asks whether the payment goes through, and every lifecycle event is sent to
+// the webhook endpoint as a signed HTTP request, the way a real provider would.
+// `simulate` is what the fake checkout page and scripts/simulateBilling.ts use.
+
+const SIGNATURE_HEADER = 'x-fake-signature';
+const PERIOD_DAYS = 30;
+
+const sign = (secret: string, body: string) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+export interface FakePaymentProvider extends PaymentProvider {
+    simulate(type: BillingEventType, target: { checkoutId?: string; subscriptionId?: string }): Promise<BillingEvent>;
+}
+
+const FakePaymentProvider = ({ secret, webhookUrl, clientUrl }: { secret: string; webhookUrl: string; clientUrl: string }): FakePaymentProvider => {
+
+    const send = async (event: BillingEvent) => {
+
+        const body = JSON.stringify(event);
+        await axios.post(webhookUrl, body, {
+            headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: sign(secret, body) },
+        });
+
+        return event;
+    };
+
+    const provider: FakePaymentProvider = {
+        name: 'fake',
+
+        async createCheckout({ plan, amount, successUrl, cancelUrl }) {
+
+            const checkoutId = `fake_cs_${crypto.randomBytes(12).toString('hex')}`;
+            const query = new URLSearchParams({ session: checkoutId, plan, amount: String(amount), success_url: successUrl, cancel_url: cancelUrl });
+
+            return { checkoutId, url: `${clientUrl}/billing/fake-checkout?${query}` };
+        },
+
+        async cancelSubscription(subscriptionId) {
+            await provider.simulate('subscription.cancelled', { subscriptionId });
+        },
+
+        parseWebhook(rawBody, headers) {
+
+            const signature = headers[SIGNATURE_HEADER];
+            const expected = sign(secret, rawBody.toString('utf8'));
+
+            if (typeof signature !== 'string' || signature.length !== expected.length
+                || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+                throw new Error('Invalid webhook signature');
+            }
+
+            const event = JSON.parse(rawBody.toString('utf8'));
+            return { ...event, ...(event.currentPeriodEnd && { currentPeriodEnd: new Date(event.currentPeriodEnd) }) };
+        },
+
+        // A paid checkout opens a subscription; paid and renewed events start a new period
+        async simulate(type, { checkoutId, subscriptionId }) {
+
+            const opensSubscription = type === 'subscription.paid' && !subscriptionId;
+            const startsPeriod = type === 'subscription.paid' || type === 'subscription.renewed';
+
+            return send({
+                id: `fake_evt_${crypto.randomBytes(12).toString('hex')}`,
+                type,
+                checkoutId,
+                subscriptionId: opensSubscription ? `fake_sub_${crypto.randomBytes(12).toString('hex')}` : subscriptionId,
+                ...(startsPeriod && { currentPeriodEnd: new Date(Date.now() + PERIOD_DAYS * 24 * 60 * 60 * 1000) }),
+            });
+        },
+    };
+
+    return provider;
+};
+
+export default FakePaymentProvider;
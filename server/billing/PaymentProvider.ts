@@ -0,0 +1,36 @@
+import { PlanId } from "../configs/plans.js";
+
+// Shared contract for every payment backend. Providers own checkout pages and
+// recurring charges; they report back through webhooks, which are turned into
+// the provider-neutral BillingEvent below.
+
+export type BillingEventType = "subscription.paid" | "subscription.renewed" | "subscription.cancelled" | "payment.failed";
+
+export const BILLING_EVENT_TYPES: BillingEventType[] = ["subscription.paid", "subscription.renewed", "subscription.cancelled", "payment.failed"];
+
+export interface BillingEvent {
+    // provider event id, used to ignore redelivered webhooks
+    id: string;
+    type: BillingEventType;
+    // set on events for a checkout that hasn't become a subscription yet
+    checkoutId?: string;
+    subscriptionId?: string;
+    currentPeriodEnd?: Date;
+}
+
+export interface CheckoutRequest {
+    plan: PlanId;
+    amount: number;
+    email: string;
+    successUrl: string;
+    cancelUrl: string;
+}
+
+export interface PaymentProvider {
+    name: string;
+    createCheckout(request: CheckoutRequest): Promise<{ checkoutId: string; url: string }>;
+    // ends the subscription; the provider confirms with a subscription.cancelled event
+    cancelSubscription(subscriptionId: string): Promise<void>;
+    // verifies the signature and returns the event, throws when it doesn't check out
+    parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): BillingEvent;
+}
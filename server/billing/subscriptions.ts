@@ -0,0 +1,90 @@
+import Subscription from "../models/Subscription.js";
+import User from "../models/User.js";
+import { DEFAULT_PLAN } from "../configs/plans.js";
+import { BillingEvent, PaymentProvider } from "./PaymentProvider.js";
+
+// Subscription lifecycle driven by provider webhooks:
+//   pending --paid--> active --renewed--> active
+//   active --payment failed--> past_due --renewed--> active
+//   pending --payment failed--> incomplete (checkout declined)
+//   any --cancelled--> cancelled
+// A past_due subscription keeps its plan until the provider gives up and cancels.
+
+const LIVE_STATUSES = ['active', 'past_due'];
+
+export const getCurrentSubscription = (userId: string) =>
+    Subscription.findOne({ userId, status: { $in: LIVE_STATUSES } }).sort({ createdAt: -1 });
+
+// The user's plan always follows their newest live subscription
+const syncUserPlan = async (userId: string) => {
+
+    const current = await getCurrentSubscription(userId);
+    await User.updateOne({ _id: userId }, { plan: current?.plan || DEFAULT_PLAN });
+
+    return current;
+};
+
+const nextStatus = (status: string, event: BillingEvent) => {
+
+    switch (event.type) {
+        case 'subscription.paid':
+        case 'subscription.renewed':
+            return 'active';
+        case 'payment.failed':
+            return status === 'pending' || status === 'incomplete' ? 'incomplete' : 'past_due';
+        case 'subscription.cancelled':
+            return 'cancelled';
+    }
+};
+
+// Events for a known subscription carry its id; the first payment only knows the checkout
+const findSubscription = async (provider: string, { subscriptionId, checkoutId }: BillingEvent) => {
+
+    const subscription = subscriptionId ? await Subscription.findOne({ provider, subscription_id: subscriptionId }) : null;
+
+    return subscription || (checkoutId ? Subscription.findOne({ provider, checkout_id: checkoutId }) : null);
+};
+
+// Applies one webhook event. Returns null when it doesn't match a subscription
+// or was already applied (providers redeliver webhooks).
+export const applyBillingEvent = async (provider: PaymentProvider, event: BillingEvent) => {
+
+    const subscription = await findSubscription(provider.name, event);
+
+    if (!subscription) {
+        return null;
+    }
+
+    // nothing brings a cancelled subscription back, the user checks out again
+    const status = subscription.status === 'cancelled' ? 'cancelled' : nextStatus(subscription.status, event);
+
+    const updated = await Subscription.findOneAndUpdate(
+        { _id: subscription._id, 'events.event_id': { $ne: event.id } },
+        {
+            status,
+            ...(event.subscriptionId && { subscription_id: event.subscriptionId }),
+            ...(event.currentPeriodEnd && status === 'active' && { current_period_end: event.currentPeriodEnd }),
+            ...(status === 'cancelled' && !subscription.cancelledAt && { cancelledAt: new Date() }),
+            $push: { events: { event_id: event.id, type: event.type, at: new Date() } },
+        },
+        { new: true }
+    );
+
+    if (!updated) {
+        return null;
+    }
+
+    // a paid checkout for a new plan replaces whatever the user was paying for before
+    if (event.type === 'subscription.paid' && status === 'active') {
+        const previous = await Subscription.find({ userId: updated.userId, _id: { $ne: updated._id }, status: { $in: LIVE_STATUSES } });
+        for (const old of previous) {
+            await provider.cancelSubscription(old.subscription_id).catch((error) => {
+                console.log(`Could not cancel replaced subscription ${old._id}:`, error.message);
+            });
+        }
+    }
+
+    await syncUserPlan(updated.userId);
+
+    return updated;
+};
@@ -0,0 +1,35 @@
+import { PaymentProvider } from '../billing/PaymentProvider.js'
+import FakePaymentProvider from '../billing/FakePaymentProvider.js'
+import { CLIENT_URL, SERVER_URL } from './urls.js'
+
+// Payment backend is picked per environment through BILLING_PROVIDER; billing
+// stays off until one is set. The fake provider hands out plans without payment,
+// so it has to be asked for by name and needs its own webhook secret.
+
+const registry: Record<string, () => PaymentProvider> = {
+    fake: () => {
+        if (!process.env.FAKE_BILLING_SECRET) {
+            throw new Error('BILLING_PROVIDER=fake needs FAKE_BILLING_SECRET')
+        }
+        return FakePaymentProvider({
+            secret: process.env.FAKE_BILLING_SECRET,
+            webhookUrl: `${SERVER_URL}/api/billing/webhook`,
+            clientUrl: CLIENT_URL,
+        })
+    },
+}
+
+let provider: PaymentProvider | null | undefined
+
+export const getPaymentProvider = (): PaymentProvider | null => {
+
+    if (provider === undefined) {
+        const name = process.env.BILLING_PROVIDER || ''
+        if (name && !registry[name]) {
+            throw new Error(`Unknown billing provider "${name}"`)
+        }
+        provider = name ? registry[name]() : null
+    }
+
+    return provider
+}
@@ -0,0 +1,78 @@
+import { ImageProvider, ImageRequest } from '../providers/ImageProvider.js'
+import PollinationsProvider from '../providers/PollinationsProvider.js'
+import ImagenProvider from '../providers/ImagenProvider.js'
+import LocalProvider from '../providers/LocalProvider.js'
+import GeminiImageProvider from '../providers/GeminiImageProvider.js'
+
+// Providers are picked per environment through IMAGE_PROVIDERS, a comma
+// separated chain tried in order, e.g. "pollinations,local"
+
+const registry: Record<string, () => ImageProvider> = {
+    pollinations: () => PollinationsProvider({ model: process.env.POLLINATIONS_MODEL }),
+    imagen: () => ImagenProvider({ apiKey: process.env.GEMINI_API_KEY as string, model: process.env.IMAGEN_MODEL }),
+    'gemini-image': () => GeminiImageProvider({ apiKey: process.env.GEMINI_API_KEY as string, model: process.env.GEMINI_IMAGE_MODEL }),
+    local: () => LocalProvider(),
+}
+
+export const registerImageProvider = (name: string, factory: () => ImageProvider) => {
+    registry[name] = factory
+}
+
+// Pass `only` to pin a single provider, e.g. when reproducing an earlier image
+export const getImageProviders = (only?: string): ImageProvider[] => {
+
+    const names = only ? [only] : (process.env.IMAGE_PROVIDERS || 'pollinations')
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+
+    return names.map((name) => {
+        const factory = registry[name]
+        if (!factory) {
+            throw new Error(`Unknown image provider "${name}"`)
+        }
+        return factory()
+    })
+}
+
+// Checked before accepting a reference image, so the request fails up front
+// instead of inside the job
+export const assertReferenceSupported = (only?: string) => {
+
+    const providers = getImageProviders(only)
+
+    if (!providers.some((provider) => provider.supportsReference)) {
+        throw new Error(`Reference images are not supported by the configured image provider${providers.length > 1 ? 's' : ''} (${providers.map((provider) => provider.name).join(', ')})`)
+    }
+}
+
+export type ProviderAttempt = { provider: string; status: 'started' | 'failed' | 'succeeded'; error?: string }
+
+// An aborted `signal` stops the chain before the next provider is tried
+export const generateImage = async (request: ImageRequest, { provider: only, onAttempt, signal }: { provider?: string; onAttempt?: (attempt: ProviderAttempt) => Promise<void> | void; signal?: AbortSignal } = {}) => {
+
+    // providers that can't use the reference are skipped rather than letting
+    // them silently ignore it
+    const providers = getImageProviders(only).filter((provider) => !request.referenceImage || provider.supportsReference)
+    if (!providers.length) {
+        assertReferenceSupported(only)
+    }
+    let lastError: any
+
+    for (const provider of providers) {
+        signal?.throwIfAborted()
+        try {
+            console.log(`🌐 Calling ${provider.name}`)
+            await onAttempt?.({ provider: provider.name, status: 'started' })
+            const buffer = await provider.generate(request)
+            await onAttempt?.({ provider: provider.name, status: 'succeeded' })
+            return { buffer, provider: provider.name, model: provider.model }
+        } catch (error: any) {
+            console.log(`❌ ${provider.name} failed:`, error.response?.status || error.code || error.message)
+            await onAttempt?.({ provider: provider.name, status: 'failed', error: error.message })
+            lastError = error
+        }
+    }
+
+    throw new Error(`All image providers failed: ${lastError?.message || 'none configured'}`)
+}
@@ -0,0 +1,36 @@
+import path from 'node:path'
+import { Mailer } from '../mail/Mailer.js'
+import SmtpMailer from '../mail/SmtpMailer.js'
+import { ConsoleMailer, FileMailer } from '../mail/FileMailer.js'
+
+// Transport is picked per environment through MAIL_TRANSPORT: smtp, file or
+// console. Defaults to smtp when SMTP_URL is set, otherwise to file - except in
+// production, where emails silently piling up on disk would lock users out.
+
+const from = process.env.MAIL_FROM || 'Thumbnail Go <no-reply@localhost>'
+
+const registry: Record<string, () => Mailer> = {
+    smtp: () => SmtpMailer({ url: process.env.SMTP_URL as string, from }),
+    file: () => FileMailer({ directory: path.resolve(process.env.MAIL_DIR || 'mail-outbox'), from }),
+    console: () => ConsoleMailer({ from }),
+}
+
+let mailer: Mailer | undefined
+
+export const getMailer = (): Mailer => {
+
+    if (!mailer) {
+        if (!process.env.MAIL_TRANSPORT && !process.env.SMTP_URL && process.env.NODE_ENV === 'production') {
+            throw new Error('Set SMTP_URL (or MAIL_TRANSPORT) in production')
+        }
+
+        const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'file')
+        const factory = registry[name]
+        if (!factory) {
+            throw new Error(`Unknown mail transport "${name}"`)
+        }
+        mailer = factory()
+    }
+
+    return mailer
+}
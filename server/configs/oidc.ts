@@ -0,0 +1,39 @@
+import * as client from 'openid-client'
+import { SERVER_URL } from './urls.js'
+
+// Single sign-on through any OpenID Connect provider (Google Workspace, Okta, a
+// local mock issuer...). Off unless OIDC_ISSUER and OIDC_CLIENT_ID are set.
+// OIDC_CLIENT_SECRET can be left out for public clients, PKCE protects the code.
+
+export const OIDC_REDIRECT_URI = `${SERVER_URL}/api/auth/oidc/callback`
+
+export const OIDC_SCOPES = process.env.OIDC_SCOPES || 'openid email profile'
+
+export const OIDC_PROVIDER_NAME = process.env.OIDC_PROVIDER_NAME || 'SSO'
+
+export const isOidcEnabled = () => !!(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID)
+
+let discovered: Promise<client.Configuration> | undefined
+
+// Discovery runs on first use; a failed attempt is retried on the next login
+export const getOidcConfig = (): Promise<client.Configuration> | null => {
+
+    if (!isOidcEnabled()) {
+        return null
+    }
+
+    if (!discovered) {
+        const issuer = new URL(process.env.OIDC_ISSUER as string)
+        const secret = process.env.OIDC_CLIENT_SECRET
+
+        discovered = client.discovery(issuer, process.env.OIDC_CLIENT_ID as string, secret, secret ? undefined : client.None(), {
+            // plain http is only accepted so a mock issuer can run locally
+            execute: issuer.protocol === 'http:' ? [client.allowInsecureRequests] : [],
+        }).catch((error) => {
+            discovered = undefined
+            throw error
+        })
+    }
+
+    return discovered
+}
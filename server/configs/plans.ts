@@ -0,0 +1,25 @@
+// Plans a user can be on, their monthly price in USD and the generation credits
+// each one gets per calendar month (UTC). One credit is one generated image, so
+// a 4-variation request costs 4. null means unlimited. api_access allows personal
+// API keys. Matches the pricing page on the client.
+
+export interface Plan {
+    label: string;
+    price: number;
+    monthly_credits: number | null;
+    api_access: boolean;
+}
+
+export const PLANS = {
+    free: { label: 'Free', price: 0, monthly_credits: Number(process.env.FREE_MONTHLY_CREDITS) || 10, api_access: false },
+    basic: { label: 'Basic', price: 29, monthly_credits: 50, api_access: false },
+    pro: { label: 'Pro', price: 79, monthly_credits: null, api_access: false },
+    enterprise: { label: 'Enterprise', price: 199, monthly_credits: null, api_access: true },
+} satisfies Record<string, Plan>;
+
+export type PlanId = keyof typeof PLANS;
+
+export const PLAN_IDS = Object.keys(PLANS) as PlanId[];
+export const DEFAULT_PLAN: PlanId = 'free';
+
+export const getPlan = (id?: string): Plan => PLANS[id as PlanId] || PLANS[DEFAULT_PLAN];
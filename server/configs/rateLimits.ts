@@ -0,0 +1,36 @@
+// Request limits per client, each overridable with an env var in the form
+// "<max requests>/<window in seconds>", e.g. RATE_LIMIT_GENERATE=10/60
+
+export interface RateLimitConfig {
+    max: number;
+    windowMs: number;
+}
+
+const limit = (variable: string, fallback: string): RateLimitConfig => {
+
+    const [max, seconds] = (process.env[variable] || fallback).split('/').map(Number);
+    const [defaultMax, defaultSeconds] = fallback.split('/').map(Number);
+
+    return {
+        max: max > 0 ? max : defaultMax,
+        windowMs: (seconds > 0 ? seconds : defaultSeconds) * 1000,
+    };
+};
+
+export const RATE_LIMITS = {
+    // generate, regenerate and remix share these
+    generate_user: limit('RATE_LIMIT_GENERATE', '10/60'),
+    generate_ip: limit('RATE_LIMIT_GENERATE_IP', '30/60'),
+    // per IP, and per account so a botnet can't spread guesses over many IPs
+    login_ip: limit('RATE_LIMIT_LOGIN', '20/900'),
+    login_account: limit('RATE_LIMIT_LOGIN_ACCOUNT', '10/900'),
+    register_ip: limit('RATE_LIMIT_REGISTER', '5/3600'),
+    // forgot and reset password together per IP; reset emails per account
+    password_reset_ip: limit('RATE_LIMIT_PASSWORD_RESET', '10/3600'),
+    password_reset_account: limit('RATE_LIMIT_PASSWORD_RESET_ACCOUNT', '3/3600'),
+    verification_email_user: limit('RATE_LIMIT_VERIFICATION_EMAIL', '3/3600'),
+    // the public A/B tracking endpoint, batches of up to 100 events each
+    experiment_track_ip: limit('RATE_LIMIT_EXPERIMENT_TRACK', '120/60'),
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
@@ -0,0 +1,42 @@
+import path from 'node:path'
+import { StorageAdapter } from '../storage/StorageAdapter.js'
+import CloudinaryStorage from '../storage/CloudinaryStorage.js'
+import LocalStorage from '../storage/LocalStorage.js'
+import S3Storage from '../storage/S3Storage.js'
+
+// Backend is picked per environment through STORAGE_DRIVER: cloudinary, local or s3
+
+export const LOCAL_STORAGE_DIR = path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads')
+export const LOCAL_STORAGE_ROUTE = '/uploads'
+
+const registry: Record<string, () => StorageAdapter> = {
+    cloudinary: () => CloudinaryStorage(),
+    local: () => LocalStorage({
+        directory: LOCAL_STORAGE_DIR,
+        publicUrl: `${process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`}${LOCAL_STORAGE_ROUTE}`,
+    }),
+    s3: () => S3Storage({
+        bucket: process.env.S3_BUCKET as string,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        publicUrl: process.env.S3_PUBLIC_URL,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    }),
+}
+
+let storage: StorageAdapter | undefined
+
+export const getStorage = (): StorageAdapter => {
+
+    if (!storage) {
+        const name = process.env.STORAGE_DRIVER || 'cloudinary'
+        const factory = registry[name]
+        if (!factory) {
+            throw new Error(`Unknown storage driver "${name}"`)
+        }
+        storage = factory()
+    }
+
+    return storage
+}
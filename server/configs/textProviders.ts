@@ -0,0 +1,52 @@
+import { TextProvider, TextRequest } from '../providers/TextProvider.js'
+import GeminiTextProvider from '../providers/GeminiTextProvider.js'
+import LocalTextProvider from '../providers/LocalTextProvider.js'
+
+// Same idea as IMAGE_PROVIDERS: TEXT_PROVIDERS is a comma separated chain
+// tried in order. Without it, gemini is used when GEMINI_API_KEY is set and
+// the offline local provider otherwise.
+
+const registry: Record<string, () => TextProvider> = {
+    gemini: () => GeminiTextProvider({ apiKey: process.env.GEMINI_API_KEY as string, model: process.env.GEMINI_TEXT_MODEL }),
+    local: () => LocalTextProvider(),
+}
+
+export const registerTextProvider = (name: string, factory: () => TextProvider) => {
+    registry[name] = factory
+}
+
+export const getTextProviders = (): TextProvider[] => {
+
+    const names = (process.env.TEXT_PROVIDERS || (process.env.GEMINI_API_KEY ? 'gemini' : 'local'))
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+
+    return names.map((name) => {
+        const factory = registry[name]
+        if (!factory) {
+            throw new Error(`Unknown text provider "${name}"`)
+        }
+        return factory()
+    })
+}
+
+// `parse` turns the raw answer into the caller's shape; if it throws, the
+// answer counts as a failure and the next provider is tried
+export const generateText = async <T>(request: TextRequest, parse: (text: string) => T) => {
+
+    let lastError: any
+
+    for (const provider of getTextProviders()) {
+        try {
+            console.log(`🌐 Calling ${provider.name} for ${request.task}`)
+            const result = parse(await provider.generate(request))
+            return { result, provider: provider.name, model: provider.model }
+        } catch (error: any) {
+            console.log(`❌ ${provider.name} failed:`, error.status || error.code || error.message)
+            lastError = error
+        }
+    }
+
+    throw new Error(`All text providers failed: ${lastError?.message || 'none configured'}`)
+}
@@ -0,0 +1,6 @@
+// Public addresses of the client app and this API, used in links that leave the
+// server (emails, checkout redirects, provider webhooks)
+
+export const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173'
+
+export const SERVER_URL = process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`
@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import ApiKey, { API_KEY_SCOPES, ApiKeyScope } from "../models/ApiKey.js";
+import User from "../models/User.js";
+import { generateApiKey, hasApiAccess } from "../auth/apiKeys.js";
+
+const MAX_API_KEYS = 10;
+const NO_API_ACCESS = "API keys are part of the Enterprise plan";
+
+// The user's active keys, never the keys themselves
+export const getApiKeys = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const user = await User.findById(userId).select('plan');
+        const keys = await ApiKey.find({ userId, revokedAt: { $exists: false } }).select('-key_hash').sort({ createdAt: -1 });
+
+        res.json({ keys, scopes: API_KEY_SCOPES, api_access: hasApiAccess(user?.plan) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Creates a key and returns it in full. This is the only time it can be read.
+export const createApiKey = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        const scopes = Array.isArray(req.body.scopes)
+            ? API_KEY_SCOPES.filter((scope) => req.body.scopes.includes(scope))
+            : [];
+
+        const user = await User.findById(userId).select('plan');
+        if (!hasApiAccess(user?.plan)) {
+            return res.status(403).json({ message: NO_API_ACCESS });
+        }
+
+        if (!name || scopes.length === 0) {
+            return res.status(400).json({ message: `Name and at least one scope (${API_KEY_SCOPES.join(', ')}) are required` });
+        }
+
+        if (await ApiKey.countDocuments({ userId, revokedAt: { $exists: false } }) >= MAX_API_KEYS) {
+            return res.status(400).json({ message: `You can have up to ${MAX_API_KEYS} active API keys` });
+        }
+
+        const { key, prefix, key_hash } = generateApiKey();
+        const apiKey = await ApiKey.create({ userId, name, prefix, key_hash, scopes: scopes as ApiKeyScope[] });
+
+        const { key_hash: _, ...stored } = apiKey.toObject();
+        res.status(201).json({ message: "API key created, copy it now", key, apiKey: stored });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Revoked keys stop working at once; the record stays for reference
+export const revokeApiKey = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const apiKey = await ApiKey.findOneAndUpdate(
+            { _id: req.params.id, userId, revokedAt: { $exists: false } },
+            { revokedAt: new Date() },
+            { new: true }
+        );
+        if (!apiKey) {
+            return res.status(404).json({ message: "API key not found" });
+        }
+
+        res.json({ message: "API key revoked" });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -1,6 +1,28 @@
 import { Request, Response } from "express"
 import User from "../models/User.js";
 import bcrypt from 'bcrypt';
+import { consumeToken, issueToken } from "../auth/tokens.js";
+import { endUserSessions } from "../auth/sessions.js";
+import { getMailer } from "../configs/mailer.js";
+import { CLIENT_URL, SERVER_URL } from "../configs/urls.js";
+import { getOidcConfig, isOidcEnabled, OIDC_PROVIDER_NAME } from "../configs/oidc.js";
+import { findOrCreateOidcUser, finishOidcLogin, startOidcLogin } from "../auth/oidc.js";
+import { passwordResetEmail, verificationEmail } from "../mail/templates.js";
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+const VERIFICATION_TOKEN_TTL_HOURS = 24;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Emails a fresh verification link; earlier links stop working
+const sendVerificationEmail = async (user: { _id: any; name: string; email: string }) => {
+
+    const token = await issueToken(user._id.toString(), 'email_verification', VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+
+    await getMailer().send({
+        to: user.email,
+        ...verificationEmail({ name: user.name, url: `${CLIENT_URL}/verify-email?token=${token}`, expiresInHours: VERIFICATION_TOKEN_TTL_HOURS })
+    })
+}
 
 // Controllers for User Registration
 
@@ -20,19 +42,26 @@ export const registerUser = async (req: Request, res: Response) => {
         const salt = await bcrypt.genSalt(10)
         const hashedPassword = await bcrypt.hash(password, salt)
 
-        const newUser = new User({ name, email, password: hashedPassword })
+        const newUser = new User({ name, email, password: hashedPassword, emailVerified: false })
         await newUser.save()
 
+        // the account exists either way, the user can ask for another email
+        await sendVerificationEmail(newUser).catch((error) => {
+            console.log('Could not send verification email:', error.message)
+        })
+
         // setting user data in session
         req.session.isLoggedIn = true;
         req.session.userId = newUser._id;
 
         return res.json({
-            message: 'Account created successfully',
+            message: 'Account created, check your email to verify it',
             user: {
                 _id: newUser._id,
                 name: newUser.name,
-                email: newUser.email
+                email: newUser.email,
+                plan: newUser.plan,
+                emailVerified: newUser.emailVerified
             }
         })
 
@@ -55,7 +84,8 @@ export const LoginUser = async (req: Request, res: Response) => {
         //find user by email
         const user = await User.findOne({ email })
 
-        if (!user) {
+        // accounts made through single sign-on have no password to compare
+        if (!user || !user.password) {
             return res.status(400).json({ message: "invalid Email and Password" })
         }
 
@@ -75,7 +105,9 @@ export const LoginUser = async (req: Request, res: Response) => {
             user: {
                 _id: user._id,
                 name: user.name,
-                email: user.email
+                email: user.email,
+                plan: user.plan,
+                emailVerified: user.emailVerified
             }
         })
 
@@ -120,4 +152,206 @@ export const verifyUser = async(req:Request,res:Response)=>{
         console.log(error)
         res.status(500).json({ message: error.message })     
     }
-}
\ No newline at end of file
+}
+
+
+// Controller for forgotten passwords: emails a single-use reset link
+
+export const forgotPassword = async (req: Request, res: Response) => {
+
+    try {
+        const { email } = req.body;
+
+        if (typeof email !== 'string' || !email.trim()) {
+            return res.status(400).json({ message: "Email is required" })
+        }
+
+        const user = await User.findOne({ email: email.trim().toLowerCase() })
+
+        if (user) {
+            const token = await issueToken(user._id.toString(), 'password_reset', RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+
+            // a failed send must not change the answer either
+            await getMailer().send({
+                to: user.email,
+                ...passwordResetEmail({ name: user.name, url: `${CLIENT_URL}/login?reset_token=${token}`, expiresInMinutes: RESET_TOKEN_TTL_MINUTES })
+            }).catch((error) => {
+                console.log('Could not send password reset email:', error.message)
+            })
+        }
+
+        // same answer either way, so the form can't be used to find out who has an account
+        return res.json({ message: "If an account exists for that email, a reset link is on its way" })
+
+    } catch (error: any) {
+        console.log(error)
+        res.status(500).json({ message: error.message })
+    }
+
+}
+
+// Controller for resetting the password with the emailed token
+
+export const resetPassword = async (req: Request, res: Response) => {
+
+    try {
+        const { token, password } = req.body;
+
+        // checked before the token is spent, so a typo doesn't burn the link
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+        }
+
+        const userId = await consumeToken(token, 'password_reset')
+
+        if (!userId) {
+            return res.status(400).json({ message: "This reset link is invalid or has expired" })
+        }
+
+        const salt = await bcrypt.genSalt(10)
+        const hashedPassword = await bcrypt.hash(password, salt)
+
+        await User.updateOne({ _id: userId }, { password: hashedPassword })
+
+        // whoever knew the old password is logged out too
+        await endUserSessions(userId)
+
+        return res.json({ message: "Password updated, you can log in now" })
+
+    } catch (error: any) {
+        console.log(error)
+        res.status(500).json({ message: error.message })
+    }
+
+}
+
+
+// Controller for the link in the verification email. Works without a session,
+// the link may be opened in another browser.
+
+export const verifyEmail = async (req: Request, res: Response) => {
+
+    try {
+        const { token } = req.body;
+
+        const userId = await consumeToken(token, 'email_verification')
+
+        if (!userId) {
+            return res.status(400).json({ message: "This verification link is invalid or has expired" })
+        }
+
+        await User.updateOne({ _id: userId }, { emailVerified: true })
+
+        return res.json({ message: "Email verified, you're all set" })
+
+    } catch (error: any) {
+        console.log(error)
+        res.status(500).json({ message: error.message })
+    }
+
+}
+
+// Controller for sending the verification email again
+
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+
+    try {
+        const { userId } = req.session;
+
+        const user = await User.findById(userId).select('name email emailVerified')
+
+        if (!user) {
+            return res.status(400).json({ message: 'Invalid User' })
+        }
+
+        if (user.emailVerified !== false) {
+            return res.status(409).json({ message: "Your email is already verified" })
+        }
+
+        await sendVerificationEmail(user)
+
+        return res.json({ message: `Verification email sent to ${user.email}` })
+
+    } catch (error: any) {
+        console.log(error)
+        res.status(500).json({ message: error.message })
+    }
+
+}
+
+
+// Controller telling the login page whether single sign-on is available
+
+export const getOidcProvider = async (req: Request, res: Response) => {
+
+    return res.json({ enabled: isOidcEnabled(), name: OIDC_PROVIDER_NAME })
+}
+
+// Controller starting single sign-on: remembers the PKCE verifier, state and
+// nonce in the session and sends the browser to the provider
+
+export const startOidc = async (req: Request, res: Response) => {
+
+    try {
+        const config = await getOidcConfig()
+
+        if (!config) {
+            return res.status(404).json({ message: "Single sign-on is not configured" })
+        }
+
+        const { url, pending } = await startOidcLogin(config, req.query.redirect)
+        req.session.oidc = pending
+
+        return res.redirect(url)
+
+    } catch (error: any) {
+        console.log(error)
+        res.status(500).json({ message: error.message })
+    }
+
+}
+
+// Controller for the provider's redirect back. Errors go back to the login page
+// since the user arrives here in the browser, not through the API client.
+
+export const oidcCallback = async (req: Request, res: Response) => {
+
+    const fail = (message: string) => res.redirect(`${CLIENT_URL}/login?oidc_error=${encodeURIComponent(message)}`)
+
+    try {
+        const config = await getOidcConfig()
+        const pending = req.session.oidc
+
+        if (!config) {
+            return fail("Single sign-on is not configured")
+        }
+        if (!pending) {
+            return fail("Your sign-in session expired, please try again")
+        }
+
+        // the pending login is single use whatever happens next
+        delete req.session.oidc
+
+        if (typeof req.query.error === 'string') {
+            return fail(typeof req.query.error_description === 'string' ? req.query.error_description : req.query.error)
+        }
+
+        const claims = await finishOidcLogin(config, new URL(req.originalUrl, SERVER_URL), pending)
+        const { user, error } = await findOrCreateOidcUser(config.serverMetadata().issuer, claims)
+
+        if (error) {
+            return fail(error)
+        }
+
+        // setting user data in session
+        req.session.isLoggedIn = true;
+        req.session.userId = user._id;
+
+        return res.redirect(`${CLIENT_URL}${pending.returnTo}`)
+
+    } catch (error: any) {
+        console.log(error)
+        fail("Sign-in failed, please try again")
+    }
+
+}
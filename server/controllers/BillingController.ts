@@ -0,0 +1,161 @@
+import { Request, Response } from "express";
+import Subscription from "../models/Subscription.js";
+import User from "../models/User.js";
+import { getPaymentProvider } from "../configs/billing.js";
+import { CLIENT_URL } from "../configs/urls.js";
+import { PLANS, PlanId } from "../configs/plans.js";
+import { applyBillingEvent, getCurrentSubscription } from "../billing/subscriptions.js";
+import { FakePaymentProvider } from "../billing/FakePaymentProvider.js";
+
+const BILLING_DISABLED = "Billing is not configured";
+
+const paidPlans = Object.entries(PLANS)
+    .filter(([, plan]) => plan.price > 0)
+    .map(([id, plan]) => ({ id: id as PlanId, ...plan }));
+
+// The user's plan, their live subscription (or the latest attempt) and the plans on offer
+export const getBilling = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const user = await User.findById(userId).select('plan');
+        const subscription = await getCurrentSubscription(userId as string).select('-events')
+            || await Subscription.findOne({ userId, status: { $ne: 'pending' } }).sort({ createdAt: -1 }).select('-events');
+
+        res.json({
+            plan: user?.plan,
+            subscription,
+            plans: paidPlans,
+            provider: getPaymentProvider()?.name || null,
+        });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Starts a checkout with the provider and returns the page to send the user to
+export const createCheckout = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const { plan } = req.body;
+
+        const provider = getPaymentProvider();
+        if (!provider) {
+            return res.status(503).json({ message: BILLING_DISABLED });
+        }
+
+        if (!paidPlans.some((paid) => paid.id === plan)) {
+            return res.status(400).json({ message: `Choose one of: ${paidPlans.map((paid) => paid.id).join(', ')}` });
+        }
+
+        const current = await getCurrentSubscription(userId as string);
+        if (current?.plan === plan) {
+            return res.status(409).json({ message: `You are already subscribed to ${PLANS[plan as PlanId].label}` });
+        }
+
+        const user = await User.findById(userId).select('email');
+
+        const { checkoutId, url } = await provider.createCheckout({
+            plan,
+            amount: PLANS[plan as PlanId].price,
+            email: user.email,
+            successUrl: `${CLIENT_URL}/billing?checkout=success`,
+            cancelUrl: `${CLIENT_URL}/billing?checkout=cancelled`,
+        });
+
+        await Subscription.create({ userId, plan, provider: provider.name, checkout_id: checkoutId, status: 'pending' });
+
+        res.status(201).json({ url });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Asks the provider to end the live subscription. The plan drops back once the
+// provider's subscription.cancelled webhook arrives.
+export const cancelSubscription = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const provider = getPaymentProvider();
+        if (!provider) {
+            return res.status(503).json({ message: BILLING_DISABLED });
+        }
+
+        const subscription = await getCurrentSubscription(userId as string);
+        if (!subscription) {
+            return res.status(404).json({ message: "You have no active subscription" });
+        }
+
+        await provider.cancelSubscription(subscription.subscription_id);
+
+        const updated = await Subscription.findById(subscription._id).select('-events');
+        res.json({ message: "Subscription cancelled", subscription: updated });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Public webhook for the payment provider, mounted with a raw body so the
+// signature can be checked against the exact bytes that were sent
+export const handleBillingWebhook = async (req: Request, res: Response) => {
+    try {
+        const provider = getPaymentProvider();
+        if (!provider) {
+            return res.status(503).json({ message: BILLING_DISABLED });
+        }
+
+        let event;
+        try {
+            event = provider.parseWebhook(req.body, req.headers);
+        } catch (error: any) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        const subscription = await applyBillingEvent(provider, event);
+
+        // unknown or repeated events are acknowledged so the provider stops retrying
+        res.json({ received: true, applied: !!subscription });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Used by the fake checkout page: the user decides whether the payment goes
+// through and the fake provider sends the matching webhook
+export const completeFakeCheckout = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const { session, outcome } = req.body;
+
+        const provider = getPaymentProvider();
+        if (provider?.name !== 'fake') {
+            return res.status(404).json({ message: "Fake checkout is only available with the fake billing provider" });
+        }
+
+        const subscription = await Subscription.findOne({ userId, checkout_id: session, status: { $in: ['pending', 'incomplete'] } });
+        if (!subscription) {
+            return res.status(404).json({ message: "Checkout not found or already completed" });
+        }
+
+        await (provider as FakePaymentProvider).simulate(outcome === 'paid' ? 'subscription.paid' : 'payment.failed', { checkoutId: session });
+
+        const updated = await Subscription.findById(subscription._id).select('-events');
+        res.json({
+            message: updated.status === 'active' ? `You are now on the ${PLANS[updated.plan as PlanId].label} plan` : "Payment declined",
+            subscription: updated,
+        });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,117 @@
+import { Request, Response } from "express";
+import BrandKit from "../models/BrandKit.js";
+import { getStorage } from "../configs/storage.js";
+import { deleteStoredImages } from "../storage/cleanup.js";
+import { LOGO_POSITIONS, prepareLogo } from "../imaging/logoOverlay.js";
+import { OVERLAY_FONTS } from "../imaging/textOverlay.js";
+import { describePalette } from "../prompts/palettes.js";
+
+// Only the fields present in the body are changed; anything malformed is ignored
+const cleanBrandKitInput = (body: any) => {
+
+    const fields: Record<string, any> = {};
+    const unset: Record<string, 1> = {};
+
+    if (Array.isArray(body.colors)) {
+        fields.colors = body.colors.filter((color: any) => /^#[0-9a-f]{6}$/i.test(color)).map((color: string) => color.toUpperCase()).slice(0, 6);
+    }
+    if (LOGO_POSITIONS.includes(body.logo_position)) {
+        fields.logo_position = body.logo_position;
+    }
+    if (typeof body.logo_scale === 'number') {
+        fields.logo_scale = Math.min(Math.max(body.logo_scale, 0.05), 0.4);
+    }
+    if (typeof body.logo_opacity === 'number') {
+        fields.logo_opacity = Math.min(Math.max(body.logo_opacity, 0.1), 1);
+    }
+    if (Object.hasOwn(OVERLAY_FONTS, body.font)) {
+        fields.font = body.font;
+    } else if (body.font === null || body.font === '') {
+        unset.font = 1;
+    }
+    if (typeof body.default_style === 'string' && body.default_style.trim()) {
+        fields.default_style = body.default_style.trim();
+    } else if (body.default_style === null || body.default_style === '') {
+        unset.default_style = 1;
+    }
+
+    return { fields, unset };
+};
+
+const withDescription = (kit: any) => kit && ({ ...kit.toObject(), color_description: kit.colors?.length ? describePalette(kit.colors) : '' });
+
+export const getBrandKit = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const brandKit = await BrandKit.findOne({ userId });
+        res.json({ brandKit: withDescription(brandKit) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Creates the kit on first save. Takes JSON, or multipart with a `logo` file;
+// `remove_logo: true` clears the current logo.
+export const updateBrandKit = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const { fields, unset } = cleanBrandKitInput(req.body);
+
+        const current = await BrandKit.findOne({ userId });
+        let replacedLogo: string | undefined;
+
+        if (req.file) {
+            let logo;
+            try {
+                logo = await prepareLogo(req.file.buffer);
+            } catch (error: any) {
+                return res.status(400).json({ message: error.message });
+            }
+
+            const { key, url } = await getStorage().put(logo, { contentType: 'image/png', folder: 'brand' });
+            fields.logo_url = url;
+            fields.logo_key = key;
+            replacedLogo = current?.logo_key;
+        } else if (req.body.remove_logo === true) {
+            unset.logo_url = 1;
+            unset.logo_key = 1;
+            replacedLogo = current?.logo_key;
+        }
+
+        const brandKit = await BrandKit.findOneAndUpdate(
+            { userId },
+            { $set: fields, ...(Object.keys(unset).length && { $unset: unset }) },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        // the old logo only goes once the kit points at the new one
+        await deleteStoredImages([replacedLogo]);
+
+        res.json({ message: "Brand kit saved", brandKit: withDescription(brandKit) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const deleteBrandKit = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const brandKit = await BrandKit.findOneAndDelete({ userId });
+        if (!brandKit) {
+            return res.status(404).json({ message: "Brand kit not found" });
+        }
+
+        await deleteStoredImages([brandKit.logo_key]);
+        res.json({ message: "Brand kit deleted" });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
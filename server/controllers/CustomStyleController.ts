@@ -0,0 +1,173 @@
+import { Request, Response } from "express";
+import CustomStyle from "../models/CustomStyle.js";
+import CustomPalette from "../models/CustomPalette.js";
+import { describePalette } from "../prompts/palettes.js";
+
+const MAX_CUSTOM_ITEMS = 50;
+
+const cleanStyleInput = (body: any) => ({
+    name: typeof body.name === 'string' ? body.name.trim() : '',
+    prompt: typeof body.prompt === 'string' ? body.prompt.trim() : '',
+    negative_prompt: typeof body.negative_prompt === 'string' ? body.negative_prompt.trim() : '',
+});
+
+const cleanPaletteInput = (body: any) => ({
+    name: typeof body.name === 'string' ? body.name.trim() : '',
+    colors: Array.isArray(body.colors) ? body.colors.filter((color: any) => /^#[0-9a-f]{6}$/i.test(color)).map((color: string) => color.toUpperCase()) : [],
+});
+
+// Palettes are returned with the text they add to the prompt
+const withDescription = (palette: any) => ({ ...palette.toObject(), description: describePalette(palette.colors) });
+
+// Custom styles
+
+export const getCustomStyles = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const styles = await CustomStyle.find({ userId }).sort({ createdAt: -1 });
+        res.json({ styles });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const createCustomStyle = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const input = cleanStyleInput(req.body);
+
+        if (!input.name || !input.prompt) {
+            return res.status(400).json({ message: "Name and prompt are required" });
+        }
+
+        if (await CustomStyle.countDocuments({ userId }) >= MAX_CUSTOM_ITEMS) {
+            return res.status(400).json({ message: `You can keep up to ${MAX_CUSTOM_ITEMS} custom styles` });
+        }
+
+        const style = await CustomStyle.create({ userId, ...input });
+        res.status(201).json({ message: "Style created", style });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const updateCustomStyle = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const input = cleanStyleInput(req.body);
+
+        if (!input.name || !input.prompt) {
+            return res.status(400).json({ message: "Name and prompt are required" });
+        }
+
+        const style = await CustomStyle.findOneAndUpdate({ _id: req.params.id, userId }, input, { new: true, runValidators: true });
+        if (!style) {
+            return res.status(404).json({ message: "Style not found" });
+        }
+
+        res.json({ message: "Style updated", style });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Thumbnails made with a deleted style keep its name and compiled prompt
+export const deleteCustomStyle = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const style = await CustomStyle.findOneAndDelete({ _id: req.params.id, userId });
+        if (!style) {
+            return res.status(404).json({ message: "Style not found" });
+        }
+
+        res.json({ message: "Style deleted" });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Custom palettes
+
+export const getCustomPalettes = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const palettes = await CustomPalette.find({ userId }).sort({ createdAt: -1 });
+        res.json({ palettes: palettes.map(withDescription) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const createCustomPalette = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const input = cleanPaletteInput(req.body);
+
+        if (!input.name || !input.colors.length) {
+            return res.status(400).json({ message: "Name and at least one hex color are required" });
+        }
+
+        if (await CustomPalette.countDocuments({ userId }) >= MAX_CUSTOM_ITEMS) {
+            return res.status(400).json({ message: `You can keep up to ${MAX_CUSTOM_ITEMS} custom palettes` });
+        }
+
+        const palette = await CustomPalette.create({ userId, ...input });
+        res.status(201).json({ message: "Palette created", palette: withDescription(palette) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const updateCustomPalette = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const input = cleanPaletteInput(req.body);
+
+        if (!input.name || !input.colors.length) {
+            return res.status(400).json({ message: "Name and at least one hex color are required" });
+        }
+
+        const palette = await CustomPalette.findOneAndUpdate({ _id: req.params.id, userId }, input, { new: true, runValidators: true });
+        if (!palette) {
+            return res.status(404).json({ message: "Palette not found" });
+        }
+
+        res.json({ message: "Palette updated", palette: withDescription(palette) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const deleteCustomPalette = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const palette = await CustomPalette.findOneAndDelete({ _id: req.params.id, userId });
+        if (!palette) {
+            return res.status(404).json({ message: "Palette not found" });
+        }
+
+        res.json({ message: "Palette deleted" });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,184 @@
+import { Request, Response } from "express";
+import crypto from "node:crypto";
+import mongoose from "mongoose";
+import Experiment from "../models/Experiment.js";
+import Thumbnail from "../models/Thumbnail.js";
+import { getExperimentStats } from "../experiments/stats.js";
+
+const MAX_VARIANTS = 8;
+const MAX_EVENTS_PER_REQUEST = 100;
+const MAX_EVENT_COUNT = 10000;
+
+const withStats = (experiment: any) => ({ ...experiment.toObject(), stats: getExperimentStats(experiment.variants) });
+
+export const getExperiments = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const experiments = await Experiment.find({ userId }).sort({ createdAt: -1 });
+        res.json({ experiments: experiments.map(withStats) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// The experiment with its stats and the variant thumbnails (missing ones were deleted)
+export const getExperiment = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const experiment = await Experiment.findOne({ _id: req.params.id, userId });
+        if (!experiment) {
+            return res.status(404).json({ message: "Experiment not found" });
+        }
+
+        const thumbnails = await Thumbnail.find({ _id: { $in: experiment.variants.map((variant: any) => variant.thumbnailId) }, userId })
+            .select('title image_url aspect_ratio style');
+
+        res.json({ experiment: withStats(experiment), thumbnails });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const createExperiment = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+        const { name, thumbnail_ids } = req.body;
+
+        const ids = Array.isArray(thumbnail_ids) ? [...new Set<string>(thumbnail_ids.filter((id: any) => mongoose.isValidObjectId(id)))] : [];
+
+        if (ids.length < 2 || ids.length > MAX_VARIANTS) {
+            return res.status(400).json({ message: `Pick between 2 and ${MAX_VARIANTS} thumbnails` });
+        }
+
+        const thumbnails = await Thumbnail.find({ _id: { $in: ids }, userId, status: 'succeeded' }).select('_id');
+        if (thumbnails.length !== ids.length) {
+            return res.status(400).json({ message: "Every variant must be one of your finished thumbnails" });
+        }
+
+        const experiment = await Experiment.create({
+            userId,
+            name: typeof name === 'string' && name.trim() ? name.trim() : `Test ${new Date().toLocaleDateString('en-US')}`,
+            variants: ids.map((thumbnailId, i) => ({ thumbnailId, label: String.fromCharCode(65 + i) })),
+            tracking_key: crypto.randomBytes(16).toString('hex'),
+        });
+
+        res.status(201).json({ message: "Experiment created", experiment: withStats(experiment) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Ends the test. The winner defaults to the current leader.
+export const completeExperiment = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const experiment = await Experiment.findOne({ _id: req.params.id, userId });
+        if (!experiment) {
+            return res.status(404).json({ message: "Experiment not found" });
+        }
+
+        if (experiment.status === 'completed') {
+            return res.status(409).json({ message: "Experiment is already completed" });
+        }
+
+        const winner = req.body.winner_id || getExperimentStats(experiment.variants).leader;
+        if (!experiment.variants.some((variant: any) => variant.thumbnailId === winner)) {
+            return res.status(400).json({ message: "Winner must be one of the variants" });
+        }
+
+        experiment.status = 'completed';
+        experiment.winner_thumbnail_id = winner;
+        experiment.completedAt = new Date();
+        await experiment.save();
+
+        res.json({ message: `Variant ${experiment.variants.find((variant: any) => variant.thumbnailId === winner).label} declared the winner`, experiment: withStats(experiment) });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+export const deleteExperiment = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.session;
+
+        const experiment = await Experiment.findOneAndDelete({ _id: req.params.id, userId });
+        if (!experiment) {
+            return res.status(404).json({ message: "Experiment not found" });
+        }
+
+        res.json({ message: "Experiment deleted" });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
+
+// Public tracking endpoint. Body: { key, events: [{ variant, type, count? }] }
+// where variant is a thumbnail id (or variant label) and type is impression or
+// click; `count` lets a harness or a server-side aggregator send totals.
+export const trackExperimentEvents = async (req: Request, res: Response) => {
+    try {
+        const { key, events } = req.body;
+
+        if (typeof key !== 'string' || !Array.isArray(events) || !events.length || events.length > MAX_EVENTS_PER_REQUEST) {
+            return res.status(400).json({ message: `Send a key and 1 to ${MAX_EVENTS_PER_REQUEST} events` });
+        }
+
+        const experiment = await Experiment.findOne({ tracking_key: key }).select('status variants');
+        if (!experiment) {
+            return res.status(404).json({ message: "Experiment not found" });
+        }
+
+        // results are frozen once a winner is declared
+        if (experiment.status !== 'running') {
+            return res.status(409).json({ message: "Experiment is no longer running" });
+        }
+
+        const increments: Record<string, number> = {};
+        let accepted = 0;
+
+        // running totals, so a click is only counted once there is an impression for it
+        const totals = experiment.variants.map((variant: any) => ({ impressions: variant.impressions, clicks: variant.clicks }));
+
+        for (const event of events) {
+            const index = experiment.variants.findIndex((variant: any) => variant.thumbnailId === event?.variant || variant.label === event?.variant);
+            const count = event?.count === undefined ? 1 : Math.floor(Number(event.count));
+
+            if (index < 0 || !['impression', 'click'].includes(event.type) || !(count > 0 && count <= MAX_EVENT_COUNT)) {
+                continue;
+            }
+
+            const type = event.type === 'click' ? 'clicks' : 'impressions';
+            if (type === 'clicks' && totals[index].clicks + count > totals[index].impressions) {
+                continue;
+            }
+
+            totals[index][type] += count;
+            const field = `variants.${index}.${type}`;
+            increments[field] = (increments[field] || 0) + count;
+            accepted++;
+        }
+
+        if (accepted) {
+            await Experiment.updateOne({ _id: experiment._id, status: 'running' }, { $inc: increments });
+        }
+
+        res.status(202).json({ accepted, rejected: events.length - accepted });
+
+    } catch (error: any) {
+        console.log(error);
+        res.status(500).json({ message: error.message });
+    }
+};
@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import crypto from "node:crypto";
+import { drainQueue } from "../jobs/worker.js";
+import { bearerToken } from "../middlewares/auth.js";
+
+// How long one cron call keeps claiming jobs. The function's own time limit
+// must leave room for the last job on top (up to JOB_TIMEOUT_MS per variation).
+const CRON_BUDGET_MS = Number(process.env.JOB_CRON_BUDGET_MS) || 30000;
+
+const sameSecret = (given: string, expected: string) => {
+  const [a, b] = [given, expected].map((value) => crypto.createHash('sha256').update(value).digest());
+  return crypto.timingSafeEqual(a, b);
+};
+
+// Runs the queue from a scheduler on hosts where no worker process stays up,
+// e.g. Vercel Cron, which sends `Authorization: Bearer <CRON_SECRET>`. Off
+// unless CRON_SECRET is set.
+export const runQueuedJobs = async (req: Request, res: Response) => {
+  try {
+
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return res.status(404).json({ message: "Not found" });
+    }
+
+    if (!sameSecret(bearerToken(req) || '', secret)) {
+      return res.status(401).json({ message: "Invalid cron secret" });
+    }
+
+    const processed = await drainQueue({ budgetMs: CRON_BUDGET_MS });
+    res.json({ processed });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,191 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import PromptTemplate from "../models/PromptTemplate.js";
+import Thumbnail from "../models/Thumbnail.js";
+import { activateTemplate, compilePrompt, createTemplateVersion, getActiveTemplate, TEMPLATE_FIELDS, TemplateContent } from "../prompts/templates.js";
+
+// Keeps the template fields of a request body with the right shape; anything
+// missing is taken from `base` (the version being edited)
+const cleanTemplateInput = (body: any, base: any = {}): Partial<TemplateContent> => {
+
+  const isFragmentMap = (value: any) => value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every((fragment) => typeof fragment === 'string');
+
+  const content: Record<string, any> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    const value = body?.[field];
+    const valid = field === 'styles' || field === 'color_schemes' ? isFragmentMap(value) : typeof value === 'string';
+    content[field] = valid ? value : base[field];
+  }
+
+  return content;
+};
+
+// A malformed id would make findById throw a CastError
+const isTemplateId = (id: unknown) => typeof id === 'string' && mongoose.isValidObjectId(id);
+
+export const listPromptTemplates = async (req: Request, res: Response) => {
+  try {
+
+    const templates = await PromptTemplate.find().sort({ version: -1 });
+    res.json({ templates });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getPromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    if (!isTemplateId(req.params.id)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const template = await PromptTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const usage = await Thumbnail.countDocuments({ template_id: template._id.toString() });
+    res.json({ template, usage });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Saves a brand new version; `from` copies the fields the body leaves out
+export const createPromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    if (req.body.from && !isTemplateId(req.body.from)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const base = req.body.from ? await PromptTemplate.findById(req.body.from) : null;
+    if (req.body.from && !base) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const content = cleanTemplateInput(req.body, base?.toObject({ flattenMaps: true }));
+    if (!content.skeleton || !content.default_style) {
+      return res.status(400).json({ message: "skeleton and default_style are required" });
+    }
+
+    const template = await createTemplateVersion(content, { notes: req.body.notes, created_by: req.session.userId });
+    res.status(201).json({ message: `Template version ${template.version} created`, template });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Versions are immutable, so an update stores the edited copy as the next version
+export const updatePromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    if (!isTemplateId(req.params.id)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const base = await PromptTemplate.findById(req.params.id);
+    if (!base) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const content = cleanTemplateInput(req.body, base.toObject({ flattenMaps: true }));
+    const template = await createTemplateVersion(content, { notes: req.body.notes, created_by: req.session.userId });
+
+    if (req.body.activate === true) {
+      await activateTemplate(template._id.toString());
+      template.is_active = true;
+    }
+
+    res.status(201).json({ message: `Template version ${template.version} created`, template });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const activatePromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    if (!isTemplateId(req.params.id)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const template = await activateTemplate(req.params.id as string);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    res.json({ message: `Template version ${template.version} is now active`, template });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Only unused, inactive versions can go - the rest are needed to trace old thumbnails
+export const deletePromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    if (!isTemplateId(req.params.id)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const template = await PromptTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    if (template.is_active) {
+      return res.status(409).json({ message: "The active template cannot be deleted" });
+    }
+
+    if (await Thumbnail.exists({ template_id: template._id.toString() })) {
+      return res.status(409).json({ message: "Template has produced thumbnails and is kept for tracing" });
+    }
+
+    await template.deleteOne();
+    res.json({ message: `Template version ${template.version} deleted` });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Compiles a prompt without generating anything. Uses `template_id` (or the
+// active version) with any template fields in the body applied as a draft.
+export const previewPromptTemplate = async (req: Request, res: Response) => {
+  try {
+
+    const { template_id, title, prompt: user_prompt, style, color_scheme, aspect_ratio } = req.body;
+
+    if (template_id && !isTemplateId(template_id)) {
+      return res.status(400).json({ message: "Invalid template id" });
+    }
+
+    const base = template_id ? await PromptTemplate.findById(template_id) : await getActiveTemplate();
+    if (!base) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const content = cleanTemplateInput(req.body, base.toObject({ flattenMaps: true }));
+    const prompt = compilePrompt(content, { title, user_prompt, style, color_scheme, aspect_ratio: aspect_ratio || '16:9' });
+
+    res.json({ prompt, version: base.version });
+
+  } catch (error: any) {
+    console.log(error);
+    res.status(500).json({ message: error.message });
+  }
+};
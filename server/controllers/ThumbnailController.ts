@@ -1,231 +1,730 @@
 import { Request, Response } from "express";
+import { getUserId } from "../middlewares/auth.js";
 import Thumbnail from "../models/Thumbnail.js";
-import path from "node:path";
-import axios from "axios";
-import fs from "fs";
-import { v2 as cloudinary } from "cloudinary";
-
-const stylePrompts = {
-  "Bold & Graphic":
-    "eye-catching thumbnail, bold typography, vibrant colors, dramatic lighting, high contrast",
-  "Tech/Futuristic":
-    "futuristic thumbnail, glowing UI, cyber-tech aesthetic, neon accents",
-  Minimalist: "minimalist thumbnail, clean layout, modern flat design",
-  Photorealistic: "photorealistic thumbnail, DSLR lighting, sharp details",
-  Illustrated: "illustrated thumbnail, cartoon/vector style, vibrant colors",
-};
-
-const colorSchemeDescriptions = {
-  vibrant: "vibrant energetic colors",
-  sunset: "warm sunset tones",
-  forest: "natural green tones",
-  neon: "neon cyberpunk colors",
-  purple: "purple magenta palette",
-  monochrome: "black and white contrast",
-  ocean: "cool blue teal tones",
-  pastel: "soft pastel colors",
+import Job from "../models/Job.js";
+import CustomStyle from "../models/CustomStyle.js";
+import CustomPalette from "../models/CustomPalette.js";
+import BrandKit from "../models/BrandKit.js";
+import mongoose from "mongoose";
+import { readStoredImage } from "../storage/readImage.js";
+import { ZipArchive } from "archiver";
+import { EXPORT_FITS, EXPORT_FORMATS, EXPORT_PRESETS, ExportFit, ExportFormat, ExportPreset, exportImage } from "../imaging/exportPresets.js";
+import { deleteStoredImages, deleteUnusedReference, getThumbnailImageKeys } from "../storage/cleanup.js";
+import { getStorage } from "../configs/storage.js";
+import { assertReferenceSupported } from "../configs/imageProviders.js";
+import { prepareReferenceImage } from "../imaging/referenceImage.js";
+import { analyzeImage } from "../imaging/quality.js";
+import { cancelJobs, enqueueJob } from "../jobs/queue.js";
+import { chargeCredits, refundCredits } from "../credits/ledger.js";
+import { enhancePrompt } from "../prompts/enhancePrompt.js";
+import { MAX_HOOKS, MIN_HOOKS, suggestHooks } from "../prompts/hooks.js";
+import { DEFAULT_OVERLAY_STYLE, MAX_OVERLAY_CHARS, MAX_OVERLAY_WORDS, OVERLAY_FONTS, OVERLAY_POSITIONS, OverlayStyle } from "../imaging/textOverlay.js";
+
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'thumbnail';
+
+export const MAX_TITLE_LENGTH = 100;
+
+// Keeps the first MAX_OVERLAY_WORDS words, within MAX_OVERLAY_CHARS
+const capOverlayText = (text: string) =>
+  text.split(/\s+/).filter(Boolean).slice(0, MAX_OVERLAY_WORDS).join(' ').slice(0, MAX_OVERLAY_CHARS).trim();
+
+const TERMINAL_STATUSES = ['succeeded', 'failed', 'cancelled'];
+const EVENTS_POLL_MS = 1000;
+
+// Unknown fonts / positions / colors fall back instead of failing the request
+const cleanOverlayStyle = (style: any = {}, defaults: Partial<OverlayStyle> = {}): OverlayStyle => {
+
+  const base = { ...DEFAULT_OVERLAY_STYLE, ...defaults };
+  const bool = (value: any, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+  return {
+    font: Object.hasOwn(OVERLAY_FONTS, style.font) ? style.font : base.font,
+    position: OVERLAY_POSITIONS.includes(style.position) ? style.position : base.position,
+    color: /^#[0-9a-f]{6}$/i.test(style.color) ? style.color : base.color,
+    stroke: bool(style.stroke, base.stroke),
+    shadow: bool(style.shadow, base.shadow),
+    uppercase: bool(style.uppercase, base.uppercase),
+  };
+};
+
+// 🔥 BULLETPROOF STRING CONVERSION, falling back to `defaults` (a remix's parent)
+const cleanThumbnailInput = (body: any, defaults: any = {}) => {
+
+  const {
+    title,
+    prompt: user_prompt,
+    style,
+    aspect_ratio,
+    color_scheme,
+    text_overlay,
+    overlay_text,
+    overlay_style,
+    variations,
+    use_brand_kit
+  } = body;
+
+  const clean = (value: any, fallback: string) => typeof value === 'string' && value.trim() ? value.trim() : fallback;
+
+  return {
+    title: (typeof title === 'string' ? title : defaults.title || '').slice(0, MAX_TITLE_LENGTH),
+    user_prompt: typeof user_prompt === 'string' ? user_prompt : defaults.user_prompt || '',
+    style: clean(style, defaults.style || 'Bold & Graphic'),
+    aspect_ratio: clean(aspect_ratio, defaults.aspect_ratio || '16:9'),
+    color_scheme: clean(color_scheme, defaults.color_scheme || 'vibrant'),
+    text_overlay: typeof text_overlay === 'boolean' ? text_overlay : defaults.text_overlay ?? false,
+    overlay_text: capOverlayText(typeof overlay_text === 'string' ? overlay_text : defaults.overlay_text || ''),
+    overlay_style: cleanOverlayStyle(overlay_style, defaults.overlay_style),
+    variation_count: Math.min(Math.max(parseInt(variations) || 1, 1), 4),
+    use_brand_kit: typeof use_brand_kit === 'boolean' ? use_brand_kit : defaults.use_brand_kit ?? false,
+  };
+};
+
+// Custom style / palette picked by `style_id` / `palette_id`. A built-in
+// `style` or `color_scheme` sent without an id switches back from a custom
+// one; sending neither keeps the defaults' choice (a remix's parent). Returns
+// null when an id doesn't belong to the user.
+const resolveCustomChoices = async (userId: string, body: any, defaults: any = {}) => {
+
+  const pick = async (Model: mongoose.Model<any>, id: any, builtIn: any, inherited: { id?: string; name?: string }) => {
+    if (id) {
+      const custom = mongoose.isValidObjectId(id) ? await Model.findOne({ _id: id, userId }) : null;
+      return custom && { id: custom._id.toString(), name: custom.name as string };
+    }
+    return typeof builtIn === 'string' && builtIn.trim() ? {} : inherited;
+  };
+
+  const style = await pick(CustomStyle, body.style_id, body.style,
+    defaults.custom_style_id ? { id: defaults.custom_style_id, name: defaults.style } : {});
+  const palette = await pick(CustomPalette, body.palette_id, body.color_scheme,
+    defaults.custom_palette_id ? { id: defaults.custom_palette_id, name: defaults.color_scheme } : {});
+
+  if (!style || !palette) {
+    return null;
+  }
+
+  // the custom name is stored as style / color_scheme so lists can show it
+  return {
+    custom_style_id: style.id,
+    custom_palette_id: palette.id,
+    ...(style.name && { style: style.name }),
+    ...(palette.name && { color_scheme: palette.name }),
+  };
+};
+
+// Checks that the provider chain (or the pinned provider) can use a reference,
+// then stores the normalized upload. Returns the Thumbnail fields, or an error
+// message meant for a 400 response.
+const storeReferenceImage = async (file: Express.Multer.File, provider?: string) => {
+
+  let prepared;
+  try {
+    assertReferenceSupported(provider);
+    prepared = await prepareReferenceImage(file.buffer);
+  } catch (error: any) {
+    return { error: error.message as string };
+  }
+
+  const { key, url } = await getStorage().put(prepared.body, { contentType: prepared.contentType, folder: 'references' });
+  return { fields: { reference_image_url: url, reference_image_key: key } };
+};
+
+// Charges the user's credits (one per image), creates the thumbnail document and
+// hands it to the worker; the client follows thumbnail.status. Returns an error
+// message meant for a 402 response when the user is out of credits.
+const queueThumbnail = async (thumbnailData: Record<string, any>) => {
+
+  const _id = new mongoose.Types.ObjectId();
+  const cost = Number(thumbnailData.variation_count) || 1;
+
+  const charge = await chargeCredits(thumbnailData.userId, cost, _id.toString());
+  if (charge.error) {
+    return { error: charge.error };
+  }
+
+  try {
+    const thumbnail = await Thumbnail.create({ ...thumbnailData, _id, credits_charged: cost, status: 'queued' });
+    console.log('✅ Thumbnail created:', thumbnail._id);
+
+    await enqueueJob('generate_thumbnail', {
+      thumbnailId: thumbnail._id.toString(),
+      userId: thumbnail.userId,
+      payload: { variations: thumbnail.variation_count }
+    });
+
+    return { thumbnail };
+  } catch (error) {
+    await refundCredits(thumbnailData.userId, _id.toString());
+    throw error;
+  }
+};
+
+// Validates a generation request, stores its reference image and queues it.
+// Shared by generateThumbnail and the v1 API; returns the queued thumbnail, or
+// an error with the status to answer with.
+export const startThumbnailGeneration = async (userId: string, body: any, file?: Express.Multer.File) => {
+
+  const custom = await resolveCustomChoices(userId, body);
+  if (!custom) {
+    return { status: 400, error: 'Custom style or palette not found' };
+  }
+
+  const input = cleanThumbnailInput(body);
+
+  if (input.use_brand_kit) {
+    const brandKit = await BrandKit.findOne({ userId });
+    if (!brandKit) {
+      return { status: 400, error: 'Set up your brand kit first' };
+    }
+    // the kit's default style stands in when the request picks none
+    if (!body.style && !body.style_id && brandKit.default_style) {
+      input.style = brandKit.default_style;
+    }
+  }
+
+  let reference: Record<string, any> = {};
+  if (file) {
+    const stored = await storeReferenceImage(file);
+    if (!stored.fields) {
+      return { status: 400, error: stored.error };
+    }
+    reference = stored.fields;
+  }
+
+  const { thumbnail, error } = await queueThumbnail({ userId, ...input, ...custom, ...reference })
+    .catch(async (error) => {
+      await deleteUnusedReference(reference.reference_image_key);
+      throw error;
+    });
+
+  if (!thumbnail) {
+    await deleteUnusedReference(reference.reference_image_key);
+    return { status: 402, error };
+  }
+
+  return { thumbnail };
 };
 
 export const generateThumbnail = async (req: Request, res: Response) => {
   try {
     console.log('📦 Request body:', req.body);
 
-    const { userId } = req.session || {};
+    const userId = getUserId(req);
     if (!userId) {
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    const {
-      title,
-      prompt: user_prompt,
-      style,
-      aspect_ratio,
-      color_scheme,
-      text_overlay
-    } = req.body;
+    const { thumbnail, status, error } = await startThumbnailGeneration(userId, req.body, req.file);
 
-    // 🔥 BULLETPROOF STRING CONVERSION
-    const cleanStyle = typeof style === 'string' && style.trim() ? style.trim() : 'Bold & Graphic';
-    const cleanAspect = typeof aspect_ratio === 'string' && aspect_ratio.trim() ? aspect_ratio.trim() : '16:9';
-    const cleanColor = typeof color_scheme === 'string' && color_scheme.trim() ? color_scheme.trim() : 'vibrant';
+    if (!thumbnail) {
+      return res.status(status as number).json({ message: error });
+    }
 
-    const thumbnailData = {
-      userId,
-      title: title || '',
-      prompt_used: user_prompt || '',
-      user_prompt: user_prompt || '',
-      style: cleanStyle,
-      aspect_ratio: cleanAspect,
-      color_scheme: cleanColor,
-      text_overlay: text_overlay || true,
-      isGenerating: true
-    };
+    res.status(202).json({ message: 'Thumbnail generation queued', thumbnail });
 
-    const thumbnail = await Thumbnail.create(thumbnailData);
-    console.log('✅ Thumbnail created:', thumbnail._id);
+  } catch (error: any) {
+    console.error('💥 FULL ERROR:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Reproduce a thumbnail exactly: same prompt, seed and provider, linked to its parent
+
+export const regenerateThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
 
-    // SAFE prompt building
-    const safeStyle = cleanStyle;
-    const safeColorScheme = cleanColor;
+    const parent = await Thumbnail.findOne({ _id: id, userId });
 
-    let prompt = `Create a ${stylePrompts[safeStyle as keyof typeof stylePrompts] || 'bold graphic thumbnail'} for: "${title}"`;
-    if (safeColorScheme && colorSchemeDescriptions[safeColorScheme as keyof typeof colorSchemeDescriptions]) {
-      prompt += ` Use a ${colorSchemeDescriptions[safeColorScheme as keyof typeof colorSchemeDescriptions]} color scheme.`;
+    if (!parent) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    if (parent.seed === undefined || !parent.prompt_used) {
+      return res.status(400).json({ message: "Thumbnail has no stored seed to regenerate from" });
     }
-    if (user_prompt) {
-      prompt += ` Additional details: ${user_prompt}.`;
+
+    const { thumbnail, error } = await queueThumbnail({
+      userId,
+      title: parent.title,
+      user_prompt: parent.user_prompt,
+      style: parent.style,
+      aspect_ratio: parent.aspect_ratio,
+      color_scheme: parent.color_scheme,
+      custom_style_id: parent.custom_style_id,
+      custom_palette_id: parent.custom_palette_id,
+      negative_prompt: parent.negative_prompt,
+      reference_image_url: parent.reference_image_url,
+      reference_image_key: parent.reference_image_key,
+      use_brand_kit: parent.use_brand_kit,
+      text_overlay: parent.text_overlay,
+      overlay_text: parent.overlay_text,
+      overlay_style: parent.overlay_style,
+      variation_count: 1,
+      prompt_used: parent.prompt_used,
+      template_id: parent.template_id,
+      template_version: parent.template_version,
+      seed: parent.seed,
+      provider: parent.provider,
+      parent_id: parent._id.toString(),
+    });
+
+    if (!thumbnail) {
+      return res.status(402).json({ message: error });
     }
-    prompt += ` Thumbnail ${cleanAspect}, visually stunning, designed to maximize click-through rate. Bold, professional, impossible to ignore.`;
 
-    console.log('🎨 Generated prompt:', prompt);
+    res.status(202).json({ message: 'Thumbnail regeneration queued', thumbnail });
 
-    // POLLINATIONS.AI
-    const aspectMap: Record<string, string> = {
-      '16:9': '1024x576',
-      '1:1': '1024x1024',
-      '9:16': '576x1024'
+  } catch (error: any) {
+    console.error('💥 FULL ERROR:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Remix: keep the parent's seed and provider but apply the changed settings,
+// so the prompt is compiled again from the new values
+
+export const remixThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const parent = await Thumbnail.findOne({ _id: id, userId });
+
+    if (!parent) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    const custom = await resolveCustomChoices(userId as string, req.body, parent.toObject());
+    if (!custom) {
+      return res.status(400).json({ message: 'Custom style or palette not found' });
+    }
+
+    // a new upload replaces the parent's reference and lets any capable provider
+    // take it; `remove_reference` drops it; otherwise the parent's is kept
+    let reference: Record<string, any> = req.body.remove_reference === true ? {} : {
+      reference_image_url: parent.reference_image_url,
+      reference_image_key: parent.reference_image_key,
     };
-    const [width, height] = (aspectMap[cleanAspect] || '1024x576').split('x').map(Number);
-    const url = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${Date.now()}&nologo=true&model=flux`;
+    let provider = parent.provider;
 
-    console.log('🌐 Calling Pollinations.ai:', url);
+    if (req.file) {
+      const stored = await storeReferenceImage(req.file);
+      if (!stored.fields) {
+        return res.status(400).json({ message: stored.error });
+      }
+      reference = stored.fields;
+      provider = undefined;
+    }
 
-    const { data: imageBuffer } = await axios.get(url, {
-      responseType: 'arraybuffer',
-      timeout: 45000
+    const { thumbnail, error } = await queueThumbnail({
+      userId,
+      ...cleanThumbnailInput(req.body, parent.toObject()),
+      ...custom,
+      ...reference,
+      seed: parent.seed,
+      provider,
+      parent_id: parent._id.toString(),
+    }).catch(async (error) => {
+      if (req.file) {
+        await deleteUnusedReference(reference.reference_image_key);
+      }
+      throw error;
     });
 
-    const finalBuffer = Buffer.from(imageBuffer);
-    console.log('✅ Image generated successfully');
-
-    // 🔥 VERCEL COMPATIBLE - DIRECT BUFFER UPLOAD (NO FILESYSTEM)
-    const uploadResult = await new Promise((resolve, reject) => {
-      const uploadStream = cloudinary.uploader.upload_stream(
-        { resource_type: 'image' },
-        (error, result) => {
-          if (error) {
-            console.error('Cloudinary upload failed:', error);
-            reject(error);
-          } else {
-            resolve(result);
-          }
-        }
-      );
-      uploadStream.end(finalBuffer);
-    });
+    if (!thumbnail) {
+      if (req.file) {
+        await deleteUnusedReference(reference.reference_image_key);
+      }
+      return res.status(402).json({ message: error });
+    }
+
+    res.status(202).json({ message: 'Thumbnail remix queued', thumbnail });
+
+  } catch (error: any) {
+    console.error('💥 FULL ERROR:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Deletes the thumbnail with its stored images. Returns false when the user has
+// no such thumbnail. Shared with the v1 API.
+export const removeThumbnail = async (userId: string, id: string) => {
+
+  const result = await Thumbnail.findOneAndDelete({ _id: id, userId });
+
+  if (!result) {
+    return false;
+  }
 
-    const cloudinaryResult = uploadResult as any;
-    thumbnail.image_url = cloudinaryResult.secure_url;
-    thumbnail.isGenerating = false;
+  // an unfinished generation gives its credits back
+  if (await cancelJobs(id)) {
+    await refundCredits(result.userId, id);
+  }
+  await deleteStoredImages(getThumbnailImageKeys(result));
+  await deleteUnusedReference(result.reference_image_key);
+
+  return true;
+};
+
+export const deleteThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    if (!await removeThumbnail(userId as string, id as string)) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    res.json({ message: "Thumbnail deleted successfully" });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const cancelThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
+
+    if (!thumbnail) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    if (thumbnail.status !== 'queued' && thumbnail.status !== 'running') {
+      return res.status(409).json({ message: `Thumbnail is already ${thumbnail.status}` });
+    }
+
+    // the worker may have finished since the read above; only a job that was
+    // still queued or running is cancelled and refunded
+    if (!await cancelJobs(id as string)) {
+      const current = await Thumbnail.findById(id).select('status');
+      return res.status(409).json({ message: `Thumbnail is already ${current?.status || 'finished'}` });
+    }
+
+    const cancelled = await Thumbnail.findOneAndUpdate(
+      { _id: id, status: { $in: ['queued', 'running'] } },
+      { status: 'cancelled' },
+      { new: true }
+    );
+    await refundCredits(thumbnail.userId, id as string);
+
+    res.json({ message: "Thumbnail generation cancelled", thumbnail: cancelled || thumbnail });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Swap one of the stored alternates in as the primary image_url
+
+export const setPrimaryImage = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+    const { image_url } = req.body;
+
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
+
+    if (!thumbnail) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    const alternates = thumbnail.alternates || [];
+    const index = alternates.findIndex((alternate: any) => alternate.image_url === image_url);
+
+    if (index === -1) {
+      return res.status(400).json({ message: "Image is not an alternate of this thumbnail" });
+    }
+
+    const [chosen] = alternates.splice(index, 1);
+    alternates.unshift({ image_url: thumbnail.image_url, image_key: thumbnail.image_key, seed: thumbnail.seed, provider: thumbnail.provider, model: thumbnail.model });
+    thumbnail.image_url = chosen.image_url;
+    thumbnail.image_key = chosen.image_key;
+    thumbnail.seed = chosen.seed;
+    thumbnail.provider = chosen.provider;
+    thumbnail.model = chosen.model;
+    thumbnail.alternates = alternates;
     await thumbnail.save();
 
-    console.log('☁️ Cloudinary upload success:', cloudinaryResult.secure_url);
-    console.log('🎉 Thumbnail generation COMPLETE');
-    res.json({ message: 'Thumbnail Generated', thumbnail });
+    res.json({ message: "Primary image updated", thumbnail });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Streams the image through the API with a proper Content-Disposition, so the
+// client doesn't depend on storage-specific URL tricks. ?alternate=<n> picks an alternate.
+
+export const downloadThumbnail = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+    const alternate = req.query.alternate !== undefined ? Number(req.query.alternate) : undefined;
+
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
+
+    if (!thumbnail) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    const image = alternate === undefined ? thumbnail : thumbnail.alternates?.[alternate];
+
+    if (!image?.image_url) {
+      return res.status(404).json({ message: "Image not found" });
+    }
+
+    const { body, contentType } = await readStoredImage(image);
+
+    const extension = (contentType || 'image/png').split('/')[1].replace('jpeg', 'jpg');
+    const slug = slugify(thumbnail.title);
+
+    res.setHeader('Content-Type', contentType || 'image/png');
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}.${extension}"`);
+    res.send(body);
 
   } catch (error: any) {
-    console.error('💥 FULL ERROR:', error);
     res.status(500).json({ message: error.message });
   }
 };
 
-// CORE IMAGE GENERATION WITH FAIL-SAFE FALLBACKS
-async function generateImageWithFallbacks(
-  prompt: string,
-  width: number,
-  height: number
-): Promise<Buffer> {
-  const services = [
-    // 1. Primary: Pollinations.ai (when working)
-    async () => {
-      const url = `https://pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${Date.now()}`;
-      console.log("🌐 Trying Pollinations.ai:", url.split('?')[0] + '?...');
-
-      const response = await axios.get(url, {
-        responseType: "arraybuffer",
-        timeout: 25000,
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-          Accept: "image/*",
-          Referer: "https://pollinations.ai/",
-        },
-      });
-      console.log("✅ Pollinations.ai SUCCESS");
-      return response.data;
-    },
-
-    // 2. Secondary: Picsum (placeholder images)
-    async () => {
-      const url = `https://picsum.photos/${width}/${height}?random=${Date.now()}&blur=0.5`;
-      console.log("🔄 Fallback: Picsum Photos");
-
-      const response = await axios.get(url, {
-        responseType: "arraybuffer",
-        timeout: 10000,
-      });
-      return response.data;
-    },
-
-    // 3. Tertiary: Unsplash (quality stock photos)
-    async () => {
-      const url = `https://source.unsplash.com/featured/${width}x${height}?ai,technology,abstract`;
-      console.log("🔄 Fallback: Unsplash");
-
-      const response = await axios.get(url, {
-        responseType: "arraybuffer",
-        timeout: 15000,
-      });
-      return response.data;
-    },
-
-    // 4. Ultimate fallback: Dummy image with text
-    async () => {
-      const url = `https://via.placeholder.com/${width}x${height}/4285f4/ffffff?text=AI+Thumbnail&font=roboto`;
-      console.log("🔄 Ultimate fallback: Dummy image");
-
-      const response = await axios.get(url, {
-        responseType: "arraybuffer",
-        timeout: 5000,
-      });
-      return response.data;
-    }
-  ];
-
-  // Try each service with exponential backoff
-  for (let i = 0; i < services.length; i++) {
-    try {
-      if (i > 0) {
-        // Backoff for retries: 1s, 2s, 4s
-        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, i - 1)));
-      }
+// Offline quality report for the primary image. The report stored by the
+// generation job is reused while it still matches the image, ?refresh=true
+// measures again.
 
-      return await services[i]();
+export const analyzeThumbnailQuality = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
 
-    } catch (error: any) {
-      console.log(`❌ Service ${i + 1} failed:`, error.response?.status || error.code || error.message);
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
 
-      if (i === services.length - 1) {
-        throw new Error("All image services failed");
-      }
+    if (!thumbnail?.image_url) {
+      return res.status(404).json({ message: "Thumbnail not found" });
     }
+
+    if (thumbnail.quality?.image_url === thumbnail.image_url && req.query.refresh !== 'true') {
+      return res.json({ quality: thumbnail.quality });
+    }
+
+    const { body } = await readStoredImage(thumbnail);
+    thumbnail.quality = { ...await analyzeImage(body), image_url: thumbnail.image_url, analyzedAt: new Date() };
+    await thumbnail.save();
+
+    res.json({ quality: thumbnail.quality });
+
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
   }
+};
 
-  throw new Error("No image services available");
-}
+// Shared query parsing for the export routes: format, fit and an optional max_kb target
+const parseExportOptions = (query: any) => {
 
-export const deleteThumbnail = async (req: Request, res: Response) => {
+  const format = (EXPORT_FORMATS.includes(query.format) ? query.format : 'jpeg') as ExportFormat;
+  const fit = (EXPORT_FITS.includes(query.fit) ? query.fit : 'auto') as ExportFit;
+  const maxBytes = Number(query.max_kb) > 0 ? Number(query.max_kb) * 1024 : undefined;
+
+  return { format, fit, maxBytes };
+};
+
+// Resize one thumbnail to a platform preset, e.g. ?preset=youtube&format=jpeg&max_kb=2048
+
+export const exportThumbnail = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { userId } = req.session || {};
+    const userId = getUserId(req);
+    const preset = req.query.preset as ExportPreset;
+
+    if (!Object.hasOwn(EXPORT_PRESETS, preset)) {
+      return res.status(400).json({ message: `Unknown preset, use one of: ${Object.keys(EXPORT_PRESETS).join(', ')}` });
+    }
 
-    const result = await Thumbnail.findOneAndDelete({ _id: id, userId });
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
 
-    if (!result) {
+    if (!thumbnail?.image_url) {
       return res.status(404).json({ message: "Thumbnail not found" });
     }
 
-    res.json({ message: "Thumbnail deleted successfully" });
+    const { body: source } = await readStoredImage(thumbnail);
+    const { body, contentType, extension, fitsTarget } = await exportImage(source, { preset, ...parseExportOptions(req.query) });
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${slugify(thumbnail.title)}-${preset}.${extension}"`);
+    // lets scripts notice when even the lowest quality missed the size target
+    res.setHeader('X-Export-Fits-Target', String(fitsTarget));
+    res.send(body);
+
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Every preset (or ?presets=youtube,og) in one ZIP
+
+export const exportThumbnailZip = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const requested = typeof req.query.presets === 'string' ? req.query.presets.split(',') : Object.keys(EXPORT_PRESETS);
+    const presets = requested.filter((preset) => Object.hasOwn(EXPORT_PRESETS, preset)) as ExportPreset[];
+
+    if (!presets.length) {
+      return res.status(400).json({ message: `No valid presets, use: ${Object.keys(EXPORT_PRESETS).join(', ')}` });
+    }
+
+    const thumbnail = await Thumbnail.findOne({ _id: id, userId });
+
+    if (!thumbnail?.image_url) {
+      return res.status(404).json({ message: "Thumbnail not found" });
+    }
+
+    const { body: source } = await readStoredImage(thumbnail);
+    const options = parseExportOptions(req.query);
+    const slug = slugify(thumbnail.title);
+
+    // render everything first so a failure can still answer with a JSON error
+    const files = [];
+    for (const preset of presets) {
+      const { body, extension } = await exportImage(source, { preset, ...options });
+      files.push({ name: `${slug}-${preset}.${extension}`, body });
+    }
+
+    const archive = new ZipArchive({ zlib: { level: 9 } });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}-exports.zip"`);
+    archive.on('error', (error) => res.destroy(error));
+    archive.pipe(res);
+
+    for (const file of files) {
+      archive.append(file.body, { name: file.name });
+    }
+    await archive.finalize();
+
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Server-Sent Events stream of a thumbnail's generation. The worker may run in
+// another process, so changes are picked up by polling Mongo on the server side.
+export const streamThumbnailEvents = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = getUserId(req);
+
+  const sendEvent = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let lastStatus = '';
+  let sentEvents = 0;
+  let closed = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  req.on('close', () => {
+    closed = true;
+    clearTimeout(timer);
+  });
+
+  const poll = async () => {
+    try {
+      const thumbnail = await Thumbnail.findOne({ _id: id, userId });
+
+      if (!thumbnail) {
+        sendEvent('stream_error', { message: 'Thumbnail not found' });
+        return res.end();
+      }
+
+      const job = await Job.findOne({ thumbnailId: id }).sort({ createdAt: -1 }).select('events');
+      const events = job?.events || [];
+
+      for (const event of events.slice(sentEvents)) {
+        sendEvent('progress', event);
+      }
+      sentEvents = events.length;
+
+      if (thumbnail.status !== lastStatus) {
+        lastStatus = thumbnail.status;
+        sendEvent('status', { status: thumbnail.status, attempts: thumbnail.attempts, error: thumbnail.error });
+      }
+
+      if (TERMINAL_STATUSES.includes(thumbnail.status)) {
+        sendEvent('done', { thumbnail });
+        return res.end();
+      }
+
+      // comment line keeps proxies from closing an idle stream
+      res.write(': ping\n\n');
+
+    } catch (error: any) {
+      sendEvent('stream_error', { message: error.message });
+      return res.end();
+    }
+
+    if (!closed) {
+      timer = setTimeout(poll, EVENTS_POLL_MS);
+    }
+  };
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  await poll();
+};
+
+// Rewrites the title and "Additional Prompts" text into a fuller visual brief.
+// Nothing is saved; the client shows it for the user to accept or edit.
+
+export const enhanceThumbnailPrompt = async (req: Request, res: Response) => {
+  try {
+    const { title, prompt, style } = req.body;
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return res.status(400).json({ message: "Title is required" });
+    }
+
+    const enhanced = await enhancePrompt({
+      title: title.trim().slice(0, 200),
+      details: typeof prompt === 'string' ? prompt.trim().slice(0, 1000) : '',
+      style: typeof style === 'string' ? style : undefined,
+    });
+
+    res.json({ enhanced });
+
+  } catch (error: any) {
+    console.error('💥 FULL ERROR:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Short overlay headlines for a title, scored and sorted best first
+
+export const suggestThumbnailHooks = async (req: Request, res: Response) => {
+  try {
+    const { title, prompt, count } = req.body;
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return res.status(400).json({ message: "Title is required" });
+    }
+
+    const suggestions = await suggestHooks({
+      title: title.trim().slice(0, 200),
+      details: typeof prompt === 'string' ? prompt.trim().slice(0, 1000) : '',
+      count: Math.min(Math.max(parseInt(count) || MAX_HOOKS, MIN_HOOKS), MAX_HOOKS),
+    });
+
+    res.json(suggestions);
+
   } catch (error: any) {
+    console.error('💥 FULL ERROR:', error);
     res.status(500).json({ message: error.message });
   }
 };
@@ -1,13 +1,15 @@
 
 import { Request,Response } from "express"
 import Thumbnail from "../models/Thumbnail.js";
+import { getCreditBalance } from "../credits/ledger.js";
+import { getUserId } from "../middlewares/auth.js";
 
 // Controller to get All User Thumbnails
 
 export const getUserThumbnails = async(req:Request,res:Response)=>{
 
     try {
-        const {userId} = req.session;
+        const userId = getUserId(req);
 
         const thumbnails = await Thumbnail.find({userId}).sort({createdAt:-1})
         res.json({thumbnails})
@@ -26,7 +28,7 @@ export const getThumbnailbyId = async(req:Request,res:Response)=>{
 
     try {
         
-        const {userId} = req.session
+        const userId = getUserId(req)
         const {id} = req.params;
 
         const thumbnail = await Thumbnail.findOne({userId,_id:id})
@@ -38,3 +40,21 @@ export const getThumbnailbyId = async(req:Request,res:Response)=>{
     }
 
 }
+
+
+// Controller to get the User's plan and credits left this month
+
+export const getCredits = async(req:Request,res:Response)=>{
+
+    try {
+        const userId = getUserId(req);
+
+        const credits = await getCreditBalance(userId as string)
+        res.json({credits})
+
+    } catch (error:any) {
+        console.log(error);
+        res.status(500).json({message:error.message});
+    }
+
+}
@@ -0,0 +1,88 @@
+import CreditLedger from "../models/CreditLedger.js";
+import User from "../models/User.js";
+import { getPlan } from "../configs/plans.js";
+
+// Monthly generation credits. Charging is a single conditional $inc on the
+// month's ledger, so concurrent requests can never spend past the quota.
+
+export const currentPeriod = (date = new Date()) => date.toISOString().slice(0, 7);
+
+// First moment of the next UTC month
+const periodResetsAt = (period: string) => {
+
+    const [year, month] = period.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 1));
+};
+
+export const getCreditBalance = async (userId: string) => {
+
+    const user = await User.findById(userId).select('plan');
+    const plan = getPlan(user?.plan);
+    const period = currentPeriod();
+
+    const ledger = await CreditLedger.findOne({ userId, period }).select('used');
+    const used = ledger?.used || 0;
+
+    return {
+        plan: user?.plan as string,
+        plan_label: plan.label,
+        limit: plan.monthly_credits,
+        used,
+        remaining: plan.monthly_credits === null ? null : Math.max(0, plan.monthly_credits - used),
+        period,
+        resets_at: periodResetsAt(period),
+    };
+};
+
+// Spends `amount` credits for a generation. Returns an error message meant for a
+// 402 response when the plan's monthly quota doesn't cover it.
+export const chargeCredits = async (userId: string, amount: number, thumbnailId: string) => {
+
+    const user = await User.findById(userId).select('plan');
+    const plan = getPlan(user?.plan);
+    const period = currentPeriod();
+
+    // make sure this month's ledger exists; a parallel request may create it first
+    await CreditLedger.updateOne({ userId, period }, { $setOnInsert: { used: 0 } }, { upsert: true })
+        .catch((error) => { if (error.code !== 11000) throw error; });
+
+    const quota = plan.monthly_credits === null ? {} : { used: { $lte: plan.monthly_credits - amount } };
+
+    const ledger = await CreditLedger.findOneAndUpdate(
+        { userId, period, ...quota },
+        { $inc: { used: amount }, $push: { entries: { type: 'charge', amount, thumbnailId, at: new Date() } } },
+        { new: true }
+    );
+
+    if (ledger) {
+        return { period };
+    }
+
+    const { remaining, limit, resets_at } = await getCreditBalance(userId);
+    const resets = resets_at.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+    return {
+        error: remaining
+            ? `This needs ${amount} credits but you only have ${remaining} left this month. Generate fewer variations or upgrade your plan.`
+            : `You've used all ${limit} credits of your ${plan.label} plan this month. Credits reset on ${resets}, or upgrade your plan to keep generating.`
+    };
+};
+
+// Gives back what a generation was charged, in the month it was charged. Safe to
+// call more than once or for generations that were never charged.
+export const refundCredits = async (userId: string, thumbnailId: string) => {
+
+    const charged = await CreditLedger.findOne({ userId, entries: { $elemMatch: { type: 'charge', thumbnailId } } });
+    const charge = charged?.entries.find((entry: any) => entry.type === 'charge' && entry.thumbnailId === thumbnailId);
+
+    if (!charge) {
+        return 0;
+    }
+
+    const result = await CreditLedger.updateOne(
+        { _id: charged._id, entries: { $not: { $elemMatch: { type: 'refund', thumbnailId } } } },
+        { $inc: { used: -charge.amount }, $push: { entries: { type: 'refund', amount: charge.amount, thumbnailId, at: new Date() } } }
+    );
+
+    return result.modifiedCount ? charge.amount : 0;
+};
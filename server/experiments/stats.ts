@@ -0,0 +1,84 @@
+import { IExperimentVariant } from "../models/Experiment.js";
+
+// CTR statistics for an experiment. Intervals are Wilson score intervals and
+// the confidence is a two-proportion z-test of the leader against the
+// runner-up, which is plenty for "is this difference real yet?".
+
+export const MIN_IMPRESSIONS = 100;
+export const CONFIDENCE_LEVEL = 0.95;
+
+const Z_95 = 1.96;
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+const normalCdf = (z: number) => {
+
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const wilsonInterval = (clicks: number, impressions: number) => {
+
+  if (!impressions) {
+    return { low: 0, high: 0 };
+  }
+
+  const p = clicks / impressions;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * impressions)) / (1 + z2 / impressions);
+  const margin = Z_95 * Math.sqrt(p * (1 - p) / impressions + z2 / (4 * impressions * impressions)) / (1 + z2 / impressions);
+
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+};
+
+// Probability that `a` really has the higher CTR than `b`
+const confidenceAbove = (a: IExperimentVariant, b: IExperimentVariant) => {
+
+  if (!a.impressions || !b.impressions) {
+    return 0;
+  }
+
+  const pa = a.clicks / a.impressions;
+  const pb = b.clicks / b.impressions;
+  const pooled = (a.clicks + b.clicks) / (a.impressions + b.impressions);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.impressions + 1 / b.impressions));
+
+  if (!se) {
+    return pa > pb ? 1 : 0.5;
+  }
+
+  return normalCdf((pa - pb) / se);
+};
+
+export const getExperimentStats = (tracked: IExperimentVariant[]) => {
+
+  // the track endpoint rejects clicks without an impression, but concurrent
+  // batches can still overshoot; a CTR above 1 would break the statistics
+  const variants = tracked.map(({ thumbnailId, label, impressions, clicks }) => ({ thumbnailId, label, impressions, clicks: Math.min(clicks, impressions) }));
+
+  const rows = variants.map((variant) => ({
+    thumbnailId: variant.thumbnailId,
+    label: variant.label,
+    impressions: variant.impressions,
+    clicks: variant.clicks,
+    ctr: variant.impressions ? variant.clicks / variant.impressions : 0,
+    interval: wilsonInterval(variant.clicks, variant.impressions),
+  }));
+
+  const ranked = [...variants].sort((a, b) => (b.impressions ? b.clicks / b.impressions : 0) - (a.impressions ? a.clicks / a.impressions : 0));
+  const [leader, runnerUp] = ranked;
+
+  const confidence = leader && runnerUp ? confidenceAbove(leader, runnerUp) : 0;
+  const enoughData = variants.every((variant) => variant.impressions >= MIN_IMPRESSIONS);
+
+  return {
+    variants: rows,
+    leader: leader?.thumbnailId,
+    confidence,
+    // a leader is only worth declaring once every variant has been seen enough
+    significant: enoughData && confidence >= CONFIDENCE_LEVEL,
+    min_impressions: MIN_IMPRESSIONS,
+  };
+};
@@ -0,0 +1,88 @@
+import sharp, { Sharp } from "sharp";
+
+// Platform sizes a single generation can be exported to. maxBytes is the
+// platform's upload limit, used as the default target file size.
+
+export const EXPORT_PRESETS = {
+    "youtube": { label: "YouTube", width: 1280, height: 720, maxBytes: 2 * 1024 * 1024 },
+    "shorts": { label: "YouTube Shorts", width: 1080, height: 1920, maxBytes: 2 * 1024 * 1024 },
+    "instagram-square": { label: "Instagram Square", width: 1080, height: 1080, maxBytes: 8 * 1024 * 1024 },
+    "instagram-portrait": { label: "Instagram Portrait", width: 1080, height: 1350, maxBytes: 8 * 1024 * 1024 },
+    "og": { label: "X / Open Graph", width: 1200, height: 630, maxBytes: 5 * 1024 * 1024 },
+};
+
+export const EXPORT_FORMATS = ["png", "jpeg", "webp"] as const;
+export const EXPORT_FITS = ["auto", "crop", "pad"] as const;
+
+export type ExportPreset = keyof typeof EXPORT_PRESETS;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportFit = (typeof EXPORT_FITS)[number];
+
+// Cropping more than this share of the image loses too much, pad instead
+const MAX_CROP_LOSS = 0.25;
+
+const resize = async (image: Buffer, width: number, height: number, fit: ExportFit) => {
+
+    const { width: sourceWidth = width, height: sourceHeight = height } = await sharp(image).metadata();
+    const sourceRatio = sourceWidth / sourceHeight;
+    const targetRatio = width / height;
+    const cropLoss = 1 - Math.min(sourceRatio, targetRatio) / Math.max(sourceRatio, targetRatio);
+
+    if (fit === 'crop' || (fit === 'auto' && cropLoss <= MAX_CROP_LOSS)) {
+        // "attention" keeps the most salient region (faces, high contrast) in frame
+        return sharp(image).resize(width, height, { fit: 'cover', position: sharp.strategy.attention }).toBuffer();
+    }
+
+    // pad: the whole image over a blurred, darkened fill of itself
+    const background = await sharp(image)
+        .resize(width, height, { fit: 'cover' })
+        .blur(30)
+        .modulate({ brightness: 0.6 })
+        .toBuffer();
+
+    const foreground = await sharp(image).resize(width, height, { fit: 'inside' }).toBuffer();
+
+    return sharp(background).composite([{ input: foreground, gravity: 'center' }]).toBuffer();
+}
+
+// Encodes at decreasing quality until the file fits maxBytes. PNG has no quality
+// knob, so it falls back to palette quantisation with fewer and fewer colours.
+const encode = async (image: Buffer, format: ExportFormat, maxBytes: number) => {
+
+    const attempts: ((pipeline: Sharp) => Sharp)[] = format === 'png'
+        ? [
+            (p) => p.png({ compressionLevel: 9 }),
+            ...[256, 128, 64].map((colours) => (p: Sharp) => p.png({ compressionLevel: 9, palette: true, colours })),
+        ]
+        : [92, 85, 75, 65, 55, 45, 35].map((quality) => (p: Sharp) =>
+            format === 'jpeg' ? p.jpeg({ quality, mozjpeg: true }) : p.webp({ quality }));
+
+    let smallest: Buffer | undefined;
+
+    for (const attempt of attempts) {
+        const output = await attempt(sharp(image)).toBuffer();
+        if (output.length <= maxBytes) {
+            return { body: output, fitsTarget: true };
+        }
+        if (!smallest || output.length < smallest.length) {
+            smallest = output;
+        }
+    }
+
+    return { body: smallest as Buffer, fitsTarget: false };
+}
+
+export const exportImage = async (image: Buffer, { preset, format, fit = 'auto', maxBytes }: { preset: ExportPreset; format: ExportFormat; fit?: ExportFit; maxBytes?: number }) => {
+
+    const { width, height, maxBytes: presetMaxBytes } = EXPORT_PRESETS[preset];
+
+    const resized = await resize(image, width, height, fit);
+    const { body, fitsTarget } = await encode(resized, format, maxBytes || presetMaxBytes);
+
+    return {
+        body,
+        fitsTarget,
+        contentType: `image/${format}`,
+        extension: format === 'jpeg' ? 'jpg' : format,
+    };
+}
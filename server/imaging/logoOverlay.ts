@@ -0,0 +1,64 @@
+import sharp from "sharp";
+
+// Composites a brand logo into a corner of a generated image, like a watermark.
+
+export const LOGO_POSITIONS = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+export type LogoPosition = (typeof LOGO_POSITIONS)[number];
+
+export interface LogoOptions {
+  position: LogoPosition;
+  // logo width as a share of the image width
+  scale: number;
+  opacity: number;
+}
+
+export const DEFAULT_LOGO_OPTIONS: LogoOptions = {
+  position: 'bottom-right',
+  scale: 0.15,
+  opacity: 1,
+};
+
+const MAX_LOGO_SIDE = 1024;
+const MARGIN = 0.03;
+
+// Stored logos are PNG so transparency survives; large uploads are scaled down
+export const prepareLogo = async (input: Buffer) => {
+
+  try {
+    await sharp(input).metadata();
+  } catch {
+    throw new Error('Logo is not a supported image file');
+  }
+
+  return sharp(input)
+    .rotate()
+    .resize(MAX_LOGO_SIDE, MAX_LOGO_SIDE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+};
+
+export const applyLogo = async (image: Buffer, logo: Buffer, options: LogoOptions = DEFAULT_LOGO_OPTIONS) => {
+
+  const { width = 1024, height = 576, format } = await sharp(image).metadata();
+
+  // fit the logo in a box relative to the image width, never taller than a quarter of it
+  const box = Math.round(width * Math.min(Math.max(options.scale, 0.05), 0.4));
+  let resized = sharp(logo).resize(box, Math.round(height / 4), { fit: 'inside' }).ensureAlpha();
+
+  if (options.opacity < 1) {
+    const alpha = Math.round(Math.min(Math.max(options.opacity, 0.1), 1) * 255);
+    resized = resized.composite([{ input: Buffer.from([255, 255, 255, alpha]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: 'dest-in' }]);
+  }
+
+  const layer = await resized.png().toBuffer({ resolveWithObject: true });
+  const margin = Math.round(Math.min(width, height) * MARGIN);
+
+  const [vertical, horizontal] = options.position.split('-');
+  const left = horizontal === 'left' ? margin : width - layer.info.width - margin;
+  const top = vertical === 'top' ? margin : height - layer.info.height - margin;
+
+  return sharp(image)
+    .composite([{ input: layer.data, left, top }])
+    .toFormat(format || 'png')
+    .toBuffer();
+};
@@ -0,0 +1,207 @@
+import sharp from "sharp";
+
+// Offline quality checks for a finished thumbnail. Everything is measured on
+// small raw copies of the image with sharp, so it is cheap enough to run after
+// every generation. All metrics are 0-1.
+
+export interface QualityMetrics {
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    edge_density: number;
+    legibility: number;
+}
+
+export interface QualityReport {
+    score: number;
+    metrics: QualityMetrics;
+    dominant_colors: { hex: string; share: number }[];
+    small_sizes: { width: number; height: number; legibility: number }[];
+    warnings: { metric: keyof QualityMetrics; message: string }[];
+}
+
+// The smallest places YouTube shows a thumbnail: related videos sidebar,
+// mobile search results and the medium default size
+export const SMALL_SIZES = [
+    { width: 168, height: 94 },
+    { width: 246, height: 138 },
+    { width: 320, height: 180 },
+];
+
+// Each metric scores 1 inside its good range and falls off linearly to 0 at
+// the outer bounds. The weights add up to 100.
+const RANGES: Record<keyof QualityMetrics, { weight: number; min: number; low: number; high: number; max: number }> = {
+    brightness: { weight: 15, min: 0.08, low: 0.25, high: 0.7, max: 0.9 },
+    contrast: { weight: 25, min: 0.04, low: 0.15, high: 0.35, max: 0.45 },
+    saturation: { weight: 15, min: 0.05, low: 0.25, high: 0.75, max: 0.95 },
+    edge_density: { weight: 15, min: 0.005, low: 0.02, high: 0.18, max: 0.35 },
+    legibility: { weight: 30, min: 0.2, low: 0.6, high: 1, max: 1 },
+};
+
+const WARNINGS: Record<keyof QualityMetrics, { low: string; high: string }> = {
+    brightness: {
+        low: 'The image is very dark and will disappear on a dark feed. Brighten the subject or the background.',
+        high: 'The image is washed out. Darken the background or add a darker element for the subject to stand out.',
+    },
+    contrast: {
+        low: 'Contrast is low, so the subject blends into the background. Use darker shadows, a rim light or a contrasting backdrop.',
+        high: 'Contrast is harsh enough to lose detail in the shadows or highlights. Soften the lighting a little.',
+    },
+    saturation: {
+        low: 'Colors are dull. A bolder color scheme stands out better among other thumbnails.',
+        high: 'Colors are oversaturated and may look cheap or clip. Tone the palette down slightly.',
+    },
+    edge_density: {
+        low: 'There is very little detail. Add a clear subject or text so the thumbnail says something.',
+        high: 'The image is busy. Simplify the background and focus on one subject so it reads at a glance.',
+    },
+    legibility: {
+        low: 'The image loses its shapes at small sizes. Use a bigger subject, fewer elements and bold, high-contrast text.',
+        high: '',
+    },
+};
+
+const SAMPLE_WIDTH = 640;
+const EDGE_THRESHOLD = 0.15;
+const STRONG_EDGE_THRESHOLD = 0.3;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const toHex = (r: number, g: number, b: number) => '#' + [r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Raw RGB plus a 0-1 luminance plane at the given size
+const sample = async (image: Buffer, width: number, height?: number) => {
+
+    const { data, info } = await sharp(image)
+        .flatten({ background: '#000000' })
+        .resize(width, height, { fit: height ? 'inside' : 'cover' })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const luminance = new Float32Array(info.width * info.height);
+    for (let i = 0; i < luminance.length; i++) {
+        luminance[i] = (0.2126 * data[i * 3] + 0.7152 * data[i * 3 + 1] + 0.0722 * data[i * 3 + 2]) / 255;
+    }
+
+    return { data, luminance, width: info.width, height: info.height };
+};
+
+const standardDeviation = (values: Float32Array) => {
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+    return { mean, deviation: Math.sqrt(variance) };
+};
+
+// Share of pixels whose Sobel gradient is above the threshold
+const edgeShare = (luminance: Float32Array, width: number, height: number, threshold: number) => {
+
+    let edges = 0;
+    const at = (x: number, y: number) => luminance[y * width + x];
+
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+            const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+
+            // a full black-to-white step gives a magnitude of 4
+            if (Math.hypot(gx, gy) / 4 > threshold) edges++;
+        }
+    }
+
+    return edges / Math.max(1, (width - 2) * (height - 2));
+};
+
+const averageSaturation = (data: Buffer) => {
+
+    let total = 0;
+    const pixels = data.length / 3;
+
+    for (let i = 0; i < data.length; i += 3) {
+        const max = Math.max(data[i], data[i + 1], data[i + 2]);
+        const min = Math.min(data[i], data[i + 1], data[i + 2]);
+        total += max === 0 ? 0 : (max - min) / max;
+    }
+
+    return total / pixels;
+};
+
+// Colors bucketed to 4 bits per channel, most common first, reported as the
+// average of the pixels in each bucket
+const dominantColors = (data: Buffer, count = 5) => {
+
+    const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+
+    for (let i = 0; i < data.length; i += 3) {
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, n: 0 };
+        bucket.r += data[i];
+        bucket.g += data[i + 1];
+        bucket.b += data[i + 2];
+        bucket.n++;
+        buckets.set(key, bucket);
+    }
+
+    const pixels = data.length / 3;
+
+    return [...buckets.values()]
+        .sort((a, b) => b.n - a.n)
+        .slice(0, count)
+        .map(({ r, g, b, n }) => ({ hex: toHex(Math.round(r / n), Math.round(g / n), Math.round(b / n)), share: round(n / pixels) }));
+};
+
+// How much of the image still reads once shrunk: overall contrast plus bold
+// edges (big shapes, thick text) that survive the downscale
+const smallSizeLegibility = async (image: Buffer, width: number, height: number) => {
+
+    const small = await sample(image, width, height);
+    const { deviation } = standardDeviation(small.luminance);
+    const strongEdges = edgeShare(small.luminance, small.width, small.height, STRONG_EDGE_THRESHOLD);
+
+    return clamp01(deviation / 0.25) * 0.6 + clamp01(strongEdges / 0.06) * 0.4;
+};
+
+const scoreMetric = (value: number, { min, low, high, max }: typeof RANGES[keyof QualityMetrics]) => {
+
+    if (value < low) return clamp01((value - min) / (low - min));
+    if (value > high) return clamp01((max - value) / (max - high));
+    return 1;
+};
+
+export const analyzeImage = async (image: Buffer): Promise<QualityReport> => {
+
+    const full = await sample(image, SAMPLE_WIDTH);
+    const { mean, deviation } = standardDeviation(full.luminance);
+
+    const small_sizes = [];
+    for (const size of SMALL_SIZES) {
+        small_sizes.push({ ...size, legibility: round(await smallSizeLegibility(image, size.width, size.height)) });
+    }
+
+    const metrics: QualityMetrics = {
+        brightness: round(mean),
+        contrast: round(deviation),
+        saturation: round(averageSaturation(full.data)),
+        edge_density: round(edgeShare(full.luminance, full.width, full.height, EDGE_THRESHOLD)),
+        // the smallest size is the one that decides
+        legibility: small_sizes[0].legibility,
+    };
+
+    let score = 0;
+    const warnings: QualityReport['warnings'] = [];
+
+    for (const metric of Object.keys(RANGES) as (keyof QualityMetrics)[]) {
+        const range = RANGES[metric];
+        const value = metrics[metric];
+        score += range.weight * scoreMetric(value, range);
+
+        // only out-of-range values are worth a warning
+        if (value < range.low && WARNINGS[metric].low) warnings.push({ metric, message: WARNINGS[metric].low });
+        if (value > range.high && WARNINGS[metric].high) warnings.push({ metric, message: WARNINGS[metric].high });
+    }
+
+    return { score: Math.round(score), metrics, dominant_colors: dominantColors(full.data), small_sizes, warnings };
+};
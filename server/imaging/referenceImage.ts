@@ -0,0 +1,30 @@
+import sharp from "sharp";
+
+const MAX_REFERENCE_SIDE = 1536;
+const MIN_REFERENCE_SIDE = 64;
+
+// Validates an uploaded reference and stores a predictable copy: EXIF rotation
+// applied, metadata stripped, longest side capped. Throws for anything sharp
+// can't read or that is too small to be useful.
+export const prepareReferenceImage = async (input: Buffer) => {
+
+  let metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new Error('Reference image is not a supported image file');
+  }
+
+  if ((metadata.width || 0) < MIN_REFERENCE_SIDE || (metadata.height || 0) < MIN_REFERENCE_SIDE) {
+    throw new Error(`Reference image must be at least ${MIN_REFERENCE_SIDE}px on each side`);
+  }
+
+  const image = sharp(input)
+    .rotate()
+    .resize(MAX_REFERENCE_SIDE, MAX_REFERENCE_SIDE, { fit: 'inside', withoutEnlargement: true });
+
+  // keep transparency (logos, product cut-outs), everything else becomes JPEG
+  return metadata.hasAlpha
+    ? { body: await image.png().toBuffer(), contentType: 'image/png' }
+    : { body: await image.jpeg({ quality: 90 }).toBuffer(), contentType: 'image/jpeg' };
+};
@@ -0,0 +1,195 @@
+import sharp from "sharp";
+
+// Draws the headline on top of a generated image as an SVG layer, so the text is
+// crisp no matter what the diffusion model did with lettering.
+
+// Family lists are resolved through fontconfig, so the first installed font wins
+export const OVERLAY_FONTS = {
+    impact: { family: "Impact, Anton, Arial Black, sans-serif", weight: 400 },
+    sans: { family: "Montserrat, Helvetica Neue, Arial, sans-serif", weight: 800 },
+    serif: { family: "Playfair Display, Georgia, serif", weight: 700 },
+    rounded: { family: "Nunito, Arial Rounded MT Bold, sans-serif", weight: 800 },
+    mono: { family: "JetBrains Mono, Courier New, monospace", weight: 700 },
+};
+
+export const OVERLAY_POSITIONS = ["top-left", "top", "top-right", "center", "bottom-left", "bottom", "bottom-right"] as const;
+
+export type OverlayFont = keyof typeof OVERLAY_FONTS;
+export type OverlayPosition = (typeof OVERLAY_POSITIONS)[number];
+
+export interface OverlayStyle {
+    font: OverlayFont;
+    position: OverlayPosition;
+    color: string;
+    stroke: boolean;
+    shadow: boolean;
+    uppercase: boolean;
+}
+
+export const DEFAULT_OVERLAY_STYLE: OverlayStyle = {
+    font: 'impact',
+    position: 'bottom',
+    color: '#FFFFFF',
+    stroke: true,
+    shadow: true,
+    uppercase: true,
+};
+
+const LINE_HEIGHT = 1.1;
+const MAX_LINES = 3;
+
+const escapeXml = (text: string) =>
+    text.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+// Overlays are a punchy line or three. Layout tries every split of the words,
+// so the word count is what bounds its (synchronous) work.
+export const MAX_OVERLAY_WORDS = 12;
+export const MAX_OVERLAY_CHARS = 80;
+
+const MEASURE_SIZE = 100;
+// least recently used widths are dropped first (a Map iterates in insertion order)
+const WIDTH_CACHE_SIZE = 1000;
+const widthCache = new Map<string, number>();
+
+// Width in px at MEASURE_SIZE, rendered with Pango so it matches the installed font
+const measureWidth = async (text: string, font: OverlayFont) => {
+
+    const key = `${font}:${text}`;
+    const cached = widthCache.get(key);
+    if (cached !== undefined) {
+        widthCache.delete(key);
+        widthCache.set(key, cached);
+        return cached;
+    }
+
+    const { family, weight } = OVERLAY_FONTS[font];
+    const { info } = await sharp({
+        text: {
+            text: `<span font_family="${escapeXml(family)}" font_weight="${weight}" size="${MEASURE_SIZE * 1024}">${escapeXml(text)}</span>`,
+            rgba: true,
+            dpi: 72,
+        }
+    }).png().toBuffer({ resolveWithObject: true });
+
+    widthCache.set(key, info.width);
+    if (widthCache.size > WIDTH_CACHE_SIZE) {
+        widthCache.delete(widthCache.keys().next().value as string);
+    }
+    return info.width;
+}
+
+// Every way to split `count` words into `lineCount` consecutive lines
+const splitPoints = (count: number, lineCount: number): number[][] => {
+
+    if (lineCount === 1) {
+        return [[]];
+    }
+
+    const result: number[][] = [];
+    for (let first = 1; first <= count - lineCount + 1; first++) {
+        for (const rest of splitPoints(count - first, lineCount - 1)) {
+            result.push([first, ...rest.map((point) => point + first)]);
+        }
+    }
+    return result;
+}
+
+// Auto-fit: try every split into 1..MAX_LINES lines and keep the layout with the biggest font
+export const layoutText = async (text: string, width: number, height: number, font: OverlayFont) => {
+
+    // inputs are capped when the request is cleaned; this guards older records
+    const words = text.trim().split(/\s+/).filter(Boolean).slice(0, MAX_OVERLAY_WORDS);
+    const padding = Math.round(Math.min(width, height) * 0.05);
+    const maxWidth = width - padding * 2;
+    // tall images have room for a narrower but taller text block
+    const maxBlockHeight = height * (height > width ? 0.3 : 0.4);
+
+    const wordWidths = await Promise.all(words.map((word) => measureWidth(word, font)));
+    const spaceWidth = await measureWidth('x x', font) - 2 * await measureWidth('x', font);
+
+    let best = { lines: [text], fontSize: 0 };
+
+    for (let lineCount = 1; lineCount <= Math.min(MAX_LINES, words.length); lineCount++) {
+        for (const points of splitPoints(words.length, lineCount)) {
+            const bounds = [0, ...points, words.length];
+            const ranges = bounds.slice(0, -1).map((start, i) => [start, bounds[i + 1]]);
+
+            const widest = Math.max(...ranges.map(([start, end]) =>
+                wordWidths.slice(start, end).reduce((sum, w) => sum + w, 0) + spaceWidth * (end - start - 1)
+            ));
+
+            const fontSize = Math.min(
+                maxWidth / widest * MEASURE_SIZE,
+                maxBlockHeight / (lineCount * LINE_HEIGHT),
+                height * 0.22
+            );
+
+            if (fontSize > best.fontSize) {
+                best = { lines: ranges.map(([start, end]) => words.slice(start, end).join(' ')), fontSize };
+            }
+        }
+    }
+
+    return { lines: best.lines, fontSize: Math.floor(best.fontSize), padding };
+}
+
+export const buildOverlaySvg = async (text: string, width: number, height: number, style: OverlayStyle) => {
+
+    const content = style.uppercase ? text.toUpperCase() : text;
+    const { lines, fontSize, padding } = await layoutText(content, width, height, style.font);
+    const { family, weight } = OVERLAY_FONTS[style.font];
+
+    const [vertical, horizontal = 'center'] = style.position === 'center' ? ['center'] : style.position.split('-');
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const blockHeight = lineHeight * (lines.length - 1) + fontSize;
+
+    const x = horizontal === 'left' ? padding : horizontal === 'right' ? width - padding : width / 2;
+    const anchor = horizontal === 'left' ? 'start' : horizontal === 'right' ? 'end' : 'middle';
+
+    // y of the first baseline; cap height is roughly 0.8 of the font size
+    const top = vertical === 'top' ? padding
+        : vertical === 'bottom' ? height - padding - blockHeight
+            : (height - blockHeight) / 2;
+    const firstBaseline = top + fontSize * 0.8;
+
+    const strokeWidth = Math.max(2, Math.round(fontSize * 0.08));
+    const shadowOffset = Math.max(2, Math.round(fontSize * 0.05));
+
+    const tspans = lines.map((line, i) =>
+        `<tspan x="${x}" y="${Math.round(firstBaseline + i * lineHeight)}">${escapeXml(line)}</tspan>`
+    ).join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <defs>
+            <filter id="shadow" x="-10%" y="-10%" width="120%" height="130%">
+                <feGaussianBlur in="SourceAlpha" stdDeviation="${Math.round(fontSize * 0.04)}" />
+                <feOffset dx="${shadowOffset}" dy="${shadowOffset}" result="blur" />
+                <feFlood flood-color="black" flood-opacity="0.65" />
+                <feComposite in2="blur" operator="in" />
+                <feMerge><feMergeNode /><feMergeNode in="SourceGraphic" /></feMerge>
+            </filter>
+        </defs>
+        <text
+            font-family="${escapeXml(family)}" font-weight="${weight}" font-size="${fontSize}"
+            text-anchor="${anchor}" fill="${style.color}"
+            ${style.stroke ? `stroke="black" stroke-width="${strokeWidth}" stroke-linejoin="round" paint-order="stroke fill"` : ''}
+            ${style.shadow ? 'filter="url(#shadow)"' : ''}
+        >${tspans}</text>
+    </svg>`;
+}
+
+export const applyTextOverlay = async (image: Buffer, text: string, style: OverlayStyle) => {
+
+    const { width, height } = await sharp(image).metadata();
+
+    if (!width || !height || !text.trim()) {
+        return image;
+    }
+
+    const svg = await buildOverlaySvg(text, width, height, style);
+
+    return sharp(image)
+        .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+}
@@ -0,0 +1,216 @@
+import sharp from "sharp";
+import Thumbnail from "../models/Thumbnail.js";
+import CustomStyle from "../models/CustomStyle.js";
+import CustomPalette from "../models/CustomPalette.js";
+import BrandKit from "../models/BrandKit.js";
+import { generateImage } from "../configs/imageProviders.js";
+import { getStorage } from "../configs/storage.js";
+import { deleteStoredImages } from "../storage/cleanup.js";
+import { readStoredImage } from "../storage/readImage.js";
+import { applyTextOverlay, DEFAULT_OVERLAY_STYLE } from "../imaging/textOverlay.js";
+import { applyLogo } from "../imaging/logoOverlay.js";
+import { analyzeImage } from "../imaging/quality.js";
+import { compilePrompt, getActiveTemplate } from "../prompts/templates.js";
+import { describePalette } from "../prompts/palettes.js";
+import { isJobOwned, reportProgress } from "./queue.js";
+
+const aspectMap: Record<string, string> = {
+  '16:9': '1024x576',
+  '1:1': '1024x1024',
+  '9:16': '576x1024'
+};
+
+// Job handler: builds the prompt, calls the provider chain and uploads the result.
+// Returns the fields to store on the thumbnail once the job succeeds.
+export const generateThumbnailJob = async (job: any, signal: AbortSignal) => {
+
+  const thumbnail = await Thumbnail.findById(job.thumbnailId);
+  if (!thumbnail) {
+    throw new Error('Thumbnail no longer exists');
+  }
+
+  const { title, user_prompt, style, color_scheme, aspect_ratio } = thumbnail;
+
+  await reportProgress(job, { stage: 'prompt', message: 'Building prompt' });
+
+  const brand = await loadBrandKit(thumbnail);
+
+  // regenerations arrive with their parent's exact prompt (and template version),
+  // everything else is compiled here from the active template
+  let prompt = thumbnail.prompt_used;
+  let negative_prompt = thumbnail.negative_prompt;
+  let template = { template_id: thumbnail.template_id, template_version: thumbnail.template_version };
+
+  if (!prompt) {
+    const active = await getActiveTemplate();
+    const { style_prompt, color_prompt, negative } = await loadCustomChoices(thumbnail, brand);
+
+    prompt = compilePrompt(active.toObject(), { title, user_prompt, style, color_scheme, aspect_ratio, style_prompt, color_prompt });
+    negative_prompt = negative;
+    template = { template_id: active._id.toString(), template_version: active.version };
+  }
+
+  console.log('🎨 Generated prompt:', prompt);
+
+  const referenceImage = await loadReference(thumbnail);
+
+  const [width, height] = (aspectMap[aspect_ratio] || '1024x576').split('x').map(Number);
+  const count = Math.min(Math.max(Number(thumbnail.variation_count) || 1, 1), 4);
+
+  // every variation shares the prompt and gets its own seed; a seed or provider
+  // stored up front (regenerate / remix) is reused so the result is reproducible
+  const baseSeed = thumbnail.seed ?? Math.floor(Math.random() * 2147483647);
+  const variations: { buffer: Buffer; seed: number; provider: string; model: string }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    signal.throwIfAborted();
+    const seed = (baseSeed + i) % 2147483647;
+    const label = count > 1 ? ` (variation ${i + 1} of ${count})` : '';
+
+    const { buffer, provider, model } = await generateImage({
+      prompt,
+      width,
+      height,
+      aspectRatio: aspect_ratio,
+      seed,
+      negativePrompt: negative_prompt || undefined,
+      referenceImage
+    }, {
+      provider: thumbnail.provider,
+      signal,
+      onAttempt: ({ provider, status, error }) => reportProgress(job, {
+        stage: 'generating',
+        provider,
+        message: status === 'started' ? `Generating image with ${provider}${label}`
+          : status === 'failed' ? `${provider} failed: ${error}`
+            : `Image ready from ${provider}${label}`
+      })
+    });
+    console.log(`✅ Image generated successfully by ${provider}${label}`);
+
+    variations.push({ buffer: await addOverlay(thumbnail, buffer, brand), seed, provider, model });
+  }
+
+  // don't upload anything once the job timed out, or was cancelled or handed to
+  // another run while the provider was working
+  signal.throwIfAborted();
+  if (!await isJobOwned(job)) {
+    return null;
+  }
+
+  await reportProgress(job, { stage: 'uploading', message: count > 1 ? `Uploading ${count} images` : 'Uploading image' });
+
+  const uploaded = [];
+  try {
+    for (const { buffer, ...meta } of variations) {
+      signal.throwIfAborted();
+      uploaded.push({ ...await uploadImage(buffer), ...meta });
+    }
+  } catch (error) {
+    // the retry uploads everything again, drop what made it this time
+    await deleteStoredImages(uploaded.map((image) => image.image_key));
+    throw error;
+  }
+
+  // the timeout may have fired during the last upload, and nobody will store
+  // these anymore
+  if (signal.aborted) {
+    await deleteStoredImages(uploaded.map((image) => image.image_key));
+    signal.throwIfAborted();
+  }
+
+  // the first candidate starts as primary, the rest are kept as alternates
+  const [primary, ...alternates] = uploaded;
+  const quality = await analyzeQuality(variations[0].buffer, primary.image_url);
+
+  return { ...primary, alternates, prompt_used: prompt, negative_prompt, ...template, ...(quality && { quality }) };
+};
+
+type BrandAssets = Awaited<ReturnType<typeof loadBrandKit>>;
+
+// Prompt fragments from the user's own style and palette. One deleted since the
+// thumbnail was queued falls back to the template's built-in wording. Brand
+// colors, when the brand kit is on, take the place of the color scheme.
+const loadCustomChoices = async (thumbnail: any, brand: BrandAssets) => {
+
+  const [style, palette] = await Promise.all([
+    thumbnail.custom_style_id ? CustomStyle.findOne({ _id: thumbnail.custom_style_id, userId: thumbnail.userId }) : null,
+    thumbnail.custom_palette_id ? CustomPalette.findOne({ _id: thumbnail.custom_palette_id, userId: thumbnail.userId }) : null,
+  ]);
+
+  return {
+    style_prompt: style?.prompt as string | undefined,
+    negative: style?.negative_prompt as string | undefined,
+    color_prompt: brand?.colors.length ? `brand palette of ${describePalette(brand.colors)}`
+      : palette ? `palette of ${describePalette(palette.colors)}` : undefined,
+  };
+};
+
+// The user's brand kit with its logo loaded, when the thumbnail asks for it.
+// A kit removed since queueing just means nothing is applied.
+const loadBrandKit = async (thumbnail: any) => {
+
+  if (!thumbnail.use_brand_kit) {
+    return null;
+  }
+
+  const kit = await BrandKit.findOne({ userId: thumbnail.userId });
+  if (!kit) {
+    return null;
+  }
+
+  const logo = kit.logo_key || kit.logo_url
+    ? (await readStoredImage({ image_key: kit.logo_key, image_url: kit.logo_url })).body
+    : null;
+
+  return { colors: kit.colors as string[], font: kit.font as string | undefined, logo, logoOptions: { position: kit.logo_position, scale: kit.logo_scale, opacity: kit.logo_opacity } };
+};
+
+const loadReference = async (thumbnail: any) => {
+
+  if (!thumbnail.reference_image_key && !thumbnail.reference_image_url) {
+    return undefined;
+  }
+
+  const { body, contentType } = await readStoredImage({ image_key: thumbnail.reference_image_key, image_url: thumbnail.reference_image_url });
+  return { data: body, contentType: contentType || 'image/jpeg' };
+};
+
+// Renders the custom headline, or the title, onto the image when text_overlay is
+// on (in the brand font if the kit sets one), then the brand logo
+const addOverlay = async (thumbnail: any, buffer: Buffer, brand: BrandAssets) => {
+
+  if (thumbnail.text_overlay) {
+    const text = thumbnail.overlay_text || thumbnail.title;
+    const style = { ...DEFAULT_OVERLAY_STYLE, ...thumbnail.toObject().overlay_style, ...(brand?.font && { font: brand.font }) };
+
+    buffer = await applyTextOverlay(buffer, text, style);
+  }
+
+  if (brand?.logo) {
+    buffer = await applyLogo(buffer, brand.logo, brand.logoOptions);
+  }
+
+  return buffer;
+};
+
+// A failed analysis shouldn't fail the generation, the report is computed on
+// demand later instead
+const analyzeQuality = async (buffer: Buffer, image_url: string) => {
+
+  try {
+    return { ...await analyzeImage(buffer), image_url, analyzedAt: new Date() };
+  } catch (error: any) {
+    console.log('Quality analysis failed:', error.message);
+    return null;
+  }
+};
+
+const uploadImage = async (buffer: Buffer) => {
+
+  const { format } = await sharp(buffer).metadata();
+  const { key, url } = await getStorage().put(buffer, { contentType: `image/${format || 'png'}` });
+  console.log('☁️ Upload success:', url);
+
+  return { image_url: url, image_key: key };
+};
@@ -0,0 +1,161 @@
+import Job from "../models/Job.js";
+import Thumbnail from "../models/Thumbnail.js";
+import { refundCredits } from "../credits/ledger.js";
+
+// Mongo backed job queue. A job is claimed atomically by flipping it from
+// queued to running, so any number of workers can poll the same collection.
+
+const JOB_TIMEOUT_MS = Number(process.env.JOB_TIMEOUT_MS) || 60000;
+
+const RETRY_BASE_DELAY_MS = 5000;
+
+// A job no worker has picked up by then is failed (and refunded) rather than
+// left queued forever, e.g. on a deployment where no worker runs
+const QUEUE_TIMEOUT_MS = Number(process.env.JOB_QUEUE_TIMEOUT_MS) || 15 * 60 * 1000;
+
+// Multi-variation jobs run one provider call per variation, so they get a longer budget
+export const getJobTimeout = (job: any) => JOB_TIMEOUT_MS * (Number(job.payload?.variations) || 1);
+
+export const enqueueJob = async (type: string, { thumbnailId, userId, payload = {} }: { thumbnailId: string; userId: string; payload?: Record<string, any> }) => {
+
+    return Job.create({ type, thumbnailId, userId, payload, status: 'queued', runAt: new Date() });
+}
+
+// Mirror the job state on its thumbnail so the client only ever reads one document.
+// A job that ends up failed gives the user's credits back.
+const syncThumbnail = async (job: any, fields: Record<string, any> = {}) => {
+
+    const result = await Thumbnail.updateOne(
+        { _id: job.thumbnailId },
+        { status: job.status, attempts: job.attempts, error: job.error, ...fields }
+    );
+
+    if (job.status === 'failed') {
+        await refundCredits(job.userId, job.thumbnailId);
+    }
+
+    return result.matchedCount > 0;
+}
+
+// Jobs whose worker crashed or hung stay "running" with an old lock; put them
+// back in the queue, or fail them once they have used up their attempts
+export const recoverStaleJobs = async () => {
+
+    const staleBefore = new Date(Date.now() - JOB_TIMEOUT_MS * 2);
+    const staleJobs = (await Job.find({ status: 'running', lockedAt: { $lt: staleBefore } }))
+        .filter((job: any) => job.lockedAt.getTime() < Date.now() - getJobTimeout(job) * 2);
+
+    for (const job of staleJobs) {
+        const updated = await Job.findOneAndUpdate(
+            { _id: job._id, status: 'running' },
+            job.attempts >= job.maxAttempts
+                ? { status: 'failed', error: 'Generation timed out', $unset: { lockedAt: 1, lockedBy: 1 } }
+                : { status: 'queued', runAt: new Date(), $unset: { lockedAt: 1, lockedBy: 1 } },
+            { new: true }
+        );
+        if (updated) {
+            await syncThumbnail(updated);
+        }
+    }
+
+    return staleJobs.length;
+}
+
+export const expireQueuedJobs = async () => {
+
+    const expired = await Job.find({ status: 'queued', runAt: { $lt: new Date(Date.now() - QUEUE_TIMEOUT_MS) } }).select('_id');
+
+    for (const { _id } of expired) {
+        const updated = await Job.findOneAndUpdate(
+            { _id, status: 'queued' },
+            { status: 'failed', error: 'No worker picked up the generation in time' },
+            { new: true }
+        );
+        if (updated) {
+            await syncThumbnail(updated);
+        }
+    }
+
+    return expired.length;
+}
+
+export const claimNextJob = async (workerId: string) => {
+
+    const job = await Job.findOneAndUpdate(
+        { status: 'queued', runAt: { $lte: new Date() } },
+        { status: 'running', lockedAt: new Date(), lockedBy: workerId, $inc: { attempts: 1 } },
+        { sort: { runAt: 1 }, new: true }
+    );
+
+    if (job) {
+        await syncThumbnail(job);
+    }
+
+    return job;
+}
+
+// The claim a worker holds on a job: still running, under the same lock it was
+// claimed with. A run that timed out, was cancelled or got recovered as stale
+// has lost it, even when the same worker has since claimed the job again.
+const ownedBy = (job: any) => ({ _id: job._id, status: 'running', lockedBy: job.lockedBy, lockedAt: job.lockedAt });
+
+export const isJobOwned = async (job: any) => {
+
+    return !!await Job.exists(ownedBy(job));
+}
+
+// Both finishers only touch jobs this run still owns, so a job cancelled
+// mid-flight keeps its cancelled state and a timed-out run can't overwrite the
+// retry. completeJob returns null when the result could not be saved (job no
+// longer owned or thumbnail deleted meanwhile).
+
+export const completeJob = async (job: any, fields: Record<string, any> = {}) => {
+
+    const updated = await Job.findOneAndUpdate(
+        ownedBy(job),
+        { status: 'succeeded', $unset: { error: 1, lockedAt: 1, lockedBy: 1 } },
+        { new: true }
+    );
+
+    if (!updated || !await syncThumbnail(updated, fields)) {
+        return null;
+    }
+
+    return updated;
+}
+
+// Retries with exponential backoff until maxAttempts, then marks the job failed
+export const failJob = async (job: any, error: Error) => {
+
+    const retry = job.attempts < job.maxAttempts;
+
+    const updated = await Job.findOneAndUpdate(
+        ownedBy(job),
+        retry
+            ? { status: 'queued', error: error.message, runAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)), $unset: { lockedAt: 1, lockedBy: 1 } }
+            : { status: 'failed', error: error.message, $unset: { lockedAt: 1, lockedBy: 1 } },
+        { new: true }
+    );
+
+    if (updated) {
+        await syncThumbnail(updated);
+    }
+
+    return updated;
+}
+
+// Progress log read by the SSE endpoint, e.g. { stage: 'generating', provider: 'pollinations' }
+export const reportProgress = async (job: any, event: { stage: string; message: string; provider?: string }) => {
+
+    await Job.updateOne({ _id: job._id }, { $push: { events: { ...event, at: new Date() } } });
+}
+
+export const cancelJobs = async (thumbnailId: string) => {
+
+    const result = await Job.updateMany(
+        { thumbnailId, status: { $in: ['queued', 'running'] } },
+        { status: 'cancelled', lockedAt: null }
+    );
+
+    return result.modifiedCount;
+}
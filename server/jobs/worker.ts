@@ -0,0 +1,119 @@
+import crypto from "node:crypto";
+import { claimNextJob, completeJob, expireQueuedJobs, failJob, getJobTimeout, recoverStaleJobs } from "./queue.js";
+import { generateThumbnailJob } from "./generateThumbnail.js";
+import { deleteStoredImages, getThumbnailImageKeys } from "../storage/cleanup.js";
+
+// Each handler returns the fields to store on the thumbnail when the job
+// succeeds, or null when the job was cancelled while it ran. The signal aborts
+// once the job times out; a handler checks it between steps and must not
+// upload anything after it has fired.
+const handlers: Record<string, (job: any, signal: AbortSignal) => Promise<Record<string, any> | null>> = {
+    generate_thumbnail: generateThumbnailJob,
+}
+
+// Rejects after `ms` and aborts the handler's signal. The handler may still be
+// inside a provider call at that point; it stops at its next check.
+const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number) => {
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error(`Generation timed out after ${ms / 1000}s`);
+            controller.abort(error);
+            reject(error);
+        }, ms);
+    });
+
+    return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+export const runJob = async (job: any) => {
+
+    const handler = handlers[job.type];
+
+    try {
+        if (!handler) {
+            throw new Error(`No handler for job type "${job.type}"`);
+        }
+
+        const fields = await withTimeout((signal) => handler(job, signal), getJobTimeout(job));
+        if (fields) {
+            if (await completeJob(job, fields)) {
+                console.log(`🎉 Job ${job._id} COMPLETE`);
+            } else {
+                // nothing points at the uploads anymore, don't leave them behind
+                await deleteStoredImages(getThumbnailImageKeys(fields));
+            }
+        }
+
+    } catch (error: any) {
+        console.error(`💥 Job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error.message);
+        await failJob(job, error);
+    }
+}
+
+const newWorkerId = () => `${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+
+// Housekeeping done before every claim
+const tidyQueue = async () => {
+    await recoverStaleJobs();
+    await expireQueuedJobs();
+}
+
+// Polls the queue until stopped; resolves once the in-flight job has finished
+export const startWorker = ({ pollInterval = 2000 }: { pollInterval?: number } = {}) => {
+
+    const workerId = newWorkerId();
+    let running = true;
+
+    const loop = (async () => {
+        console.log(`👷 Worker ${workerId} started`);
+
+        while (running) {
+            try {
+                await tidyQueue();
+                const job = await claimNextJob(workerId);
+
+                if (job) {
+                    await runJob(job);
+                    continue;
+                }
+            } catch (error) {
+                console.error('Worker error:', error);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+        }
+
+        console.log(`👷 Worker ${workerId} stopped`);
+    })();
+
+    return async () => {
+        running = false;
+        await loop;
+    }
+}
+
+// Runs queued jobs until the queue is empty or `budgetMs` has passed, for hosts
+// without a long-running process (see the /api/jobs/run cron route). A job
+// started within the budget runs to completion, so leave it room on top.
+export const drainQueue = async ({ budgetMs }: { budgetMs: number }) => {
+
+    const workerId = newWorkerId();
+    const deadline = Date.now() + budgetMs;
+    let processed = 0;
+
+    while (Date.now() < deadline) {
+        await tidyQueue();
+        const job = await claimNextJob(workerId);
+        if (!job) {
+            break;
+        }
+
+        await runJob(job);
+        processed++;
+    }
+
+    return processed;
+}
@@ -0,0 +1,42 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import { Mailer } from "./Mailer.js";
+
+// Development transports. `file` saves every message as an .eml file that any
+// mail client opens (tests can read them back); `console` prints it instead.
+
+const toEml = (from: string, { to, subject, text }: { to: string; subject: string; text: string }) => [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+].join('\r\n');
+
+export const FileMailer = ({ directory, from }: { directory: string; from: string }): Mailer => {
+
+    return {
+        name: 'file',
+
+        async send(message) {
+            await fs.mkdir(directory, { recursive: true });
+            const file = path.join(directory, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+            await fs.writeFile(file, toEml(from, message));
+            console.log(`📧 Mail to ${message.to} saved to ${file}`);
+        },
+    };
+};
+
+export const ConsoleMailer = ({ from }: { from: string }): Mailer => {
+
+    return {
+        name: 'console',
+
+        async send(message) {
+            console.log(`📧 Mail\n${toEml(from, message)}\n`);
+        },
+    };
+};
@@ -0,0 +1,14 @@
+// Shared contract for every mail transport. Callers build the message (see
+// mail/templates.ts); transports only deliver it.
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface Mailer {
+    name: string;
+    send(message: MailMessage): Promise<void>;
+}
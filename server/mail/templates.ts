@@ -0,0 +1,35 @@
+import { MailMessage } from "./Mailer.js";
+
+// Messages the app sends. Each returns everything but the recipient.
+
+type Template = Omit<MailMessage, 'to'>;
+
+const escapeHtml = (text: string) =>
+    text.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&#39;', '"': '&quot;' }[c] as string));
+
+const layout = (paragraphs: string[], action: { label: string; url: string }) => `
+<div style="font-family:Arial,sans-serif;max-width:480px;margin:0 auto;color:#18181b">
+  ${paragraphs.map((paragraph) => `<p>${paragraph}</p>`).join('\n  ')}
+  <p><a href="${action.url}" style="display:inline-block;padding:10px 20px;background:#db2777;color:#fff;border-radius:999px;text-decoration:none">${action.label}</a></p>
+  <p style="font-size:12px;color:#71717a">Or paste this link into your browser: ${action.url}</p>
+</div>`;
+
+export const verificationEmail = ({ name, url, expiresInHours }: { name: string; url: string; expiresInHours: number }): Template => ({
+    subject: 'Confirm your Thumbnail Go email',
+    text: `Hi ${name},\n\nThanks for signing up! Open this link to confirm your email address and start generating thumbnails:\n\n${url}\n\nThe link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.`,
+    html: layout([
+        `Hi ${escapeHtml(name)},`,
+        'Thanks for signing up! Confirm your email address to start generating thumbnails.',
+        `The link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.`,
+    ], { label: 'Confirm email', url }),
+});
+
+export const passwordResetEmail = ({ name, url, expiresInMinutes }: { name: string; url: string; expiresInMinutes: number }): Template => ({
+    subject: 'Reset your Thumbnail Go password',
+    text: `Hi ${name},\n\nSomeone (hopefully you) asked to reset your password. Open this link to choose a new one:\n\n${url}\n\nThe link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+    html: layout([
+        `Hi ${escapeHtml(name)},`,
+        'Someone (hopefully you) asked to reset your password. Use the button below to choose a new one.',
+        `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+    ], { label: 'Reset password', url }),
+});
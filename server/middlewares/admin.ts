@@ -0,0 +1,18 @@
+import { Request,Response,NextFunction } from "express";
+import User from "../models/User.js";
+
+// Admins are the accounts listed in ADMIN_EMAILS (comma separated); use after protect
+const requireAdmin = async(req:Request,res:Response,next:NextFunction)=>{
+
+    const admins = (process.env.ADMIN_EMAILS || '').split(',').map((email)=>email.trim().toLowerCase()).filter(Boolean);
+    const user = await User.findById(req.session.userId).select('email');
+
+    if(!user || !admins.includes(user.email)){
+      return res.status(403).json({message:"admin access required"});
+    }
+
+    next()
+
+}
+
+export default requireAdmin
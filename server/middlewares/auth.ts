@@ -1,15 +1,61 @@
 import { Request,Response,NextFunction } from "express";
+import { authenticateApiKey } from "../auth/apiKeys.js";
+import { ApiKeyScope } from "../models/ApiKey.js";
+
+declare global {
+    namespace Express {
+        interface Request {
+            apiKeyScope?: ApiKeyScope
+            // set by protect when the request is authenticated with an API key
+            apiUser?: { userId: string }
+        }
+    }
+}
+
+export const bearerToken = (req:Request)=>{
+
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+    return match ? match[1] : null;
+}
+
+// The signed-in user, from the API key or the cookie session. Routes that accept
+// API keys read it through here, since key requests never touch the session.
+export const getUserId = (req:Request)=> req.apiUser?.userId ?? req.session?.userId;
+
+// Marks a route as callable with an API key holding `scope`; put it before protect.
+// Routes without it (key management, billing...) only accept the cookie session.
+export const allowApiKey = (scope:ApiKeyScope)=>(req:Request,res:Response,next:NextFunction)=>{
+
+    req.apiKeyScope = scope;
+    next()
+}
 
 const protect = async(req:Request,res:Response,next:NextFunction)=>{
 
+    const key = bearerToken(req);
+
+    if(key){
+      if(!req.apiKeyScope){
+        return res.status(403).json({message:"API keys can't be used on this endpoint"});
+      }
+
+      const {userId,status,error} = await authenticateApiKey(key, req.apiKeyScope);
+      if(error){
+        return res.status(status).json({message:error});
+      }
+
+      req.apiUser = {userId:userId as string};
+      return next()
+    }
+
     const {isLoggedIn,userId} = req.session;
 
     if(!isLoggedIn || !userId){
-      res.status(401).json({message:"you are not logged in"});
+      return res.status(401).json({message:"you are not logged in"});
     }
 
     next()
 
 }
 
-export default protect
\ No newline at end of file
+export default protect
@@ -0,0 +1,96 @@
+import { Request,Response,NextFunction } from "express";
+import RateLimit from "../models/RateLimit.js";
+import { RATE_LIMITS, RateLimitName } from "../configs/rateLimits.js";
+import { getUserId } from "./auth.js";
+
+// Fixed-window rate limiting backed by Mongo, so every serverless instance
+// counts against the same limit. Clients are told when to come back through a
+// 429 with Retry-After (also sent as retry_after in the body, since browsers
+// only expose that header cross-origin when CORS allows it).
+
+type LimitBy = 'user' | 'ip' | 'account';
+
+const clientId = (req:Request, by:LimitBy) => {
+
+    if(by === 'user') return getUserId(req) || null;
+    if(by === 'account') return typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() || null : null;
+    return req.ip || null;
+}
+
+// Atomic increment of the window's counter. Two first hits can race on the
+// upsert; the loser retries and finds the document the winner created.
+const hit = async (key:string, expiresAt:Date): Promise<number> => {
+
+    try {
+      const counter = await RateLimit.findOneAndUpdate(
+        { key },
+        { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+        { upsert: true, new: true }
+      );
+      return counter.count;
+    } catch (error:any) {
+      if(error.code !== 11000) throw error;
+      return hit(key, expiresAt);
+    }
+}
+
+const rateLimit = (name:RateLimitName, by:LimitBy, message:string)=>{
+
+    const { max, windowMs } = RATE_LIMITS[name];
+
+    return async(req:Request,res:Response,next:NextFunction)=>{
+
+        const id = clientId(req, by);
+        if(!id){
+          return next()
+        }
+
+        const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+        const resetAt = windowStart + windowMs;
+
+        let count;
+        try {
+          count = await hit(`${name}:${id}:${windowStart}`, new Date(resetAt));
+        } catch (error:any) {
+          // a store outage shouldn't take the API down with it
+          console.log('Rate limit store unavailable:', error.message);
+          return next()
+        }
+
+        const retryAfter = Math.ceil((resetAt - Date.now()) / 1000);
+
+        res.setHeader('RateLimit-Limit', max);
+        res.setHeader('RateLimit-Remaining', Math.max(0, max - count));
+        res.setHeader('RateLimit-Reset', retryAfter);
+
+        if(count > max){
+          res.setHeader('Retry-After', retryAfter);
+          return res.status(429).json({message, retry_after:retryAfter});
+        }
+
+        next()
+
+    }
+}
+
+export const generateLimit = [
+    rateLimit('generate_user', 'user', 'You are generating too fast.'),
+    rateLimit('generate_ip', 'ip', 'Too many generation requests from your network.'),
+];
+
+export const loginLimit = [
+    rateLimit('login_ip', 'ip', 'Too many login attempts.'),
+    rateLimit('login_account', 'account', 'Too many login attempts for this account.'),
+];
+
+export const registerLimit = rateLimit('register_ip', 'ip', 'Too many accounts created from your network.');
+
+export const passwordResetLimit = rateLimit('password_reset_ip', 'ip', 'Too many password reset requests.');
+
+export const resetEmailLimit = rateLimit('password_reset_account', 'account', 'Too many reset emails requested for this account.');
+
+export const verificationEmailLimit = rateLimit('verification_email_user', 'user', 'Too many verification emails requested.');
+
+export const experimentTrackLimit = rateLimit('experiment_track_ip', 'ip', 'Too many tracking requests from your network.');
+
+export default rateLimit
@@ -0,0 +1,48 @@
+import { Request,Response,NextFunction } from "express";
+import multer from "multer";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Lets a route take either JSON or multipart/form-data with one optional image
+// in `field`. Multipart requests carry the regular JSON body as a string in
+// the `data` field, so controllers read req.body the same way.
+const imageUpload = (field:string)=>{
+
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+        // rejected rather than skipped, or the request would go on without the file
+        fileFilter: (req, file, callback) => file.mimetype.startsWith('image/')
+          ? callback(null, true)
+          : callback(new Error(`${field} must be an image`)),
+    }).single(field);
+
+    return (req:Request,res:Response,next:NextFunction)=>{
+
+        if(!req.is('multipart/form-data')){
+          return next()
+        }
+
+        upload(req, res, (error:any)=>{
+
+            if(error){
+              const message = error.code === 'LIMIT_FILE_SIZE' ? `Image must be under ${MAX_UPLOAD_BYTES / 1024 / 1024}MB` : error.message;
+              return res.status(400).json({message});
+            }
+
+            try {
+              req.body = typeof req.body?.data === 'string' ? JSON.parse(req.body.data) : {};
+            } catch {
+              return res.status(400).json({message:"data must be a JSON string"});
+            }
+
+            next()
+
+        })
+
+    }
+
+}
+
+export const referenceUpload = imageUpload('reference_image')
+export const logoUpload = imageUpload('logo')
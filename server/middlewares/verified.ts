@@ -0,0 +1,19 @@
+import { Request,Response,NextFunction } from "express";
+import User from "../models/User.js";
+import { getUserId } from "./auth.js";
+
+// Blocks generation until the signup email is confirmed; use after protect.
+// Accounts created before verification existed have no emailVerified field and pass.
+const requireVerifiedEmail = async(req:Request,res:Response,next:NextFunction)=>{
+
+    const unverified = await User.exists({ _id: getUserId(req), emailVerified: false });
+
+    if(unverified){
+      return res.status(403).json({message:"Please verify your email address before generating. Check your inbox for the link or request a new one."});
+    }
+
+    next()
+
+}
+
+export default requireVerifiedEmail
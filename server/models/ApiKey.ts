@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+
+// What a key may do. Routes opt in to API keys with the scope they need
+// (allowApiKey in middlewares/auth.ts); the rest only accept the cookie session.
+export const API_KEY_SCOPES = ['thumbnails:read', 'thumbnails:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document {
+
+    userId: string;
+    name: string;
+    prefix: string;
+    key_hash: string;
+    scopes: ApiKeyScope[];
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+// Personal keys for scripts. Only a SHA-256 of the key is stored; the prefix is
+// kept in clear so users can tell their keys apart.
+const ApiKeySchema = new mongoose.Schema<IApiKey>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    prefix: { type: String, required: true },
+    key_hash: { type: String, required: true, unique: true },
+    scopes: { type: [String], enum: API_KEY_SCOPES, required: true },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+
+}, { timestamps: true })
+
+const ApiKey = mongoose.models.ApiKey || mongoose.model<IApiKey>('ApiKey', ApiKeySchema)
+
+export default ApiKey;
@@ -0,0 +1,32 @@
+import mongoose from "mongoose";
+
+export type AuthTokenPurpose = "password_reset" | "email_verification";
+
+export interface IAuthToken extends Document {
+
+    userId: string;
+    purpose: AuthTokenPurpose;
+    token_hash: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+// Single-use tokens sent by email. Only a SHA-256 of the token is stored, so a
+// database leak doesn't hand out working links. Expired tokens are removed by
+// Mongo's TTL monitor.
+const AuthTokenSchema = new mongoose.Schema<IAuthToken>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    purpose: { type: String, enum: ["password_reset", "email_verification"], required: true },
+    token_hash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true, expires: 0 },
+    usedAt: { type: Date },
+
+}, { timestamps: true })
+
+const AuthToken = mongoose.models.AuthToken || mongoose.model<IAuthToken>('AuthToken', AuthTokenSchema)
+
+export default AuthToken;
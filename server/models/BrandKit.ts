@@ -0,0 +1,41 @@
+import mongoose from "mongoose";
+import { OverlayFont } from "../imaging/textOverlay.js";
+import { LogoPosition } from "../imaging/logoOverlay.js";
+
+export interface IBrandKit extends Document {
+
+    userId: string;
+    logo_url?: string;
+    logo_key?: string;
+    logo_position: LogoPosition;
+    logo_scale: number;
+    logo_opacity: number;
+    colors: string[];
+    font?: OverlayFont;
+    default_style?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+// One kit per user, applied to a generation when it is queued with use_brand_kit
+const BrandKitSchema = new mongoose.Schema<IBrandKit>({
+
+    userId: { type: String, ref: 'User', required: true, unique: true },
+    logo_url: { type: String },
+    logo_key: { type: String },
+    logo_position: { type: String, enum: ["top-left", "top-right", "bottom-left", "bottom-right"], default: 'bottom-right' },
+    logo_scale: { type: Number, min: 0.05, max: 0.4, default: 0.15 },
+    logo_opacity: { type: Number, min: 0.1, max: 1, default: 1 },
+    colors: {
+        type: [{ type: String, match: /^#[0-9a-fA-F]{6}$/ }],
+        validate: { validator: (colors: string[]) => colors.length <= 6, message: 'A brand kit holds up to 6 colors' }
+    },
+    font: { type: String, enum: ["impact", "sans", "serif", "rounded", "mono"] },
+    default_style: { type: String, trim: true },
+
+}, { timestamps: true })
+
+const BrandKit = mongoose.models.BrandKit || mongoose.model<IBrandKit>('BrandKit', BrandKitSchema)
+
+export default BrandKit;
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+
+export interface ICreditEntry {
+
+    type: "charge" | "refund";
+    amount: number;
+    thumbnailId: string;
+    at: Date;
+
+}
+
+export interface ICreditLedger extends Document {
+
+    userId: string;
+    period: string;
+    used: number;
+    entries: ICreditEntry[];
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+// One ledger per user and month ("2026-10"). `used` is the running total the
+// quota is checked against, entries keep the history behind it.
+const CreditLedgerSchema = new mongoose.Schema<ICreditLedger>({
+
+    userId: { type: String, ref: 'User', required: true },
+    period: { type: String, required: true },
+    used: { type: Number, default: 0 },
+    entries: [{
+        _id: false,
+        type: { type: String, enum: ["charge", "refund"], required: true },
+        amount: { type: Number, required: true },
+        thumbnailId: { type: String, ref: 'Thumbnail', required: true },
+        at: { type: Date, default: Date.now },
+    }],
+
+}, { timestamps: true })
+
+CreditLedgerSchema.index({ userId: 1, period: 1 }, { unique: true })
+
+const CreditLedger = mongoose.models.CreditLedger || mongoose.model<ICreditLedger>('CreditLedger', CreditLedgerSchema)
+
+export default CreditLedger;
@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+export interface ICustomPalette extends Document {
+
+    userId: string;
+    name: string;
+    colors: string[];
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+const CustomPaletteSchema = new mongoose.Schema<ICustomPalette>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: 40 },
+    colors: {
+        type: [{ type: String, match: /^#[0-9a-fA-F]{6}$/ }],
+        validate: { validator: (colors: string[]) => colors.length >= 1 && colors.length <= 6, message: 'A palette needs 1 to 6 colors' }
+    },
+
+}, { timestamps: true })
+
+const CustomPalette = mongoose.models.CustomPalette || mongoose.model<ICustomPalette>('CustomPalette', CustomPaletteSchema)
+
+export default CustomPalette;
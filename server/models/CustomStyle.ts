@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+export interface ICustomStyle extends Document {
+
+    userId: string;
+    name: string;
+    prompt: string;
+    negative_prompt?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+const CustomStyleSchema = new mongoose.Schema<ICustomStyle>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: 40 },
+    prompt: { type: String, required: true, trim: true, maxlength: 500 },
+    negative_prompt: { type: String, trim: true, maxlength: 500 },
+
+}, { timestamps: true })
+
+const CustomStyle = mongoose.models.CustomStyle || mongoose.model<ICustomStyle>('CustomStyle', CustomStyleSchema)
+
+export default CustomStyle;
@@ -0,0 +1,50 @@
+import mongoose from "mongoose";
+
+export type ExperimentStatus = "running" | "completed";
+
+export interface IExperimentVariant {
+
+    thumbnailId: string;
+    label: string;
+    impressions: number;
+    clicks: number;
+
+}
+
+export interface IExperiment extends Document {
+
+    userId: string;
+    name: string;
+    status: ExperimentStatus;
+    variants: IExperimentVariant[];
+    // public token the tracking endpoint is called with, so pages that embed the
+    // thumbnails can report events without a session
+    tracking_key: string;
+    winner_thumbnail_id?: string;
+    completedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+const ExperimentSchema = new mongoose.Schema<IExperiment>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true, maxlength: 80 },
+    status: { type: String, enum: ["running", "completed"], default: 'running' },
+    variants: [{
+        _id: false,
+        thumbnailId: { type: String, ref: 'Thumbnail', required: true },
+        label: { type: String, required: true },
+        impressions: { type: Number, default: 0 },
+        clicks: { type: Number, default: 0 },
+    }],
+    tracking_key: { type: String, required: true, unique: true },
+    winner_thumbnail_id: { type: String, ref: 'Thumbnail' },
+    completedAt: { type: Date },
+
+}, { timestamps: true })
+
+const Experiment = mongoose.models.Experiment || mongoose.model<IExperiment>('Experiment', ExperimentSchema)
+
+export default Experiment;
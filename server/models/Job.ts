@@ -0,0 +1,60 @@
+import mongoose from "mongoose";
+import { GenerationStatus } from "./Thumbnail.js";
+
+export interface IJobEvent {
+
+    stage: string;
+    message: string;
+    provider?: string;
+    at: Date;
+
+}
+
+export interface IJob extends Document {
+
+    type: string;
+    thumbnailId: string;
+    userId: string;
+    status: GenerationStatus;
+    payload?: Record<string, any>;
+    attempts: number;
+    maxAttempts: number;
+    error?: string;
+    runAt: Date;
+    lockedAt?: Date;
+    lockedBy?: string;
+    events: IJobEvent[];
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+const JobSchema = new mongoose.Schema<IJob>({
+
+    type: { type: String, required: true },
+    thumbnailId: { type: String, ref: 'Thumbnail', required: true, index: true },
+    userId: { type: String, ref: 'User', required: true },
+    status: { type: String, enum: ["queued", "running", "succeeded", "failed", "cancelled"], default: 'queued' },
+    payload: { type: mongoose.Schema.Types.Mixed, default: {} },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    error: { type: String },
+    runAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date },
+    lockedBy: { type: String },
+    events: [{
+        _id: false,
+        stage: { type: String, required: true },
+        message: { type: String, required: true },
+        provider: { type: String },
+        at: { type: Date, default: Date.now },
+    }],
+
+}, { timestamps: true })
+
+// workers poll for the oldest runnable job
+JobSchema.index({ status: 1, runAt: 1 })
+
+const Job = mongoose.models.Job || mongoose.model<IJob>('Job', JobSchema)
+
+export default Job;
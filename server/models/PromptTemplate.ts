@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+// A template is never edited in place: every change is saved as a new version,
+// so the version recorded on a thumbnail always describes the prompt it got.
+
+export interface IPromptTemplate extends Document {
+
+    version: number;
+    skeleton: string;
+    color_clause: string;
+    details_clause: string;
+    default_style: string;
+    styles: Map<string, string>;
+    color_schemes: Map<string, string>;
+    is_active: boolean;
+    notes?: string;
+    created_by?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+const PromptTemplateSchema = new mongoose.Schema<IPromptTemplate>({
+
+    version: { type: Number, required: true, unique: true },
+    skeleton: { type: String, required: true },
+    color_clause: { type: String, default: '' },
+    details_clause: { type: String, default: '' },
+    default_style: { type: String, required: true },
+    styles: { type: Map, of: String, default: {} },
+    color_schemes: { type: Map, of: String, default: {} },
+    is_active: { type: Boolean, default: false },
+    notes: { type: String, trim: true },
+    created_by: { type: String, ref: 'User' },
+
+}, { timestamps: true })
+
+PromptTemplateSchema.index({ is_active: 1 })
+
+const PromptTemplate = mongoose.models.PromptTemplate || mongoose.model<IPromptTemplate>('PromptTemplate', PromptTemplateSchema)
+
+export default PromptTemplate;
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+export interface IRateLimit extends Document {
+
+    key: string;
+    count: number;
+    expiresAt: Date;
+
+}
+
+// One counter per limit, client and time window. Mongo's TTL monitor removes
+// windows once they are over, so the collection stays small.
+const RateLimitSchema = new mongoose.Schema<IRateLimit>({
+
+    key: { type: String, required: true, unique: true },
+    count: { type: Number, default: 0 },
+    expiresAt: { type: Date, required: true, expires: 0 },
+
+})
+
+const RateLimit = mongoose.models.RateLimit || mongoose.model<IRateLimit>('RateLimit', RateLimitSchema)
+
+export default RateLimit;
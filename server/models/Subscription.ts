@@ -0,0 +1,46 @@
+import mongoose from "mongoose";
+import { PLAN_IDS, PlanId } from "../configs/plans.js";
+import { BILLING_EVENT_TYPES, BillingEventType } from "../billing/PaymentProvider.js";
+
+export type SubscriptionStatus = "pending" | "incomplete" | "active" | "past_due" | "cancelled";
+
+export interface ISubscription extends Document {
+
+    userId: string;
+    plan: PlanId;
+    status: SubscriptionStatus;
+    provider: string;
+    checkout_id: string;
+    subscription_id?: string;
+    current_period_end?: Date;
+    cancelledAt?: Date;
+    events: { event_id: string; type: BillingEventType; at: Date }[];
+    createdAt?: Date;
+    updatedAt?: Date;
+
+}
+
+// Created as pending when checkout starts; webhooks from the provider move it
+// through its lifecycle. `events` lists the webhook events already applied.
+const SubscriptionSchema = new mongoose.Schema<ISubscription>({
+
+    userId: { type: String, ref: 'User', required: true, index: true },
+    plan: { type: String, enum: PLAN_IDS, required: true },
+    status: { type: String, enum: ["pending", "incomplete", "active", "past_due", "cancelled"], default: 'pending' },
+    provider: { type: String, required: true },
+    checkout_id: { type: String, required: true, unique: true },
+    subscription_id: { type: String, index: true },
+    current_period_end: { type: Date },
+    cancelledAt: { type: Date },
+    events: [{
+        _id: false,
+        event_id: { type: String, required: true },
+        type: { type: String, enum: BILLING_EVENT_TYPES, required: true },
+        at: { type: Date, default: Date.now },
+    }],
+
+}, { timestamps: true })
+
+const Subscription = mongoose.models.Subscription || mongoose.model<ISubscription>('Subscription', SubscriptionSchema)
+
+export default Subscription;
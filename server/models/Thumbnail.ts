@@ -1,37 +1,127 @@
 import mongoose from "mongoose";
+import { OverlayStyle } from "../imaging/textOverlay.js";
+import { QualityReport } from "../imaging/quality.js";
+
+export type GenerationStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface IAlternateImage {
+
+    image_url: string;
+    image_key?: string;
+    seed?: number;
+    provider?: string;
+    model?: string;
+
+}
+
+// A quality report is only valid for the image it was measured on
+export interface IQualityReport extends QualityReport {
+
+    image_url: string;
+    analyzedAt: Date;
+
+}
 
 export interface IThumbnail extends Document {
 
     userId: string;
     title: string;
     description?: string;
-    style: "Bold & Graphic" | "Tech/Futuristic" | "Minimalist" | "Photorealistic" | "Illustrated";
+    style: string;
+    custom_style_id?: string;
     aspect_ratio?: "16:9" | "1:1" | "9:16";
-    color_scheme?: "vibrant" | "sunset" | "forest" | "neon" | "purple" | "monochrome" | "ocean" | "pastel";
+    color_scheme?: string;
+    custom_palette_id?: string;
     text_overlay?: boolean;
+    overlay_text?: string;
+    overlay_style?: OverlayStyle;
     image_url?: string;
+    image_key?: string;
+    variation_count?: number;
+    alternates?: IAlternateImage[];
     prompt_used?: string;
+    template_id?: string;
+    template_version?: number;
     user_prompt?: string;
-    isGenerating?: boolean;
+    negative_prompt?: string;
+    reference_image_url?: string;
+    reference_image_key?: string;
+    use_brand_kit?: boolean;
+    credits_charged?: number;
+    quality?: IQualityReport;
+    seed?: number;
+    provider?: string;
+    model?: string;
+    parent_id?: string;
+    status: GenerationStatus;
+    error?: string;
+    attempts?: number;
     createdAt?: Date;
     updatedAt?: Date;
 
 }
 
+// Thumbnails from before the job queue have no status (see
+// scripts/migrateThumbnailStatus.ts). They were generated inside the request, so
+// one with an image succeeded and one without never will.
+function legacyStatus(this: any) {
+    return this.isNew ? 'queued' : this.image_url ? 'succeeded' : 'failed';
+}
+
 const ThumbnailSchema = new mongoose.Schema<IThumbnail>(
     {
     userId: {type:String, ref:'User',required:true},
     title: {type:String,required:true,trim:true},
     description: {type:String, trim:true},
-    style: {type:String,required:true,enum:["Bold & Graphic" , "Tech/Futuristic" , "Minimalist" , "Photorealistic" , "Illustrated"]},
+    // built-in style name, or the name of the custom style it was made with
+    style: {type:String,required:true,trim:true},
+    custom_style_id: {type:String, ref:'CustomStyle'},
     aspect_ratio: {type:String,required:true,enum:["16:9" , "1:1" , "9:16"],default:'16:9'},
-    color_scheme: {type:String,enum:["vibrant" , "sunset" , "forest" , "neon" , "purple" , "monochrome" , "ocean" , "pastel"]},
+    color_scheme: {type:String,trim:true},
+    custom_palette_id: {type:String, ref:'CustomPalette'},
     text_overlay: {type:Boolean,default:false},
+    overlay_text: {type:String, trim:true},
+    overlay_style: {
+        font: {type:String,enum:["impact" , "sans" , "serif" , "rounded" , "mono"],default:'impact'},
+        position: {type:String,enum:["top-left" , "top" , "top-right" , "center" , "bottom-left" , "bottom" , "bottom-right"],default:'bottom'},
+        color: {type:String,default:'#FFFFFF'},
+        stroke: {type:Boolean,default:true},
+        shadow: {type:Boolean,default:true},
+        uppercase: {type:Boolean,default:true},
+    },
     image_url: {type:String,default:''},
+    image_key: {type:String},
+    variation_count: {type:Number,min:1,max:4,default:1},
+    alternates: [{_id:false, image_url:{type:String,required:true}, image_key:{type:String}, seed:{type:Number}, provider:{type:String}, model:{type:String}}],
     prompt_used: {type:String},
+    template_id: {type:String, ref:'PromptTemplate'},
+    template_version: {type:Number},
     user_prompt: {type:String},
-    isGenerating: {type:Boolean,default:true},
-    }
+    negative_prompt: {type:String},
+    reference_image_url: {type:String},
+    reference_image_key: {type:String},
+    use_brand_kit: {type:Boolean,default:false},
+    credits_charged: {type:Number},
+    quality: {
+        _id: false,
+        type: {
+            image_url: {type:String,required:true},
+            score: {type:Number,required:true},
+            metrics: {brightness:Number, contrast:Number, saturation:Number, edge_density:Number, legibility:Number},
+            dominant_colors: [{_id:false, hex:String, share:Number}],
+            small_sizes: [{_id:false, width:Number, height:Number, legibility:Number}],
+            warnings: [{_id:false, metric:String, message:String}],
+            analyzedAt: {type:Date},
+        },
+    },
+    seed: {type:Number},
+    provider: {type:String},
+    model: {type:String},
+    parent_id: {type:String, ref:'Thumbnail'},
+    status: {type:String,enum:["queued" , "running" , "succeeded" , "failed" , "cancelled"],default:legacyStatus},
+    error: {type:String},
+    attempts: {type:Number,default:0},
+    }, { timestamps: true }
 )
 
 
@@ -1,12 +1,17 @@
 
 import mongoose from "mongoose";
 import { timeStamp } from "node:console";
+import { DEFAULT_PLAN, PLAN_IDS, PlanId } from "../configs/plans.js";
 
 export interface IUser extends Document {
 
     name: string;
     email: string;
     password?: string;
+    plan: PlanId;
+    emailVerified?: boolean;
+    oidc_issuer?: string;
+    oidc_subject?: string;
     createdAt?: Date;
     updatedAt?: Date;
 
@@ -16,10 +21,19 @@ const UserSchema = new mongoose.Schema<IUser>({
 
     name: { type: String, required: true, trim: true },
     email: { type: String, required: true, trim: true, unique: true, lowercase: true },
-    password: { type: String, required: true }
+    // accounts created through single sign-on have no password until they reset one
+    password: { type: String },
+    plan: { type: String, enum: PLAN_IDS, default: DEFAULT_PLAN },
+    // no default: accounts from before email verification are treated as verified
+    emailVerified: { type: Boolean },
+    // identity at the OpenID Connect provider the account signs in with
+    oidc_issuer: { type: String },
+    oidc_subject: { type: String }
 
 }, { timestamps: true })
 
+UserSchema.index({ oidc_issuer: 1, oidc_subject: 1 }, { unique: true, partialFilterExpression: { oidc_subject: { $exists: true } } })
+
 
 const User = mongoose.models.User || mongoose.model<IUser>('User', UserSchema)
 
@@ -0,0 +1,101 @@
+import crypto from "node:crypto";
+import { generateText } from "../configs/textProviders.js";
+import { registerLocalResponder } from "../providers/LocalTextProvider.js";
+
+export interface EnhanceInput {
+  title: string;
+  details?: string;
+  style?: string;
+}
+
+export interface EnhancedPrompt {
+  subject: string;
+  composition: string;
+  emotion: string;
+  lighting: string;
+}
+
+const FIELDS = ['subject', 'composition', 'emotion', 'lighting'] as const;
+
+const SYSTEM = `You write visual briefs for YouTube thumbnail images.
+Given a video title and optional notes, describe one image that would make people click.
+Answer with JSON only: {"subject": string, "composition": string, "emotion": string, "lighting": string}.
+subject: who or what is shown, concrete and visual. composition: framing, placement, background.
+emotion: the feeling or facial expression to convey. lighting: light and color mood.
+Each value is one short sentence. Never put words or text inside the image.`;
+
+// Model output sometimes comes wrapped in a code fence
+const parseEnhancedPrompt = (text: string): EnhancedPrompt => {
+
+  const data = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+
+  for (const field of FIELDS) {
+    if (typeof data[field] !== 'string' || !data[field].trim()) {
+      throw new Error(`Enhanced prompt is missing "${field}"`);
+    }
+  }
+
+  return {
+    subject: data.subject.trim(),
+    composition: data.composition.trim(),
+    emotion: data.emotion.trim(),
+    lighting: data.lighting.trim(),
+  };
+};
+
+// The text that goes into "Additional Prompts"
+export const formatEnhancedPrompt = ({ subject, composition, emotion, lighting }: EnhancedPrompt) =>
+  [subject, `Composition: ${composition}`, `Emotion: ${emotion}`, `Lighting: ${lighting}`]
+    .map((part) => part.replace(/\.$/, ''))
+    .join('. ') + '.';
+
+export const enhancePrompt = async (input: EnhanceInput) => {
+
+  const prompt = [
+    `Title: ${input.title}`,
+    input.details ? `Notes: ${input.details}` : '',
+    input.style ? `Thumbnail style: ${input.style}` : '',
+  ].filter(Boolean).join('\n');
+
+  const { result, provider, model } = await generateText({ task: 'enhance_prompt', system: SYSTEM, prompt, input }, parseEnhancedPrompt);
+
+  return { ...result, prompt: formatEnhancedPrompt(result), provider, model };
+};
+
+// Offline answer: picks phrasing from fixed lists with a hash of the input
+
+const COMPOSITIONS = [
+  'tight close-up on the left third, bold empty space on the right for a headline',
+  'centered hero shot against a clean blurred background',
+  'split screen contrasting the before and after',
+  'low angle looking up at the subject, background fading into depth',
+  'subject pointing toward a single oversized key object',
+];
+
+const EMOTIONS: [RegExp, string][] = [
+  [/\b(how|why|what|secret|truth)\b/i, 'curious, raised eyebrow, leaning in as if about to reveal something'],
+  [/\b(fail\w*|mistakes?|wrong|worst|never|stop)\b/i, 'shocked, wide eyes and open mouth'],
+  [/\b(best|wins?|success\w*|easy|fast|tips?)\b/i, 'confident and excited, big genuine smile'],
+  [/\b(vs|versus|battle|challenge)\b/i, 'competitive tension, determined stare'],
+];
+
+const LIGHTING: Record<string, string> = {
+  'Bold & Graphic': 'hard rim light with saturated complementary colors and strong contrast',
+  'Tech/Futuristic': 'cool neon edge lighting with a glowing blue and magenta haze',
+  Minimalist: 'soft even daylight with a muted, limited palette',
+  Photorealistic: 'natural window light with shallow depth of field',
+  Illustrated: 'flat bright lighting with bold cel-shaded highlights',
+};
+
+registerLocalResponder('enhance_prompt', ({ title, details, style }: EnhanceInput): EnhancedPrompt => {
+
+  const hash = crypto.createHash('sha256').update(`${title}\n${details || ''}`).digest();
+  const text = `${title} ${details || ''}`;
+
+  return {
+    subject: `A single expressive person reacting to ${title.trim()}${details ? `, featuring ${details.trim().replace(/\.$/, '')}` : ''}`,
+    composition: COMPOSITIONS[hash[0] % COMPOSITIONS.length],
+    emotion: EMOTIONS.find(([pattern]) => pattern.test(text))?.[1] || 'intrigued, direct eye contact with the viewer',
+    lighting: (style && LIGHTING[style]) || 'dramatic key light with a vivid, high contrast color grade',
+  };
+});
@@ -0,0 +1,127 @@
+import crypto from "node:crypto";
+import { generateText } from "../configs/textProviders.js";
+import { registerLocalResponder } from "../providers/LocalTextProvider.js";
+
+export interface HookInput {
+  title: string;
+  details?: string;
+  count: number;
+}
+
+export interface HookScore {
+  score: number;
+  length: number;
+  power_words: number;
+  numbers: number;
+  readability: number;
+}
+
+export const MIN_HOOKS = 3;
+export const MAX_HOOKS = 5;
+const MAX_HOOK_LENGTH = 40;
+
+const POWER_WORDS = [
+  'secret', 'secrets', 'shocking', 'never', 'stop', 'best', 'worst', 'free', 'easy', 'fast', 'insane', 'truth',
+  'proven', 'mistake', 'mistakes', 'ultimate', 'finally', 'why', 'how', "don't", 'dont', 'new', 'hidden', 'instantly',
+  'crazy', 'exposed', 'avoid', 'wrong', 'must', 'only', 'real', 'quit', 'fail', 'win', 'this',
+];
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+// Heuristic only: short, punchy, concrete text does well on a thumbnail.
+// Each part is scored out of its weight and the parts add up to 100.
+export const scoreHook = (hook: string): HookScore => {
+
+  const list = words(hook);
+  const chars = hook.trim().length;
+
+  // 2-4 words and under ~24 characters read at a glance on a phone
+  const wordFit = list.length >= 2 && list.length <= 4 ? 1 : list.length === 5 || list.length === 1 ? 0.6 : 0.2;
+  const charFit = chars <= 24 ? 1 : chars <= 32 ? 0.6 : 0.2;
+  const length = Math.round(35 * (wordFit + charFit) / 2);
+
+  const powerCount = list.filter((word) => POWER_WORDS.includes(word)).length;
+  const power_words = powerCount === 0 ? 0 : powerCount === 1 ? 20 : 25;
+
+  const numbers = /\d/.test(hook) ? 15 : 0;
+
+  const averageWord = list.length ? list.reduce((sum, word) => sum + word.length, 0) / list.length : 0;
+  const longWords = list.filter((word) => word.length > 9).length;
+  const readability = Math.max(0, Math.round(25 - Math.max(0, averageWord - 5) * 4 - longWords * 6));
+
+  return { score: length + power_words + numbers + readability, length, power_words, numbers, readability };
+};
+
+const SYSTEM = `You write the short headline text that is printed on a YouTube thumbnail.
+It is not the video title: it is 2 to 5 words, punchy, readable at a glance and it complements the title instead of repeating it.
+Answer with JSON only: {"hooks": string[]}.`;
+
+const parseHooks = (text: string): string[] => {
+
+  const data = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  const hooks = Array.isArray(data.hooks) ? data.hooks : [];
+
+  const cleaned = [...new Set<string>(hooks
+    .filter((hook: any) => typeof hook === 'string')
+    .map((hook: string) => hook.trim().replace(/^["']|["']$/g, ''))
+    .filter((hook: string) => hook && hook.length <= MAX_HOOK_LENGTH))];
+
+  if (cleaned.length < MIN_HOOKS) {
+    throw new Error('Not enough usable hooks');
+  }
+
+  return cleaned;
+};
+
+// Suggestions come back best score first
+export const suggestHooks = async (input: HookInput) => {
+
+  const prompt = [
+    `Video title: ${input.title}`,
+    input.details ? `Notes: ${input.details}` : '',
+    `Write ${input.count} different headlines.`,
+  ].filter(Boolean).join('\n');
+
+  const { result, provider, model } = await generateText({ task: 'suggest_hooks', system: SYSTEM, prompt, input }, parseHooks);
+
+  const hooks = result.slice(0, input.count)
+    .map((text) => ({ text, ...scoreHook(text) }))
+    .sort((a, b) => b.score - a.score);
+
+  return { hooks, provider, model };
+};
+
+// Offline answer: fills fixed patterns with the title's number and key words
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'my', 'your', 'i', 'you', 'is', 'are', 'it', 'this', 'that', 'how', 'why', 'what', 'every', 'at', 'from', 'about', 'we', 'our']);
+
+const PATTERNS: ((key: string, num?: string) => string)[] = [
+  (key, num) => num ? `${num} ${key} Secrets` : `${key} Secrets`,
+  (key) => `Stop ${key} Wrong`,
+  (key) => `${key}?!`,
+  (key) => `The Truth About ${key}`,
+  (key) => `Don't Skip This`,
+  (key, num) => num ? `${num} Days Later...` : `Was It Worth It?`,
+  (key) => `${key}: Finally`,
+  (key) => `Nobody Tells You This`,
+];
+
+const titleCase = (text: string) => text.replace(/\b\w/g, (c) => c.toUpperCase());
+
+registerLocalResponder('suggest_hooks', ({ title, count }: HookInput) => {
+
+  const hash = crypto.createHash('sha256').update(title).digest();
+  const num = title.match(/\d+/)?.[0];
+  const list = words(title);
+  const isKey = (word?: string) => !!word && !STOP_WORDS.has(word) && !/^\d+$/.test(word);
+
+  // two key words in a row make the best subject, otherwise the last key word
+  const pairAt = list.findIndex((word, i) => isKey(word) && isKey(list[i + 1]));
+  const key = titleCase(pairAt >= 0 ? `${list[pairAt]} ${list[pairAt + 1]}` : list.filter(isKey).pop() || 'this');
+
+  // rotate the pattern list so different titles lead with different hooks
+  const start = hash[0] % PATTERNS.length;
+  const hooks = PATTERNS.map((_, i) => PATTERNS[(start + i) % PATTERNS.length](key, num));
+
+  return { hooks: [...new Set(hooks)].slice(0, count) };
+});
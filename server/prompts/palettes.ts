@@ -0,0 +1,46 @@
+// Turns hex swatches into words an image model understands, e.g.
+// ["#0B3D91", "#F4D35E"] -> "dark blue (#0B3D91) and pale yellow (#F4D35E)"
+
+const HUES: [number, string][] = [
+  [15, 'red'], [40, 'orange'], [65, 'yellow'], [90, 'lime'], [150, 'green'], [175, 'teal'],
+  [200, 'cyan'], [250, 'blue'], [280, 'purple'], [320, 'magenta'], [345, 'pink'], [360, 'red'],
+];
+
+const toHsl = (hex: string) => {
+
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) {
+    return { h: 0, s: 0, l };
+  }
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === r ? ((g - b) / d + 6) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+
+  return { h: h * 60, s, l };
+};
+
+export const describeColor = (hex: string) => {
+
+  const { h, s, l } = toHsl(hex);
+
+  if (l < 0.12) return 'black';
+  if (l > 0.92) return 'white';
+  if (s < 0.15) return l < 0.4 ? 'dark gray' : l > 0.7 ? 'light gray' : 'gray';
+
+  const hue = HUES.find(([limit]) => h < limit)?.[1] || 'red';
+  const shade = l < 0.33 ? 'dark ' : l > 0.75 ? 'pale ' : l > 0.6 ? 'light ' : s > 0.8 ? 'vivid ' : '';
+
+  return `${shade}${hue}`;
+};
+
+export const describePalette = (colors: string[]) => {
+
+  const names = colors.map((hex) => `${describeColor(hex)} (${hex.toUpperCase()})`);
+
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] || '';
+};
@@ -0,0 +1,157 @@
+import PromptTemplate from "../models/PromptTemplate.js";
+
+export interface PromptInput {
+  title?: string;
+  user_prompt?: string;
+  style?: string;
+  color_scheme?: string;
+  aspect_ratio?: string;
+  // fragments from a user's custom style / palette, used instead of the template's
+  style_prompt?: string;
+  color_prompt?: string;
+}
+
+export interface TemplateContent {
+  skeleton: string;
+  color_clause: string;
+  details_clause: string;
+  default_style: string;
+  styles: Record<string, string>;
+  color_schemes: Record<string, string>;
+}
+
+export const TEMPLATE_FIELDS = ['skeleton', 'color_clause', 'details_clause', 'default_style', 'styles', 'color_schemes'] as const;
+
+// Placeholders: {{title}}, {{style}}, {{color_scheme}}, {{user_prompt}} and
+// {{aspect_ratio}}. The color and details clauses are only rendered when the
+// request has a known color scheme / extra details, and fill {{color}} and
+// {{details}} in the skeleton.
+const BUILT_IN_TEMPLATE: TemplateContent = {
+  skeleton: 'Create a {{style}} for: "{{title}}"{{color}}{{details}} Thumbnail {{aspect_ratio}}, visually stunning, designed to maximize click-through rate. Bold, professional, impossible to ignore.',
+  color_clause: ' Use a {{color_scheme}} color scheme.',
+  details_clause: ' Additional details: {{user_prompt}}.',
+  default_style: 'bold graphic thumbnail',
+  styles: {
+    "Bold & Graphic":
+      "eye-catching thumbnail, bold typography, vibrant colors, expressive facial reaction, dramatic lighting, high contrast, click-worthy composition, professional style",
+    "Tech/Futuristic":
+      "futuristic thumbnail, sleek modern design, digital UI elements, glowing accents, holographic effects, cyber-tech aesthetic, sharp lighting, high-tech atmosphere",
+    Minimalist:
+      "minimalist thumbnail, clean layout, simple shapes, limited color palette, plenty of negative space, modern flat design, clear focal point",
+    Photorealistic:
+      "photorealistic thumbnail, ultra-realistic lighting, natural skin tones, candid moment, DSLR-style photography, lifestyle realism, shallow depth of field",
+    Illustrated:
+      "illustrated thumbnail, custom digital illustration, stylized characters, bold outlines, vibrant colors, creative cartoon or vector art style",
+  },
+  color_schemes: {
+    vibrant: "vibrant and energetic colors, high saturation, bold contrasts, eye-catching palette",
+    sunset: "warm sunset tones, orange pink and purple hues, soft gradients, cinematic glow",
+    forest: "natural green tones, earthy colors, calm and organic palette, fresh atmosphere",
+    neon: "neon glow effects, electric blues and pinks, cyberpunk lighting, high contrast glow",
+    purple: "purple-dominant color palette, magenta and violet tones, modern and stylish mood",
+    monochrome: "black and white color scheme, high contrast, dramatic lighting, timeless aesthetic",
+    ocean: "cool blue and teal tones, aquatic color palette, fresh and clean atmosphere",
+    pastel: "soft pastel colors, low saturation, gentle tones, calm and friendly aesthetic",
+  },
+};
+
+const fill = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, name) => values[name] ?? match);
+
+// Map fields come back from lean() queries as plain objects, but as Maps from documents
+const toRecord = (value: any): Record<string, string> =>
+  value instanceof Map ? Object.fromEntries(value) : { ...value };
+
+export const compilePrompt = (template: Partial<TemplateContent>, input: PromptInput) => {
+
+  const styles = toRecord(template.styles);
+  const colorSchemes = toRecord(template.color_schemes);
+
+  const values: Record<string, string> = {
+    title: input.title || '',
+    user_prompt: input.user_prompt || '',
+    aspect_ratio: input.aspect_ratio || '16:9',
+    style: input.style_prompt || (input.style && styles[input.style]) || template.default_style || '',
+    color_scheme: input.color_prompt || (input.color_scheme && colorSchemes[input.color_scheme]) || '',
+  };
+
+  values.color = values.color_scheme ? fill(template.color_clause || '', values) : '';
+  values.details = values.user_prompt ? fill(template.details_clause || '', values) : '';
+
+  return fill(template.skeleton || '', values);
+};
+
+// The active version drives new generations (the latest one if none is marked).
+// An empty collection is seeded with the built-in template as version 1 so
+// every thumbnail has a version to point at.
+export const getActiveTemplate = async () => {
+
+  const active = await PromptTemplate.findOne({ is_active: true }).sort({ version: -1 })
+    || await PromptTemplate.findOne().sort({ version: -1 });
+  if (active) {
+    return active;
+  }
+
+  try {
+    return await PromptTemplate.create({ ...BUILT_IN_TEMPLATE, version: 1, is_active: true, notes: 'Built-in template' });
+  } catch (error: any) {
+    // another process seeded it first
+    if (error.code === 11000) {
+      return PromptTemplate.findOne({ version: 1 });
+    }
+    throw error;
+  }
+};
+
+// Saves a new version; the first one ever saved becomes active
+export const createTemplateVersion = async (content: Partial<TemplateContent>, meta: { notes?: string; created_by?: string } = {}) => {
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const latest = await PromptTemplate.findOne().sort({ version: -1 }).select('version');
+
+    try {
+      return await PromptTemplate.create({ ...content, ...meta, version: (latest?.version || 0) + 1, is_active: !latest });
+    } catch (error: any) {
+      // two admins saving at once, take the next number
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error('Could not allocate a template version');
+};
+
+// Stores the built-in template as the next version, for databases seeded before
+// its fragments last changed. Nothing is saved when the latest version already
+// has the same content.
+export const seedBuiltInTemplate = async ({ activate = false }: { activate?: boolean } = {}) => {
+
+  const latest = await PromptTemplate.findOne().sort({ version: -1 });
+  const current = latest && TEMPLATE_FIELDS.map((field) => latest.toObject({ flattenMaps: true })[field]);
+
+  if (current && JSON.stringify(current) === JSON.stringify(TEMPLATE_FIELDS.map((field) => BUILT_IN_TEMPLATE[field]))) {
+    return null;
+  }
+
+  const template = await createTemplateVersion(BUILT_IN_TEMPLATE, { notes: 'Built-in template' });
+  if (activate) {
+    return activateTemplate(template._id.toString());
+  }
+
+  return template;
+};
+
+export const activateTemplate = async (id: string) => {
+
+  const template = await PromptTemplate.findById(id);
+  if (!template) {
+    return null;
+  }
+
+  await PromptTemplate.updateMany({ _id: { $ne: template._id }, is_active: true }, { is_active: false });
+  template.is_active = true;
+  await template.save();
+
+  return template;
+};
@@ -0,0 +1,46 @@
+import { GoogleGenAI } from "@google/genai";
+import { ImageProvider, ImageRequest } from "./ImageProvider.js";
+
+// Gemini native image generation through @google/genai, needs GEMINI_API_KEY.
+// Unlike Imagen it accepts an input image, so it handles reference images.
+
+const GeminiImageProvider = (options: { apiKey: string; model?: string }): ImageProvider => {
+
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const model = options.model || 'gemini-2.5-flash-image';
+
+    return {
+        name: 'gemini-image',
+        model,
+        supportsReference: true,
+
+        async generate({ prompt, aspectRatio, seed, negativePrompt, referenceImage }: ImageRequest) {
+
+            const parts: any[] = [{ text: negativePrompt ? `${prompt}\nAvoid: ${negativePrompt}.` : prompt }];
+            if (referenceImage) {
+                parts.push({ text: 'Build the thumbnail around the subject of this reference image, keeping it recognizable.' });
+                parts.push({ inlineData: { mimeType: referenceImage.contentType, data: referenceImage.data.toString('base64') } });
+            }
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts }],
+                config: {
+                    responseModalities: ['IMAGE'],
+                    imageConfig: { aspectRatio },
+                    seed
+                }
+            });
+
+            const image = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData;
+
+            if (!image?.data) {
+                throw new Error('Gemini returned no image');
+            }
+
+            return Buffer.from(image.data, 'base64');
+        }
+    }
+}
+
+export default GeminiImageProvider;
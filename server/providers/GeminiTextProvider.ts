@@ -0,0 +1,36 @@
+import { GoogleGenAI } from "@google/genai";
+import { TextProvider, TextRequest } from "./TextProvider.js";
+
+// Gemini through @google/genai, needs GEMINI_API_KEY. Asks for JSON output.
+
+const GeminiTextProvider = (options: { apiKey: string; model?: string }): TextProvider => {
+
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const model = options.model || 'gemini-2.5-flash';
+
+    return {
+        name: 'gemini',
+        model,
+
+        async generate({ system, prompt, temperature }: TextRequest) {
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    systemInstruction: system,
+                    responseMimeType: 'application/json',
+                    temperature: temperature ?? 0.8
+                }
+            });
+
+            if (!response.text) {
+                throw new Error('Gemini returned no text');
+            }
+
+            return response.text;
+        }
+    }
+}
+
+export default GeminiTextProvider;
@@ -0,0 +1,22 @@
+// Shared contract for every image backend. Providers receive a fully built
+// prompt and return the raw image bytes; storage is handled by the caller.
+
+export interface ImageRequest {
+    prompt: string;
+    width: number;
+    height: number;
+    aspectRatio: string;
+    seed: number;
+    // things to keep out of the image; providers without support ignore it
+    negativePrompt?: string;
+    // image to build the result around (a face, product shot, video frame);
+    // only sent to providers that declare supportsReference
+    referenceImage?: { data: Buffer; contentType: string };
+}
+
+export interface ImageProvider {
+    name: string;
+    model: string;
+    supportsReference?: boolean;
+    generate(request: ImageRequest): Promise<Buffer>;
+}
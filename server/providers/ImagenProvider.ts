@@ -0,0 +1,42 @@
+import { GoogleGenAI } from "@google/genai";
+import { ImageProvider, ImageRequest } from "./ImageProvider.js";
+
+// Google Imagen through @google/genai, needs GEMINI_API_KEY
+
+const ImagenProvider = (options: { apiKey: string; model?: string }): ImageProvider => {
+
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const model = options.model || 'imagen-3.0-generate-002';
+
+    return {
+        name: 'imagen',
+        model,
+
+        async generate({ prompt, aspectRatio, seed, negativePrompt }: ImageRequest) {
+
+            const response = await ai.models.generateImages({
+                model,
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    aspectRatio,
+                    // Imagen only accepts a seed when its watermark is disabled
+                    seed,
+                    addWatermark: false,
+                    negativePrompt,
+                    outputMimeType: 'image/png'
+                }
+            });
+
+            const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+
+            if (!imageBytes) {
+                throw new Error('Imagen returned no image');
+            }
+
+            return Buffer.from(imageBytes, 'base64');
+        }
+    }
+}
+
+export default ImagenProvider;
@@ -0,0 +1,63 @@
+import crypto from "node:crypto";
+import sharp from "sharp";
+import { ImageProvider, ImageRequest } from "./ImageProvider.js";
+
+// Offline provider: draws a placeholder derived from the prompt and seed.
+// Same input always gives the same bytes, so it is safe for dev and tests.
+// A reference image is pasted in the middle so image-to-image flows can be
+// checked offline too.
+
+const escapeXml = (text: string) =>
+    text.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+const LocalProvider = (): ImageProvider => {
+
+    return {
+        name: 'local',
+        model: 'placeholder',
+        supportsReference: true,
+
+        async generate({ prompt, width, height, seed, referenceImage }: ImageRequest) {
+
+            const hash = crypto.createHash('sha256').update(`${seed}:${prompt}`).digest();
+
+            const hueA = hash[0] * 360 / 255;
+            const hueB = (hueA + 60 + hash[1] % 120) % 360;
+            const angle = hash[2] % 2 === 0 ? 'x2="1" y2="1"' : 'x2="1" y2="0"';
+
+            const shapes = Array.from({ length: 6 }, (_, i) => {
+                const cx = Math.round(hash[3 + i * 3] / 255 * width);
+                const cy = Math.round(hash[4 + i * 3] / 255 * height);
+                const r = Math.round((0.05 + hash[5 + i * 3] / 255 * 0.2) * Math.min(width, height));
+                return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="white" fill-opacity="0.12" />`;
+            }).join('');
+
+            const label = escapeXml(prompt.length > 60 ? prompt.slice(0, 57) + '...' : prompt);
+            const fontSize = Math.round(Math.min(width, height) / 22);
+
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+                <defs>
+                    <linearGradient id="bg" x1="0" y1="0" ${angle}>
+                        <stop offset="0" stop-color="hsl(${hueA.toFixed(0)},70%,45%)" />
+                        <stop offset="1" stop-color="hsl(${hueB.toFixed(0)},70%,25%)" />
+                    </linearGradient>
+                </defs>
+                <rect width="100%" height="100%" fill="url(#bg)" />
+                ${shapes}
+                <text x="50%" y="92%" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="white" fill-opacity="0.6">${label}</text>
+            </svg>`;
+
+            const image = sharp(Buffer.from(svg));
+
+            if (referenceImage) {
+                const size = Math.round(Math.min(width, height) * 0.6);
+                const inset = await sharp(referenceImage.data).resize(size, size, { fit: 'inside' }).png().toBuffer();
+                image.composite([{ input: inset, gravity: 'center' }]);
+            }
+
+            return image.png().toBuffer();
+        }
+    }
+}
+
+export default LocalProvider;
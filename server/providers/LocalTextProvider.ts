@@ -0,0 +1,32 @@
+import { TextProvider, TextRequest } from "./TextProvider.js";
+
+// Offline provider: every task registers a function that builds its answer
+// from the request input alone. Same input, same output - safe for dev and tests.
+
+type LocalResponder = (input: any) => unknown;
+
+const responders: Record<string, LocalResponder> = {};
+
+export const registerLocalResponder = (task: string, responder: LocalResponder) => {
+    responders[task] = responder;
+}
+
+const LocalTextProvider = (): TextProvider => {
+
+    return {
+        name: 'local',
+        model: 'template',
+
+        async generate({ task, input }: TextRequest) {
+
+            const responder = responders[task];
+            if (!responder) {
+                throw new Error(`No offline response for "${task}"`);
+            }
+
+            return JSON.stringify(responder(input));
+        }
+    }
+}
+
+export default LocalTextProvider;
@@ -0,0 +1,32 @@
+import axios from "axios";
+import { ImageProvider, ImageRequest } from "./ImageProvider.js";
+
+// Pollinations.ai Flux - free, no API key, ~10 req/min
+
+const PollinationsProvider = (options: { model?: string; timeout?: number } = {}): ImageProvider => {
+
+    const model = options.model || 'flux';
+    const timeout = options.timeout || 45000;
+
+    return {
+        name: 'pollinations',
+        model,
+
+        async generate({ prompt, width, height, seed, negativePrompt }: ImageRequest) {
+
+            let url = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true&model=${model}`;
+            if (negativePrompt) {
+                url += `&negative_prompt=${encodeURIComponent(negativePrompt)}`;
+            }
+
+            const { data } = await axios.get(url, {
+                responseType: 'arraybuffer',
+                timeout
+            });
+
+            return Buffer.from(data);
+        }
+    }
+}
+
+export default PollinationsProvider;
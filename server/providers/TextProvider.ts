@@ -0,0 +1,17 @@
+// Shared contract for the language-model backends used to write prompt text.
+// `task` and `input` let offline providers answer without a model; remote
+// providers only need the instructions and the prompt.
+
+export interface TextRequest {
+    task: string;
+    system: string;
+    prompt: string;
+    input: Record<string, any>;
+    temperature?: number;
+}
+
+export interface TextProvider {
+    name: string;
+    model: string;
+    generate(request: TextRequest): Promise<string>;
+}
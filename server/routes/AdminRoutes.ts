@@ -0,0 +1,18 @@
+import express from 'express'
+import protect from '../middlewares/auth.js'
+import requireAdmin from '../middlewares/admin.js'
+import { activatePromptTemplate, createPromptTemplate, deletePromptTemplate, getPromptTemplate, listPromptTemplates, previewPromptTemplate, updatePromptTemplate } from '../controllers/PromptTemplateController.js'
+
+const AdminRouter = express.Router()
+
+AdminRouter.use(protect, requireAdmin)
+
+AdminRouter.get('/templates', listPromptTemplates)
+AdminRouter.post('/templates/create', createPromptTemplate)
+AdminRouter.post('/templates/preview', previewPromptTemplate)
+AdminRouter.post('/templates/update/:id', updatePromptTemplate)
+AdminRouter.post('/templates/activate/:id', activatePromptTemplate)
+AdminRouter.delete('/templates/delete/:id', deletePromptTemplate)
+AdminRouter.get('/templates/:id', getPromptTemplate)
+
+export default AdminRouter
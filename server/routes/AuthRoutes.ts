@@ -1,11 +1,19 @@
 import express from 'express'
-import { LoginUser, logoutUser, registerUser, verifyUser } from '../controllers/AuthControllers.js'
+import { forgotPassword, getOidcProvider, LoginUser, oidcCallback, logoutUser, registerUser, resendVerificationEmail, resetPassword, startOidc, verifyEmail, verifyUser } from '../controllers/AuthControllers.js'
 import protect from '../middlewares/auth.js'
+import { loginLimit, passwordResetLimit, registerLimit, resetEmailLimit, verificationEmailLimit } from '../middlewares/rateLimit.js'
 
 const AuthRouter = express.Router()
 
-AuthRouter.post('/register',registerUser)
-AuthRouter.post('/login',LoginUser)
+AuthRouter.post('/register',registerLimit,registerUser)
+AuthRouter.post('/login',loginLimit,LoginUser)
+AuthRouter.get('/oidc',getOidcProvider)
+AuthRouter.get('/oidc/login',startOidc)
+AuthRouter.get('/oidc/callback',oidcCallback)
+AuthRouter.post('/forgot-password',passwordResetLimit,resetEmailLimit,forgotPassword)
+AuthRouter.post('/reset-password',passwordResetLimit,resetPassword)
+AuthRouter.post('/verify-email',verifyEmail)
+AuthRouter.post('/resend-verification',protect,verificationEmailLimit,resendVerificationEmail)
 AuthRouter.get('/verify',protect,verifyUser)
 AuthRouter.post('/logout',protect,logoutUser)
 
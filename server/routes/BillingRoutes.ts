@@ -0,0 +1,15 @@
+import express from 'express'
+import { cancelSubscription, completeFakeCheckout, createCheckout, getBilling, handleBillingWebhook } from '../controllers/BillingController.js'
+import protect from '../middlewares/auth.js'
+
+const BillingRouter = express.Router()
+
+// called by the payment provider, authenticated by its signature instead of a session
+BillingRouter.post('/webhook', handleBillingWebhook)
+
+BillingRouter.get('/', protect, getBilling)
+BillingRouter.post('/checkout', protect, createCheckout)
+BillingRouter.post('/cancel', protect, cancelSubscription)
+BillingRouter.post('/fake/complete', protect, completeFakeCheckout)
+
+export default BillingRouter
@@ -0,0 +1,17 @@
+import express from 'express'
+import { completeExperiment, createExperiment, deleteExperiment, getExperiment, getExperiments, trackExperimentEvents } from '../controllers/ExperimentController.js'
+import protect from '../middlewares/auth.js'
+import { experimentTrackLimit } from '../middlewares/rateLimit.js'
+
+const ExperimentRouter = express.Router()
+
+// called by the pages showing the thumbnails, authenticated by the experiment's tracking key
+ExperimentRouter.post('/track', experimentTrackLimit, trackExperimentEvents)
+
+ExperimentRouter.get('/', protect, getExperiments)
+ExperimentRouter.post('/create', protect, createExperiment)
+ExperimentRouter.post('/complete/:id', protect, completeExperiment)
+ExperimentRouter.delete('/delete/:id', protect, deleteExperiment)
+ExperimentRouter.get('/:id', protect, getExperiment)
+
+export default ExperimentRouter
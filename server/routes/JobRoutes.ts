@@ -0,0 +1,9 @@
+import express from 'express'
+import { runQueuedJobs } from '../controllers/JobController.js'
+
+const JobRouter = express.Router()
+
+// called by a scheduler, authenticated with CRON_SECRET
+JobRouter.get('/run', runQueuedJobs)
+
+export default JobRouter
@@ -1,11 +1,25 @@
 import express from 'express'
-import { deleteThumbnail, generateThumbnail } from '../controllers/ThumbnailController.js';
-import protect from '../middlewares/auth.js';
+import { analyzeThumbnailQuality, cancelThumbnail, deleteThumbnail, downloadThumbnail, enhanceThumbnailPrompt, exportThumbnail, exportThumbnailZip, generateThumbnail, regenerateThumbnail, remixThumbnail, setPrimaryImage, streamThumbnailEvents, suggestThumbnailHooks } from '../controllers/ThumbnailController.js';
+import protect, { allowApiKey } from '../middlewares/auth.js';
+import requireVerifiedEmail from '../middlewares/verified.js';
+import { referenceUpload } from '../middlewares/upload.js';
+import { generateLimit } from '../middlewares/rateLimit.js';
 
 const ThumbnailRouter = express.Router();
 
 
-ThumbnailRouter.post('/generate', protect, generateThumbnail)
-ThumbnailRouter.delete('/delete/:id', protect, deleteThumbnail)
+ThumbnailRouter.post('/generate', allowApiKey('thumbnails:write'), protect, requireVerifiedEmail, generateLimit, referenceUpload, generateThumbnail)
+ThumbnailRouter.post('/enhance', protect, enhanceThumbnailPrompt)
+ThumbnailRouter.post('/hooks', protect, suggestThumbnailHooks)
+ThumbnailRouter.delete('/delete/:id', allowApiKey('thumbnails:write'), protect, deleteThumbnail)
+ThumbnailRouter.post('/cancel/:id', allowApiKey('thumbnails:write'), protect, cancelThumbnail)
+ThumbnailRouter.post('/primary/:id', allowApiKey('thumbnails:write'), protect, setPrimaryImage)
+ThumbnailRouter.post('/regenerate/:id', allowApiKey('thumbnails:write'), protect, requireVerifiedEmail, generateLimit, regenerateThumbnail)
+ThumbnailRouter.post('/remix/:id', allowApiKey('thumbnails:write'), protect, requireVerifiedEmail, generateLimit, referenceUpload, remixThumbnail)
+ThumbnailRouter.get('/download/:id', allowApiKey('thumbnails:read'), protect, downloadThumbnail)
+ThumbnailRouter.get('/quality/:id', allowApiKey('thumbnails:read'), protect, analyzeThumbnailQuality)
+ThumbnailRouter.get('/export/:id', allowApiKey('thumbnails:read'), protect, exportThumbnail)
+ThumbnailRouter.get('/export/:id/zip', allowApiKey('thumbnails:read'), protect, exportThumbnailZip)
+ThumbnailRouter.get('/:id/events', allowApiKey('thumbnails:read'), protect, streamThumbnailEvents)
 
 export default ThumbnailRouter;
@@ -1,10 +1,33 @@
 import express from 'express'
-import { getThumbnailbyId, getUserThumbnails } from '../controllers/UserController.js'
-import protect from '../middlewares/auth.js'
+import { getCredits, getThumbnailbyId, getUserThumbnails } from '../controllers/UserController.js'
+import { createCustomPalette, createCustomStyle, deleteCustomPalette, deleteCustomStyle, getCustomPalettes, getCustomStyles, updateCustomPalette, updateCustomStyle } from '../controllers/CustomStyleController.js'
+import { deleteBrandKit, getBrandKit, updateBrandKit } from '../controllers/BrandKitController.js'
+import { createApiKey, getApiKeys, revokeApiKey } from '../controllers/ApiKeyController.js'
+import protect, { allowApiKey } from '../middlewares/auth.js'
+import { logoUpload } from '../middlewares/upload.js'
 
 const UserRouter = express.Router()
 
-UserRouter.get('/thumbnails', protect, getUserThumbnails)
-UserRouter.get('/thumbnail/:id', protect, getThumbnailbyId)
+UserRouter.get('/thumbnails', allowApiKey('thumbnails:read'), protect, getUserThumbnails)
+UserRouter.get('/thumbnail/:id', allowApiKey('thumbnails:read'), protect, getThumbnailbyId)
+UserRouter.get('/credits', allowApiKey('thumbnails:read'), protect, getCredits)
 
-export default UserRouter
\ No newline at end of file
+UserRouter.get('/styles', protect, getCustomStyles)
+UserRouter.post('/styles/create', protect, createCustomStyle)
+UserRouter.post('/styles/update/:id', protect, updateCustomStyle)
+UserRouter.delete('/styles/delete/:id', protect, deleteCustomStyle)
+
+UserRouter.get('/palettes', protect, getCustomPalettes)
+UserRouter.post('/palettes/create', protect, createCustomPalette)
+UserRouter.post('/palettes/update/:id', protect, updateCustomPalette)
+UserRouter.delete('/palettes/delete/:id', protect, deleteCustomPalette)
+
+UserRouter.get('/brand-kit', protect, getBrandKit)
+UserRouter.post('/brand-kit/update', protect, logoUpload, updateBrandKit)
+UserRouter.delete('/brand-kit/delete', protect, deleteBrandKit)
+
+UserRouter.get('/api-keys', protect, getApiKeys)
+UserRouter.post('/api-keys/create', protect, createApiKey)
+UserRouter.post('/api-keys/revoke/:id', protect, revokeApiKey)
+
+export default UserRouter
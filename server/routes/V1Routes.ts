@@ -0,0 +1,41 @@
+import express from 'express'
+import protect, { allowApiKey } from '../middlewares/auth.js'
+import { SERVER_URL } from '../configs/urls.js'
+import { buildOpenApiDocument, toExpressPath } from '../v1/openapi.js'
+import { errorEnvelope, notFound } from '../v1/errors.js'
+import { THUMBNAIL_ROUTES } from '../v1/thumbnails.js'
+
+const ROUTES = [...THUMBNAIL_ROUTES]
+
+const openApiDocument = buildOpenApiDocument(ROUTES, `${SERVER_URL}/api/v1`)
+
+const V1Router = express.Router()
+
+V1Router.use(errorEnvelope)
+
+V1Router.get('/openapi.json', (req, res) => { res.json(openApiDocument) })
+
+// Swagger UI from a CDN, reading the document above
+V1Router.get('/docs', (req, res) => {
+    res.type('html').send(`<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Thumbnail Go API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>SwaggerUIBundle({ url: '${req.baseUrl}/openapi.json', dom_id: '#docs' })</script>
+</body>
+</html>`)
+})
+
+for (const route of ROUTES) {
+    V1Router[route.method](toExpressPath(route.path), allowApiKey(route.scope), protect, ...(route.middleware || []), route.handler)
+}
+
+V1Router.use(notFound)
+
+export default V1Router
@@ -0,0 +1,38 @@
+import 'dotenv/config'
+import mongoose from 'mongoose';
+import connectDB from '../configs/db.js';
+import { getStorage } from '../configs/storage.js';
+import { publicIdFromUrl } from '../storage/CloudinaryStorage.js';
+import Thumbnail from '../models/Thumbnail.js';
+
+// One-off migration: `npm run migrate:image-keys` fills in image_key for thumbnails
+// uploaded to Cloudinary before keys were stored, so deleting them also deletes
+// their image. Safe to run again; thumbnails that have a key are left alone.
+
+if (getStorage().name !== 'cloudinary') {
+    console.log('Older thumbnails were only ever stored on Cloudinary, nothing to backfill')
+    process.exit(0)
+}
+
+await connectDB()
+
+const thumbnails = Thumbnail.find({ image_key: { $in: ['', null] }, image_url: { $nin: ['', null] } }, { image_url: 1 }).cursor()
+
+let updated = 0
+let skipped = 0
+
+for await (const thumbnail of thumbnails) {
+    const key = publicIdFromUrl(thumbnail.image_url as string)
+
+    if (!key) {
+        skipped++
+        continue
+    }
+
+    await Thumbnail.updateOne({ _id: thumbnail._id }, { image_key: key })
+    updated++
+}
+
+console.log(`🗂️ Backfilled ${updated} image keys, ${skipped} URLs were not Cloudinary uploads`)
+
+await mongoose.disconnect()
@@ -0,0 +1,30 @@
+import 'dotenv/config'
+import mongoose from 'mongoose';
+import connectDB from '../configs/db.js';
+import Thumbnail from '../models/Thumbnail.js';
+
+// One-off migration: `npm run migrate:thumbnails` gives thumbnails created before
+// the job queue a status and drops their old isGenerating flag. Those were
+// generated inside the request, so one with an image succeeded and one without
+// was abandoned. Safe to run again; migrated documents are left alone.
+
+await connectDB()
+
+// isGenerating is no longer in the schema, strict mode would drop the $unset
+const options = { strict: false }
+
+const succeeded = await Thumbnail.updateMany(
+    { status: { $exists: false }, image_url: { $nin: ['', null] } },
+    { $set: { status: 'succeeded' }, $unset: { isGenerating: 1 } },
+    options
+)
+
+const failed = await Thumbnail.updateMany(
+    { status: { $exists: false } },
+    { $set: { status: 'failed', error: 'Generation did not finish' }, $unset: { isGenerating: 1 } },
+    options
+)
+
+console.log(`🗂️ Marked ${succeeded.modifiedCount} thumbnails succeeded and ${failed.modifiedCount} failed`)
+
+await mongoose.disconnect()
@@ -0,0 +1,21 @@
+import 'dotenv/config'
+import mongoose from 'mongoose';
+import connectDB from '../configs/db.js';
+import { seedBuiltInTemplate } from '../prompts/templates.js';
+
+// Maintenance command: `npm run prompts:seed` saves the built-in prompt template
+// as a new version; add `-- --activate` to make it drive new generations
+
+const activate = process.argv.includes('--activate')
+
+await connectDB()
+
+const template = await seedBuiltInTemplate({ activate })
+
+if (template) {
+    console.log(`📝 Saved the built-in template as version ${template.version}${template.is_active ? ' (active)' : ''}`)
+} else {
+    console.log('The latest template version already matches the built-in template')
+}
+
+await mongoose.disconnect()
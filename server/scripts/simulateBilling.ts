@@ -0,0 +1,35 @@
+import 'dotenv/config'
+import { getPaymentProvider } from '../configs/billing.js'
+import { FakePaymentProvider } from '../billing/FakePaymentProvider.js'
+import { BillingEventType } from '../billing/PaymentProvider.js'
+
+// Local test harness for the fake billing provider: sends a signed webhook for a
+// subscription to the running server, e.g.
+//   npm run billing:simulate -- --subscription=<fake_sub_...> --event=renewed
+// Events: renewed, payment_failed, cancelled. The subscription id is shown on
+// the Billing page once a fake checkout has been paid.
+
+const EVENTS: Record<string, BillingEventType> = {
+    renewed: 'subscription.renewed',
+    payment_failed: 'payment.failed',
+    cancelled: 'subscription.cancelled',
+}
+
+const arg = (name: string) => process.argv.find((value) => value.startsWith(`--${name}=`))?.split('=')[1]
+
+const subscriptionId = arg('subscription')
+const type = EVENTS[arg('event') || '']
+
+if (!subscriptionId || !type) {
+    console.log(`Usage: npm run billing:simulate -- --subscription=<fake_sub_...> --event=<${Object.keys(EVENTS).join('|')}>`)
+    process.exit(1)
+}
+
+const provider = getPaymentProvider()
+if (provider?.name !== 'fake') {
+    console.log('BILLING_PROVIDER must be "fake" to simulate webhooks')
+    process.exit(1)
+}
+
+const event = await (provider as FakePaymentProvider).simulate(type, { subscriptionId })
+console.log(`💳 Sent ${event.type} (${event.id}) for ${subscriptionId}`)
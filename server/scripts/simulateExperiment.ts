@@ -0,0 +1,47 @@
+import 'dotenv/config'
+import axios from 'axios';
+
+// Local test harness: posts fake impressions and clicks for an experiment to the
+// tracking endpoint, e.g.
+//   npm run experiment:simulate -- --key=<tracking key> --ctr=0.04,0.06 --impressions=2000
+// --ctr gives one click-through rate per variant (A, B, ...); --url defaults to
+// the local server.
+
+const arg = (name: string) => process.argv.find((value) => value.startsWith(`--${name}=`))?.split('=')[1]
+
+const key = arg('key')
+const rates = (arg('ctr') || '0.04,0.06').split(',').map(Number)
+const impressions = Number(arg('impressions') || 1000)
+const url = arg('url') || `http://localhost:${process.env.PORT || 3000}`
+const BATCH = 50
+
+if (!key || rates.some((rate) => !(rate >= 0 && rate <= 1))) {
+    console.log('Usage: npm run experiment:simulate -- --key=<tracking key> [--ctr=0.04,0.06] [--impressions=1000] [--url=http://localhost:3000]')
+    process.exit(1)
+}
+
+// one event per impression/click, in batches, so the endpoint is exercised the way a page would use it
+for (const [i, rate] of rates.entries()) {
+    const variant = String.fromCharCode(65 + i)
+    const sent = { impressions: 0, clicks: 0 }
+
+    for (let offset = 0; offset < impressions; offset += BATCH) {
+        const events = []
+        for (let n = offset; n < Math.min(offset + BATCH, impressions); n++) {
+            events.push({ variant, type: 'impression' })
+            if (Math.random() < rate) {
+                events.push({ variant, type: 'click' })
+            }
+        }
+
+        // keep each request under the endpoint's event limit
+        for (let start = 0; start < events.length; start += 100) {
+            await axios.post(`${url}/api/experiments/track`, { key, events: events.slice(start, start + 100) })
+        }
+
+        sent.impressions += events.filter((event) => event.type === 'impression').length
+        sent.clicks += events.filter((event) => event.type === 'click').length
+    }
+
+    console.log(`📈 Variant ${variant}: ${sent.impressions} impressions, ${sent.clicks} clicks`)
+}
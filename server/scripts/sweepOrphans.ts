@@ -0,0 +1,29 @@
+import 'dotenv/config'
+import mongoose from 'mongoose';
+import connectDB from '../configs/db.js';
+import { sweepOrphans } from '../storage/cleanup.js';
+
+// Maintenance command: `npm run sweep:orphans` reports stored images that no
+// thumbnail references; add `-- --apply` to delete them
+
+const apply = process.argv.includes('--apply')
+const minAgeArg = process.argv.find((arg) => arg.startsWith('--min-age-hours='))
+const minAgeHours = minAgeArg ? Number(minAgeArg.split('=')[1]) : 1
+
+await connectDB()
+
+const report = await sweepOrphans({ dryRun: !apply, minAgeMs: minAgeHours * 60 * 60 * 1000 })
+
+console.log(`🧹 Scanned ${report.scanned} stored objects, ${report.orphans.length} orphaned, ${report.skippedRecent} too recent to judge`)
+
+for (const orphan of report.orphans) {
+    console.log(`   ${orphan.key}  ${orphan.size ?? '?'} bytes  ${orphan.lastModified?.toISOString() ?? ''}`)
+}
+
+if (report.dryRun) {
+    console.log('Dry run - nothing deleted. Re-run with --apply to remove them.')
+} else {
+    console.log(`Deleted ${report.deleted} objects, freed ${report.freedBytes} bytes`)
+}
+
+await mongoose.disconnect()
@@ -7,6 +7,17 @@ import MongoStore from 'connect-mongo'
 import AuthRouter from './routes/AuthRoutes.js';
 import ThumbnailRouter from './routes/ThumbnailRoutes.js';
 import UserRouter from './routes/UserRoutes.js';
+import AdminRouter from './routes/AdminRoutes.js';
+import ExperimentRouter from './routes/ExperimentRoutes.js';
+import BillingRouter from './routes/BillingRoutes.js';
+import V1Router from './routes/V1Routes.js';
+import JobRouter from './routes/JobRoutes.js';
+import { getPaymentProvider } from './configs/billing.js';
+import { getMailer } from './configs/mailer.js';
+import { errorHandler as v1ErrorHandler } from './v1/errors.js';
+import { startWorker } from './jobs/worker.js';
+import { LOCAL_STORAGE_DIR, LOCAL_STORAGE_ROUTE } from './configs/storage.js';
+import { PendingOidcLogin } from './auth/oidc.js';
 
 
 declare module 'express-session' {
@@ -14,17 +25,24 @@ declare module 'express-session' {
     interface SessionData {
         isLoggedIn: boolean;
         userId: string
+        oidc?: PendingOidcLogin
 
     }
 }
 
 await connectDB()
 
+// a misconfigured billing provider or mail transport stops the server here
+// rather than on the first checkout or signup
+getPaymentProvider()
+getMailer()
+
 const app = express();
 
 app.use(cors({
     origin: ['http://localhost:5173', 'http://localhost:3000','https://thumbnail-go-frontend.vercel.app'],
-    credentials: true
+    credentials: true,
+    exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset']
 }))
 
 app.set('trust proxy',1)
@@ -50,18 +68,35 @@ app.use(session({
 
 }))
 
+// webhook signatures are checked against the raw bytes, so that route skips JSON parsing
+app.use('/api/billing/webhook', express.raw({ type: 'application/json' }))
 app.use(express.json())
 
 app.get('/', (req: Request, res: Response) => {
     res.send('Server is Live!');
 });
 
+// images saved by the local storage driver
+if (process.env.STORAGE_DRIVER === 'local') {
+    app.use(LOCAL_STORAGE_ROUTE, express.static(LOCAL_STORAGE_DIR))
+}
+
 app.use('/api/auth',AuthRouter) // authentication related operation is here
 app.use('/api/thumbnail',ThumbnailRouter) // this path generate the thumbnail
 app.use('/api/user',UserRouter)
+app.use('/api/experiments',ExperimentRouter) // A/B tests and their public tracking endpoint
+app.use('/api/billing',BillingRouter) // checkout, subscriptions and the payment provider webhook
+app.use('/api/admin',AdminRouter) // prompt templates and other admin tools
+app.use('/api/jobs',JobRouter) // generation queue runs for serverless deployments
+app.use('/api/v1',V1Router,v1ErrorHandler) // versioned public API, documented at /api/v1/docs
 
 const port = process.env.PORT || 3000;
 
 app.listen(port, () => {
     console.log(`Server is running at http://localhost:${port}`);
-});
\ No newline at end of file
+});
+
+// single process setups (local dev) can run the generation worker next to the API
+if (process.env.RUN_WORKER_IN_PROCESS === 'true') {
+    startWorker()
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import axios from "axios";
+import { v2 as cloudinary } from "cloudinary";
+import { StorageAdapter } from "./StorageAdapter.js";
+
+// Cloudinary CDN, configured through CLOUDINARY_URL. Keys are Cloudinary public_ids.
+
+const CloudinaryStorage = (): StorageAdapter => {
+
+    return {
+        name: 'cloudinary',
+
+        // 🔥 VERCEL COMPATIBLE - DIRECT BUFFER UPLOAD (NO FILESYSTEM)
+        async put(body, { folder = 'thumbnails' }) {
+
+            const result: any = await new Promise((resolve, reject) => {
+                const uploadStream = cloudinary.uploader.upload_stream(
+                    { resource_type: 'image', folder },
+                    (error, result) => error ? reject(error) : resolve(result)
+                );
+                uploadStream.end(body);
+            });
+
+            return { key: result.public_id, url: result.secure_url };
+        },
+
+        async get(key) {
+
+            const url = cloudinary.url(key, { secure: true, resource_type: 'image' });
+            const { data, headers } = await axios.get(url, { responseType: 'arraybuffer', timeout: 30000 });
+
+            return { body: Buffer.from(data), contentType: headers['content-type'] };
+        },
+
+        async delete(key) {
+
+            await cloudinary.uploader.destroy(key, { resource_type: 'image' });
+        },
+
+        async *list(folder) {
+
+            let next_cursor: string | undefined;
+
+            do {
+                const page = await cloudinary.api.resources({ type: 'upload', resource_type: 'image', prefix: `${folder}/`, max_results: 500, next_cursor });
+
+                for (const resource of page.resources) {
+                    yield { key: resource.public_id, size: resource.bytes, lastModified: new Date(resource.created_at) };
+                }
+                next_cursor = page.next_cursor;
+            } while (next_cursor);
+        }
+    }
+}
+
+// Recovers the public_id from a delivery URL such as
+// https://res.cloudinary.com/<cloud>/image/upload/v1712345678/abc123.png,
+// for images saved before keys were stored
+export const publicIdFromUrl = (url: string) => {
+
+    const match = url.match(/^https?:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/(?:v\d+\/)?([^?#]+?)(?:\.[a-z0-9]+)?(?:[?#].*)?$/i);
+    return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+export default CloudinaryStorage;
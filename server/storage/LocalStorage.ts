@@ -0,0 +1,71 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { StorageAdapter } from "./StorageAdapter.js";
+
+// Plain directory on disk, served by Express under `publicPath`. Meant for
+// self-hosting and offline development, not for serverless deploys.
+
+const extensions: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+const contentTypes = Object.fromEntries(Object.entries(extensions).map(([type, ext]) => [ext, type]));
+
+const LocalStorage = (options: { directory: string; publicUrl: string }): StorageAdapter => {
+
+    const root = path.resolve(options.directory);
+
+    // keys come back from the database, never let one escape the storage directory
+    const resolveKey = (key: string) => {
+        const file = path.resolve(root, key);
+        if (!file.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key "${key}"`);
+        }
+        return file;
+    };
+
+    return {
+        name: 'local',
+
+        async put(body, { contentType, folder = 'thumbnails' }) {
+
+            const key = `${folder}/${crypto.randomUUID()}.${extensions[contentType] || 'bin'}`;
+            const file = resolveKey(key);
+
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, body);
+
+            return { key, url: `${options.publicUrl}/${key}` };
+        },
+
+        async get(key) {
+
+            const body = await fs.readFile(resolveKey(key));
+            return { body, contentType: contentTypes[path.extname(key).slice(1)] };
+        },
+
+        async delete(key) {
+
+            await fs.rm(resolveKey(key), { force: true });
+        },
+
+        async *list(folder) {
+
+            const directory = resolveKey(folder);
+            const entries = await fs.readdir(directory, { recursive: true, withFileTypes: true }).catch(() => []);
+
+            for (const entry of entries) {
+                if (!entry.isFile()) continue;
+
+                const file = path.join(entry.parentPath, entry.name);
+                const stats = await fs.stat(file);
+                yield { key: path.relative(root, file).split(path.sep).join('/'), size: stats.size, lastModified: stats.mtime };
+            }
+        }
+    }
+}
+
+export default LocalStorage;
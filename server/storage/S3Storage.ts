@@ -0,0 +1,68 @@
+import crypto from "node:crypto";
+import { DeleteObjectCommand, GetObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { StorageAdapter } from "./StorageAdapter.js";
+
+// Any S3-compatible bucket (AWS, MinIO, R2...). Set `endpoint` for non-AWS hosts;
+// path-style addressing is used so MinIO works without DNS setup.
+
+const S3Storage = (options: { bucket: string; region?: string; endpoint?: string; publicUrl?: string; accessKeyId?: string; secretAccessKey?: string }): StorageAdapter => {
+
+    const client = new S3Client({
+        region: options.region || 'us-east-1',
+        endpoint: options.endpoint,
+        forcePathStyle: !!options.endpoint,
+        credentials: options.accessKeyId && options.secretAccessKey
+            ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+            : undefined,
+    });
+
+    const publicUrl = options.publicUrl
+        || (options.endpoint ? `${options.endpoint}/${options.bucket}` : `https://${options.bucket}.s3.${options.region || 'us-east-1'}.amazonaws.com`);
+
+    return {
+        name: 's3',
+
+        async put(body, { contentType, folder = 'thumbnails' }) {
+
+            const key = `${folder}/${crypto.randomUUID()}.${contentType.split('/')[1] || 'bin'}`;
+
+            await client.send(new PutObjectCommand({
+                Bucket: options.bucket,
+                Key: key,
+                Body: body,
+                ContentType: contentType,
+            }));
+
+            return { key, url: `${publicUrl}/${key}` };
+        },
+
+        async get(key) {
+
+            const result = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+            const bytes = await result.Body!.transformToByteArray();
+
+            return { body: Buffer.from(bytes), contentType: result.ContentType };
+        },
+
+        async delete(key) {
+
+            await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+        },
+
+        async *list(folder) {
+
+            let ContinuationToken: string | undefined;
+
+            do {
+                const page = await client.send(new ListObjectsV2Command({ Bucket: options.bucket, Prefix: `${folder}/`, ContinuationToken }));
+
+                for (const object of page.Contents || []) {
+                    yield { key: object.Key!, size: object.Size, lastModified: object.LastModified };
+                }
+                ContinuationToken = page.NextContinuationToken;
+            } while (ContinuationToken);
+        }
+    }
+}
+
+export default S3Storage;
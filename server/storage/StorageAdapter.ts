@@ -0,0 +1,22 @@
+// Shared contract for every storage backend. Keys are opaque to callers and are
+// what gets saved on the Thumbnail so assets can be downloaded or removed later.
+
+export interface StoredObject {
+    key: string;
+    url: string;
+}
+
+export interface StoredObjectInfo {
+    key: string;
+    size?: number;
+    lastModified?: Date;
+}
+
+export interface StorageAdapter {
+    name: string;
+    // `folder` groups objects by purpose and defaults to "thumbnails"
+    put(body: Buffer, options: { contentType: string; folder?: string }): Promise<StoredObject>;
+    get(key: string): Promise<{ body: Buffer; contentType?: string }>;
+    delete(key: string): Promise<void>;
+    list(folder: string): AsyncIterable<StoredObjectInfo>;
+}
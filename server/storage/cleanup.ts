@@ -0,0 +1,95 @@
+import Thumbnail from "../models/Thumbnail.js";
+import BrandKit from "../models/BrandKit.js";
+import { getStorage } from "../configs/storage.js";
+
+// Folders the app writes to; anything in them must be referenced by a document
+const SWEPT_FOLDERS = ['thumbnails', 'references', 'brand'];
+
+// Removes stored objects, logging instead of throwing so a storage hiccup never
+// blocks the database operation that triggered the cleanup
+export const deleteStoredImages = async (keys: (string | undefined | null)[]) => {
+
+    const storage = getStorage();
+
+    for (const key of keys) {
+        if (!key) continue;
+        try {
+            await storage.delete(key);
+        } catch (error: any) {
+            console.error(`Failed to delete stored image ${key}:`, error.message);
+        }
+    }
+}
+
+export const getThumbnailImageKeys = (thumbnail: any): string[] =>
+    [thumbnail.image_key, ...(thumbnail.alternates || []).map((alternate: any) => alternate.image_key)].filter(Boolean);
+
+// Regenerations and remixes share their parent's reference image, so it is only
+// removed once the last thumbnail using it is gone
+export const deleteUnusedReference = async (key?: string) => {
+
+    if (key && !await Thumbnail.exists({ reference_image_key: key })) {
+        await deleteStoredImages([key]);
+    }
+}
+
+const getReferencedKeys = async () => {
+
+    const keys = await Promise.all([
+        Thumbnail.distinct('image_key'),
+        Thumbnail.distinct('alternates.image_key'),
+        Thumbnail.distinct('reference_image_key'),
+        BrandKit.distinct('logo_key'),
+    ]);
+
+    return new Set<string>(keys.flat().filter(Boolean));
+}
+
+export interface SweepReport {
+    dryRun: boolean;
+    scanned: number;
+    orphans: { key: string; size?: number; lastModified?: Date }[];
+    skippedRecent: number;
+    deleted: number;
+    freedBytes: number;
+}
+
+// Lists stored objects that no document points to and, unless dryRun, deletes them.
+// Objects younger than `minAgeMs` are left alone: a running job uploads before it saves.
+export const sweepOrphans = async ({ dryRun = true, minAgeMs = 60 * 60 * 1000 }: { dryRun?: boolean; minAgeMs?: number } = {}) => {
+
+    const storage = getStorage();
+    const referenced = await getReferencedKeys();
+    const cutoff = Date.now() - minAgeMs;
+
+    const report: SweepReport = { dryRun, scanned: 0, orphans: [], skippedRecent: 0, deleted: 0, freedBytes: 0 };
+
+    for (const folder of SWEPT_FOLDERS) {
+        for await (const object of storage.list(folder)) {
+            report.scanned++;
+
+            if (referenced.has(object.key)) continue;
+
+            if (object.lastModified && object.lastModified.getTime() > cutoff) {
+                report.skippedRecent++;
+                continue;
+            }
+
+            report.orphans.push(object);
+        }
+    }
+
+    if (!dryRun) {
+        for (const orphan of report.orphans) {
+            try {
+                await storage.delete(orphan.key);
+                report.deleted++;
+                report.freedBytes += orphan.size || 0;
+            } catch (error: any) {
+                console.error(`Failed to delete orphan ${orphan.key}:`, error.message);
+            }
+        }
+    }
+
+    return report;
+}
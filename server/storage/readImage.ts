@@ -0,0 +1,18 @@
+import axios from "axios";
+import { getStorage } from "../configs/storage.js";
+
+// Loads a stored image by key, falling back to its URL for thumbnails saved
+// before storage keys existed
+export const readStoredImage = async (image: { image_key?: string; image_url?: string }) => {
+
+    if (image.image_key) {
+        return getStorage().get(image.image_key);
+    }
+
+    if (!image.image_url) {
+        throw new Error('Image has no stored location');
+    }
+
+    const { data, headers } = await axios.get(image.image_url, { responseType: 'arraybuffer', timeout: 30000 });
+    return { body: Buffer.from(data), contentType: headers['content-type'] as string | undefined };
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import ApiKey from "../models/ApiKey.js";
+import User from "../models/User.js";
+import { authenticateApiKey, generateApiKey } from "../auth/apiKeys.js";
+import protect, { allowApiKey, getUserId } from "../middlewares/auth.js";
+
+// Model methods are stubbed; only the hash of a key is ever looked up
+
+const query = (value: unknown) => ({ select: () => Promise.resolve(value) });
+
+const stubKey = (apiKey: unknown, plan = 'enterprise') => {
+    vi.spyOn(ApiKey, 'findOne').mockResolvedValue(apiKey as any);
+    vi.spyOn(ApiKey, 'updateOne').mockResolvedValue({} as any);
+    vi.spyOn(User, 'findById').mockReturnValue(query({ plan }) as any);
+};
+
+const storedKey = { _id: 'k1', userId: 'u1', scopes: ['thumbnails:read'] };
+
+// Runs a middleware against a bare request and reports how it ended
+const run = async (middleware: any, req: any) => {
+
+    const res: any = { statusCode: 200, body: undefined };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+
+    let nextCalled = false;
+    await middleware(req, res, () => { nextCalled = true; });
+
+    return { status: res.statusCode, body: res.body, nextCalled };
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('generateApiKey', () => {
+
+    it('keeps only a prefix and the hash of the key', () => {
+        const { key, prefix, key_hash } = generateApiKey();
+
+        expect(key).toMatch(/^tg_/);
+        expect(key.startsWith(prefix)).toBe(true);
+        expect(key_hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(key_hash).not.toContain(key);
+    });
+});
+
+describe('authenticateApiKey', () => {
+
+    it('resolves a valid key to its user', async () => {
+        const { key, key_hash } = generateApiKey();
+        stubKey(storedKey);
+
+        expect(await authenticateApiKey(key, 'thumbnails:read')).toEqual({ userId: 'u1' });
+        expect(ApiKey.findOne).toHaveBeenCalledWith({ key_hash, revokedAt: { $exists: false } });
+    });
+
+    it('rejects unknown or revoked keys', async () => {
+        stubKey(null);
+
+        expect(await authenticateApiKey('tg_nope', 'thumbnails:read')).toEqual({ status: 401, error: 'Invalid or revoked API key' });
+    });
+
+    it('rejects a key without the scope', async () => {
+        stubKey(storedKey);
+
+        expect(await authenticateApiKey('tg_key', 'thumbnails:write')).toEqual({ status: 403, error: "This API key doesn't have the thumbnails:write scope" });
+    });
+
+    it('stops working on a plan without API access', async () => {
+        stubKey(storedKey, 'basic');
+
+        expect(await authenticateApiKey('tg_key', 'thumbnails:read')).toEqual({ status: 403, error: "Your plan doesn't include API access" });
+    });
+});
+
+describe('protect with a bearer key', () => {
+
+    it('refuses keys on routes that did not opt in', async () => {
+        const result = await run(protect, { headers: { authorization: 'Bearer tg_key' } });
+
+        expect(result).toMatchObject({ status: 403, nextCalled: false });
+    });
+
+    it('answers with the key check status', async () => {
+        stubKey(null);
+        const req = { headers: { authorization: 'Bearer tg_key' } };
+        await run(allowApiKey('thumbnails:read'), req);
+
+        expect(await run(protect, req)).toMatchObject({ status: 401, nextCalled: false });
+    });
+
+    it('lets a valid key through as its user, leaving the session alone', async () => {
+        stubKey(storedKey);
+        const session = { cookie: {} };
+        const req: any = { headers: { authorization: 'Bearer tg_key' }, session };
+        await run(allowApiKey('thumbnails:read'), req);
+
+        expect(await run(protect, req)).toMatchObject({ nextCalled: true });
+        expect(req.apiUser).toEqual({ userId: 'u1' });
+        expect(req.session).toBe(session);
+        expect(getUserId(req)).toBe('u1');
+    });
+
+    it('still needs a session without a key', async () => {
+        expect(await run(protect, { headers: {}, session: {} })).toMatchObject({ status: 401, nextCalled: false });
+    });
+});
+
+describe('getUserId', () => {
+
+    it('reads the cookie session when there is no key', () => {
+        expect(getUserId({ session: { userId: 'u2' } } as any)).toBe('u2');
+    });
+
+    it('prefers the key user over the session', () => {
+        expect(getUserId({ apiUser: { userId: 'u1' }, session: { userId: 'u2' } } as any)).toBe('u1');
+    });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import crypto from "node:crypto";
+import axios from "axios";
+import FakePaymentProvider from "../billing/FakePaymentProvider.js";
+
+const SECRET = 'test-secret';
+
+const provider = FakePaymentProvider({ secret: SECRET, webhookUrl: 'http://localhost:3000/api/billing/webhook', clientUrl: 'http://localhost:5173' });
+
+const event = { id: 'fake_evt_1', type: 'subscription.renewed', subscriptionId: 'fake_sub_1', currentPeriodEnd: '2026-11-18T00:00:00.000Z' };
+const body = Buffer.from(JSON.stringify(event));
+const signature = (secret: string, payload: Buffer) => crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+});
+
+describe('fake provider webhook signature', () => {
+
+    it('accepts a body signed with the secret', () => {
+        const parsed = provider.parseWebhook(body, { 'x-fake-signature': signature(SECRET, body) });
+
+        expect(parsed).toMatchObject({ id: 'fake_evt_1', type: 'subscription.renewed', subscriptionId: 'fake_sub_1' });
+        expect(parsed.currentPeriodEnd).toEqual(new Date(event.currentPeriodEnd));
+    });
+
+    it('rejects a missing signature', () => {
+        expect(() => provider.parseWebhook(body, {})).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects a signature made with another secret', () => {
+        expect(() => provider.parseWebhook(body, { 'x-fake-signature': signature('other-secret', body) })).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects a body changed after signing', () => {
+        const tampered = Buffer.from(JSON.stringify({ ...event, subscriptionId: 'fake_sub_2' }));
+
+        expect(() => provider.parseWebhook(tampered, { 'x-fake-signature': signature(SECRET, body) })).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects a signature of the wrong length', () => {
+        expect(() => provider.parseWebhook(body, { 'x-fake-signature': 'abc' })).toThrow('Invalid webhook signature');
+    });
+
+    it('signs the events it sends so they pass its own check', async () => {
+        const post = vi.spyOn(axios, 'post').mockResolvedValue({});
+
+        const sent = await provider.simulate('subscription.paid', { checkoutId: 'fake_cs_1' });
+
+        const [url, payload, { headers }] = post.mock.calls[0] as any[];
+        expect(url).toBe('http://localhost:3000/api/billing/webhook');
+        expect(sent.subscriptionId).toMatch(/^fake_sub_/);
+        expect(provider.parseWebhook(Buffer.from(payload), headers)).toMatchObject({ id: sent.id, checkoutId: 'fake_cs_1' });
+    });
+});
+
+describe('billing provider config', () => {
+
+    const loadProvider = async () => {
+        vi.resetModules();
+        const { getPaymentProvider } = await import("../configs/billing.js");
+        return getPaymentProvider();
+    };
+
+    it('leaves billing off without BILLING_PROVIDER', async () => {
+        vi.stubEnv('BILLING_PROVIDER', '');
+
+        expect(await loadProvider()).toBeNull();
+    });
+
+    it('requires a secret for the fake provider', async () => {
+        vi.stubEnv('BILLING_PROVIDER', 'fake');
+        vi.stubEnv('FAKE_BILLING_SECRET', '');
+
+        await expect(loadProvider()).rejects.toThrow('BILLING_PROVIDER=fake needs FAKE_BILLING_SECRET');
+    });
+
+    it('rejects unknown providers', async () => {
+        vi.stubEnv('BILLING_PROVIDER', 'paypal');
+
+        await expect(loadProvider()).rejects.toThrow('Unknown billing provider "paypal"');
+    });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Thumbnail from "../models/Thumbnail.js";
+import { cancelJobs } from "../jobs/queue.js";
+import { refundCredits } from "../credits/ledger.js";
+import { cancelThumbnail } from "../controllers/ThumbnailController.js";
+
+vi.mock("../jobs/queue.js", () => ({ cancelJobs: vi.fn(), enqueueJob: vi.fn() }));
+vi.mock("../credits/ledger.js", () => ({ refundCredits: vi.fn(async () => 1), chargeCredits: vi.fn() }));
+
+const THUMBNAIL_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const query = (value: unknown) => ({ select: () => Promise.resolve(value) });
+
+const run = async () => {
+
+    const res: any = { statusCode: 200 };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+
+    await cancelThumbnail({ params: { id: THUMBNAIL_ID }, session: { userId: 'u1' } } as any, res);
+    return res;
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(cancelJobs).mockReset();
+    vi.mocked(refundCredits).mockClear();
+});
+
+describe('cancelThumbnail', () => {
+
+    it('cancels and refunds a generation that is still running', async () => {
+        vi.spyOn(Thumbnail, 'findOne').mockResolvedValue({ _id: THUMBNAIL_ID, userId: 'u1', status: 'running' } as any);
+        vi.mocked(cancelJobs).mockResolvedValue(1);
+        const update = vi.spyOn(Thumbnail, 'findOneAndUpdate').mockResolvedValue({ _id: THUMBNAIL_ID, status: 'cancelled' } as any);
+
+        const res = await run();
+
+        expect(res.statusCode).toBe(200);
+        expect(update).toHaveBeenCalledWith({ _id: THUMBNAIL_ID, status: { $in: ['queued', 'running'] } }, { status: 'cancelled' }, { new: true });
+        expect(refundCredits).toHaveBeenCalledWith('u1', THUMBNAIL_ID);
+    });
+
+    it('leaves a generation that finished after the read alone', async () => {
+        vi.spyOn(Thumbnail, 'findOne').mockResolvedValue({ _id: THUMBNAIL_ID, userId: 'u1', status: 'running' } as any);
+        vi.spyOn(Thumbnail, 'findById').mockReturnValue(query({ status: 'succeeded' }) as any);
+        vi.mocked(cancelJobs).mockResolvedValue(0);
+        const update = vi.spyOn(Thumbnail, 'findOneAndUpdate');
+
+        const res = await run();
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body).toEqual({ message: 'Thumbnail is already succeeded' });
+        expect(update).not.toHaveBeenCalled();
+        expect(refundCredits).not.toHaveBeenCalled();
+    });
+
+    it('refuses a thumbnail that is already final', async () => {
+        vi.spyOn(Thumbnail, 'findOne').mockResolvedValue({ _id: THUMBNAIL_ID, userId: 'u1', status: 'failed' } as any);
+
+        const res = await run();
+
+        expect(res.statusCode).toBe(409);
+        expect(cancelJobs).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { publicIdFromUrl } from "../storage/CloudinaryStorage.js";
+
+describe('publicIdFromUrl', () => {
+
+    it('reads the public_id of an upload saved without a folder', () => {
+        expect(publicIdFromUrl('https://res.cloudinary.com/demo/image/upload/v1712345678/abc123xyz.png')).toBe('abc123xyz');
+    });
+
+    it('keeps folders and works without a version', () => {
+        expect(publicIdFromUrl('https://res.cloudinary.com/demo/image/upload/thumbnails/abc123xyz.jpg')).toBe('thumbnails/abc123xyz');
+    });
+
+    it('ignores URLs that are not Cloudinary uploads', () => {
+        expect(publicIdFromUrl('https://image.pollinations.ai/prompt/cat.png')).toBeUndefined();
+        expect(publicIdFromUrl('https://res.cloudinary.com/demo/image/fetch/https://example.com/a.png')).toBeUndefined();
+    });
+});
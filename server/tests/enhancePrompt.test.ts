@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { enhancePrompt } from "../prompts/enhancePrompt.js";
+
+const previous = process.env.TEXT_PROVIDERS;
+
+beforeEach(() => {
+    process.env.TEXT_PROVIDERS = 'local';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    process.env.TEXT_PROVIDERS = previous;
+    vi.restoreAllMocks();
+});
+
+describe('enhancePrompt with the offline provider', () => {
+
+    const input = { title: 'Why my code never works', details: 'a messy desk', style: 'Minimalist' };
+
+    it('writes all four parts of the brief', async () => {
+        const result = await enhancePrompt(input);
+
+        expect(result.provider).toBe('local');
+        expect(result.subject).toBe('A single expressive person reacting to Why my code never works, featuring a messy desk');
+        expect(result.emotion).toBe('curious, raised eyebrow, leaning in as if about to reveal something');
+        expect(result.lighting).toBe('soft even daylight with a muted, limited palette');
+        expect(result.prompt).toMatch(/^A single expressive person .*\. Composition: .*\. Emotion: .*\. Lighting: .*\.$/);
+    });
+
+    it('answers the same input the same way', async () => {
+        expect(await enhancePrompt(input)).toEqual(await enhancePrompt(input));
+    });
+
+    it('falls back to neutral wording without notes or a known style', async () => {
+        const result = await enhancePrompt({ title: 'My trip' });
+
+        expect(result.subject).toBe('A single expressive person reacting to My trip');
+        expect(result.emotion).toBe('intrigued, direct eye contact with the viewer');
+        expect(result.lighting).toBe('dramatic key light with a vivid, high contrast color grade');
+    });
+});
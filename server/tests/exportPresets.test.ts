@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Thumbnail from "../models/Thumbnail.js";
+import { exportThumbnail, exportThumbnailZip } from "../controllers/ThumbnailController.js";
+
+const run = async (handler: any, query: Record<string, string>) => {
+
+    const res: any = { statusCode: 200 };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: unknown) => { res.body = body; return res; };
+
+    await handler({ params: { id: '64b7f0c2a1b2c3d4e5f60718' }, query, session: { userId: 'u1' } }, res);
+    return res;
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('export presets', () => {
+
+    it.each(['toString', 'constructor', '__proto__'])('rejects the inherited key %s as a preset', async (preset) => {
+        const findOne = vi.spyOn(Thumbnail, 'findOne');
+
+        const res = await run(exportThumbnail, { preset });
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body.message).toMatch(/^Unknown preset/);
+        expect(findOne).not.toHaveBeenCalled();
+    });
+
+    it('leaves inherited keys out of a ZIP', async () => {
+        const findOne = vi.spyOn(Thumbnail, 'findOne');
+
+        const res = await run(exportThumbnailZip, { presets: 'toString,hasOwnProperty' });
+
+        expect(res.statusCode).toBe(400);
+        expect(findOne).not.toHaveBeenCalled();
+    });
+});
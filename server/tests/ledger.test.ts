@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import CreditLedger from "../models/CreditLedger.js";
+import User from "../models/User.js";
+import { chargeCredits, currentPeriod, refundCredits } from "../credits/ledger.js";
+
+// No database here: the model methods are stubbed and the tests check that the
+// quota guard sits in the same update as the debit, which is what makes it atomic.
+
+const query = (value: unknown) => ({ select: () => Promise.resolve(value) });
+
+const stubUser = (plan: string) => vi.spyOn(User, 'findById').mockReturnValue(query({ plan }) as any);
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('chargeCredits', () => {
+
+    it('debits only while the monthly quota covers the amount', async () => {
+        stubUser('basic');
+        vi.spyOn(CreditLedger, 'updateOne').mockResolvedValue({} as any);
+        const debit = vi.spyOn(CreditLedger, 'findOneAndUpdate').mockResolvedValue({ used: 3 } as any);
+
+        expect(await chargeCredits('u1', 3, 't1')).toEqual({ period: currentPeriod() });
+
+        const [filter, update] = debit.mock.calls[0] as any[];
+        expect(filter).toEqual({ userId: 'u1', period: currentPeriod(), used: { $lte: 50 - 3 } });
+        expect(update.$inc).toEqual({ used: 3 });
+        expect(update.$push.entries).toMatchObject({ type: 'charge', amount: 3, thumbnailId: 't1' });
+    });
+
+    it('has no quota guard on unlimited plans', async () => {
+        stubUser('pro');
+        vi.spyOn(CreditLedger, 'updateOne').mockResolvedValue({} as any);
+        const debit = vi.spyOn(CreditLedger, 'findOneAndUpdate').mockResolvedValue({ used: 500 } as any);
+
+        await chargeCredits('u1', 4, 't1');
+
+        expect(debit.mock.calls[0][0]).toEqual({ userId: 'u1', period: currentPeriod() });
+    });
+
+    it('explains what is left when the guard rejects the debit', async () => {
+        stubUser('basic');
+        vi.spyOn(CreditLedger, 'updateOne').mockResolvedValue({} as any);
+        vi.spyOn(CreditLedger, 'findOneAndUpdate').mockResolvedValue(null);
+        vi.spyOn(CreditLedger, 'findOne').mockReturnValue(query({ used: 48 }) as any);
+
+        const { error } = await chargeCredits('u1', 3, 't1');
+
+        expect(error).toBe('This needs 3 credits but you only have 2 left this month. Generate fewer variations or upgrade your plan.');
+    });
+
+    it('tolerates a parallel request creating the ledger first', async () => {
+        stubUser('free');
+        vi.spyOn(CreditLedger, 'updateOne').mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+        vi.spyOn(CreditLedger, 'findOneAndUpdate').mockResolvedValue({ used: 1 } as any);
+
+        expect(await chargeCredits('u1', 1, 't1')).toEqual({ period: currentPeriod() });
+    });
+});
+
+describe('refundCredits', () => {
+
+    const charged = { _id: 'l1', entries: [{ type: 'charge', amount: 2, thumbnailId: 't1' }] };
+
+    it('gives back the charged amount once', async () => {
+        vi.spyOn(CreditLedger, 'findOne').mockResolvedValue(charged as any);
+        const refund = vi.spyOn(CreditLedger, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+        expect(await refundCredits('u1', 't1')).toBe(2);
+
+        const [filter, update] = refund.mock.calls[0] as any[];
+        // the "not refunded yet" check is part of the update itself
+        expect(filter).toEqual({ _id: 'l1', entries: { $not: { $elemMatch: { type: 'refund', thumbnailId: 't1' } } } });
+        expect(update.$inc).toEqual({ used: -2 });
+    });
+
+    it('does nothing when the refund was already made', async () => {
+        vi.spyOn(CreditLedger, 'findOne').mockResolvedValue(charged as any);
+        vi.spyOn(CreditLedger, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+        expect(await refundCredits('u1', 't1')).toBe(0);
+    });
+
+    it('does nothing for a generation that was never charged', async () => {
+        vi.spyOn(CreditLedger, 'findOne').mockResolvedValue(null);
+        const refund = vi.spyOn(CreditLedger, 'updateOne');
+
+        expect(await refundCredits('u1', 't1')).toBe(0);
+        expect(refund).not.toHaveBeenCalled();
+    });
+});
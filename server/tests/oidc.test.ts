@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import User from "../models/User.js";
+import { endUserSessions } from "../auth/sessions.js";
+import { findOrCreateOidcUser } from "../auth/oidc.js";
+
+vi.mock("../auth/sessions.js", () => ({ endUserSessions: vi.fn(async () => 0) }));
+
+const ISSUER = 'https://id.example.com';
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const claims = (extra: Record<string, unknown> = {}) => ({ sub: 'sub-1', email: 'Ana@Example.com', email_verified: true, name: 'Ana', ...extra }) as any;
+
+// A user document with the fields the linking code reads and a save() spy
+const account = (fields: Record<string, unknown>) => ({ _id: { toString: () => USER_ID }, save: vi.fn(async () => undefined), ...fields });
+
+// findOne is called with the linked subject first, then with the email
+const stubFindOne = (linked: unknown, byEmail: unknown = null) =>
+    vi.spyOn(User, 'findOne').mockImplementation((async (filter: any) => filter.oidc_subject ? linked : byEmail) as any);
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(endUserSessions).mockClear();
+});
+
+describe('findOrCreateOidcUser', () => {
+
+    it('signs in the account already linked to the subject', async () => {
+        const linked = account({ email: 'ana@example.com', oidc_issuer: ISSUER, oidc_subject: 'sub-1' });
+        stubFindOne(linked);
+
+        expect(await findOrCreateOidcUser(ISSUER, claims({ email_verified: false }))).toEqual({ user: linked });
+    });
+
+    it('links a verified account with the same email', async () => {
+        const existing = account({ email: 'ana@example.com', password: 'hash', emailVerified: true });
+        stubFindOne(null, existing);
+
+        const { user } = await findOrCreateOidcUser(ISSUER, claims());
+
+        expect(User.findOne).toHaveBeenLastCalledWith({ email: 'ana@example.com' });
+        expect(user).toBe(existing);
+        expect(existing).toMatchObject({ oidc_issuer: ISSUER, oidc_subject: 'sub-1', password: 'hash' });
+        expect(existing.save).toHaveBeenCalled();
+        expect(endUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('takes an unverified account away from whoever registered it', async () => {
+        const existing = account({ email: 'ana@example.com', password: 'hash', emailVerified: false });
+        stubFindOne(null, existing);
+
+        await findOrCreateOidcUser(ISSUER, claims());
+
+        expect(existing).toMatchObject({ password: undefined, emailVerified: true, oidc_subject: 'sub-1' });
+        expect(endUserSessions).toHaveBeenCalledWith(USER_ID);
+        expect(existing.save).toHaveBeenCalled();
+    });
+
+    it('does not link by an email the provider has not verified', async () => {
+        const findOne = stubFindOne(null, account({ email: 'ana@example.com' }));
+
+        expect(await findOrCreateOidcUser(ISSUER, claims({ email_verified: false }))).toEqual({ error: "Your identity provider hasn't verified your email address" });
+        expect(findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('needs an email to link or create an account', async () => {
+        stubFindOne(null);
+
+        expect(await findOrCreateOidcUser(ISSUER, claims({ email: undefined }))).toEqual({ error: "Your identity provider didn't share an email address" });
+    });
+
+    it('does not take over an account linked to another subject', async () => {
+        const existing = account({ email: 'ana@example.com', oidc_issuer: ISSUER, oidc_subject: 'sub-2' });
+        stubFindOne(null, existing);
+
+        expect(await findOrCreateOidcUser(ISSUER, claims())).toEqual({ error: "This email is already linked to another sign-in account" });
+        expect(existing.save).not.toHaveBeenCalled();
+    });
+
+    it('creates a verified account without a password for a new email', async () => {
+        stubFindOne(null, null);
+        const create = vi.spyOn(User, 'create').mockImplementation((async (doc: any) => doc) as any);
+
+        await findOrCreateOidcUser(ISSUER, claims());
+
+        expect(create).toHaveBeenCalledWith({ name: 'Ana', email: 'ana@example.com', emailVerified: true, oidc_issuer: ISSUER, oidc_subject: 'sub-1' });
+    });
+});
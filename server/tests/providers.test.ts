@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import LocalProvider from "../providers/LocalProvider.js";
+import { generateImage, registerImageProvider } from "../configs/imageProviders.js";
+
+const request = { prompt: 'a cat reviewing laptops', width: 320, height: 180, aspectRatio: '16:9', seed: 42 };
+
+beforeEach(() => {
+    // the chain logs every call
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('local image provider', () => {
+
+    it('draws a png of the requested size', async () => {
+        const buffer = await LocalProvider().generate(request);
+
+        const { format, width, height } = await sharp(buffer).metadata();
+        expect({ format, width, height }).toEqual({ format: 'png', width: 320, height: 180 });
+    });
+
+    it('gives the same bytes for the same prompt and seed only', async () => {
+        const provider = LocalProvider();
+
+        const first = await provider.generate(request);
+        expect((await provider.generate(request)).equals(first)).toBe(true);
+        expect((await provider.generate({ ...request, seed: 43 })).equals(first)).toBe(false);
+    });
+
+    it('pastes a reference image in the middle', async () => {
+        const reference = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#ff0000' } }).png().toBuffer();
+
+        const buffer = await LocalProvider().generate({ ...request, referenceImage: { data: reference, contentType: 'image/png' } });
+
+        const center = await sharp(buffer).extract({ left: 160, top: 90, width: 1, height: 1 }).removeAlpha().raw().toBuffer();
+        expect([...center]).toEqual([255, 0, 0]);
+    });
+});
+
+describe('image provider chain', () => {
+
+    const previous = process.env.IMAGE_PROVIDERS;
+
+    afterEach(() => {
+        process.env.IMAGE_PROVIDERS = previous;
+    });
+
+    registerImageProvider('broken', () => ({
+        name: 'broken',
+        model: 'none',
+        supportsReference: false,
+        async generate(): Promise<Buffer> {
+            throw new Error('provider down');
+        },
+    }));
+
+    it('falls back to the next provider', async () => {
+        process.env.IMAGE_PROVIDERS = 'broken,local';
+        const attempts: string[] = [];
+
+        const result = await generateImage(request, { onAttempt: ({ provider, status }) => { attempts.push(`${provider}:${status}`); } });
+
+        expect(result.provider).toBe('local');
+        expect(result.buffer.length).toBeGreaterThan(0);
+        expect(attempts).toEqual(['broken:started', 'broken:failed', 'local:started', 'local:succeeded']);
+    });
+
+    it('reports the last error when every provider fails', async () => {
+        process.env.IMAGE_PROVIDERS = 'broken';
+
+        await expect(generateImage(request)).rejects.toThrow('All image providers failed: provider down');
+    });
+
+    it('rejects an unknown provider name', async () => {
+        process.env.IMAGE_PROVIDERS = 'local,nope';
+
+        await expect(generateImage(request)).rejects.toThrow('Unknown image provider "nope"');
+    });
+
+    it('skips providers that cannot use a reference image', async () => {
+        process.env.IMAGE_PROVIDERS = 'broken,local';
+        const reference = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000' } }).png().toBuffer();
+
+        const result = await generateImage({ ...request, referenceImage: { data: reference, contentType: 'image/png' } });
+
+        expect(result.provider).toBe('local');
+    });
+
+    it('stops before the next provider once the signal is aborted', async () => {
+        process.env.IMAGE_PROVIDERS = 'local';
+        const controller = new AbortController();
+        controller.abort(new Error('timed out'));
+
+        await expect(generateImage(request, { signal: controller.signal })).rejects.toThrow('timed out');
+    });
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import Job from "../models/Job.js";
+import Thumbnail from "../models/Thumbnail.js";
+import { refundCredits } from "../credits/ledger.js";
+import { completeJob, expireQueuedJobs, failJob } from "../jobs/queue.js";
+
+vi.mock("../credits/ledger.js", () => ({ refundCredits: vi.fn(async () => 1) }));
+
+const query = (value: unknown) => ({ select: () => Promise.resolve(value) });
+
+const claimed = { _id: 'j1', thumbnailId: 't1', userId: 'u1', lockedBy: 'w1', lockedAt: new Date('2026-10-19T08:00:00Z'), attempts: 1, maxAttempts: 3 };
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(refundCredits).mockClear();
+});
+
+describe('expireQueuedJobs', () => {
+
+    it('fails and refunds jobs nobody picked up in time', async () => {
+        const find = vi.spyOn(Job, 'find').mockReturnValue(query([{ _id: 'j1' }]) as any);
+        const update = vi.spyOn(Job, 'findOneAndUpdate').mockResolvedValue({ _id: 'j1', thumbnailId: 't1', userId: 'u1', status: 'failed', attempts: 0 } as any);
+        vi.spyOn(Thumbnail, 'updateOne').mockResolvedValue({ matchedCount: 1 } as any);
+
+        expect(await expireQueuedJobs()).toBe(1);
+
+        const [filter] = find.mock.calls[0] as any[];
+        expect(filter.status).toBe('queued');
+        expect(filter.runAt.$lt.getTime()).toBeLessThanOrEqual(Date.now() - 15 * 60 * 1000);
+        // a worker claiming it meanwhile wins
+        expect(update.mock.calls[0][0]).toEqual({ _id: 'j1', status: 'queued' });
+        expect(Thumbnail.updateOne).toHaveBeenCalledWith({ _id: 't1' }, expect.objectContaining({ status: 'failed' }));
+        expect(refundCredits).toHaveBeenCalledWith('u1', 't1');
+    });
+
+    it('leaves a job alone once a worker has claimed it', async () => {
+        vi.spyOn(Job, 'find').mockReturnValue(query([{ _id: 'j1' }]) as any);
+        vi.spyOn(Job, 'findOneAndUpdate').mockResolvedValue(null);
+        const sync = vi.spyOn(Thumbnail, 'updateOne');
+
+        await expireQueuedJobs();
+
+        expect(sync).not.toHaveBeenCalled();
+        expect(refundCredits).not.toHaveBeenCalled();
+    });
+});
+
+describe('finishing a job', () => {
+
+    const owner = { _id: 'j1', status: 'running', lockedBy: 'w1', lockedAt: claimed.lockedAt };
+
+    it('completes only under the lock it was claimed with', async () => {
+        const update = vi.spyOn(Job, 'findOneAndUpdate').mockResolvedValue(null);
+
+        expect(await completeJob(claimed, { image_url: 'x' })).toBeNull();
+        expect(update.mock.calls[0][0]).toEqual(owner);
+    });
+
+    it('retries only under the lock it was claimed with', async () => {
+        const update = vi.spyOn(Job, 'findOneAndUpdate').mockResolvedValue(null);
+
+        await failJob(claimed, new Error('timed out'));
+
+        expect(update.mock.calls[0][0]).toEqual(owner);
+        expect(update.mock.calls[0][1]).toMatchObject({ status: 'queued', error: 'timed out' });
+    });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import crypto from "node:crypto";
+import AuthToken from "../models/AuthToken.js";
+import { consumeToken, issueToken } from "../auth/tokens.js";
+
+// AuthToken backed by an array. findOneAndUpdate applies the same filter the
+// real query sends, so expiry and single use are checked against it.
+
+let records: any[] = [];
+
+beforeEach(() => {
+    records = [];
+    vi.useFakeTimers();
+
+    vi.spyOn(AuthToken, 'create').mockImplementation((async (doc: any) => {
+        records.push({ ...doc });
+        return doc;
+    }) as any);
+
+    vi.spyOn(AuthToken, 'deleteMany').mockImplementation((async ({ userId, purpose }: any) => {
+        records = records.filter((record) => record.userId !== userId || record.purpose !== purpose || record.usedAt);
+        return {};
+    }) as any);
+
+    vi.spyOn(AuthToken, 'findOneAndUpdate').mockImplementation((async (filter: any, update: any) => {
+        const record = records.find((record) => record.token_hash === filter.token_hash && record.purpose === filter.purpose
+            && (filter.usedAt?.$exists !== false || !record.usedAt)
+            && record.expiresAt > filter.expiresAt.$gt);
+        return record ? Object.assign(record, update) : null;
+    }) as any);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('single use tokens', () => {
+
+    it('stores only the hash of the token', async () => {
+        const token = await issueToken('u1', 'password_reset', 60000);
+
+        expect(records).toHaveLength(1);
+        expect(records[0].token_hash).toBe(crypto.createHash('sha256').update(token).digest('hex'));
+        expect(JSON.stringify(records)).not.toContain(token);
+    });
+
+    it('can be redeemed once', async () => {
+        const token = await issueToken('u1', 'password_reset', 60000);
+
+        expect(await consumeToken(token, 'password_reset')).toBe('u1');
+        expect(await consumeToken(token, 'password_reset')).toBeNull();
+    });
+
+    it('stops working once it expires', async () => {
+        const token = await issueToken('u1', 'password_reset', 60000);
+
+        vi.advanceTimersByTime(60001);
+
+        expect(await consumeToken(token, 'password_reset')).toBeNull();
+    });
+
+    it('is still good just before it expires', async () => {
+        const token = await issueToken('u1', 'password_reset', 60000);
+
+        vi.advanceTimersByTime(59999);
+
+        expect(await consumeToken(token, 'password_reset')).toBe('u1');
+    });
+
+    it('only works for the purpose it was issued for', async () => {
+        const token = await issueToken('u1', 'email_verification', 60000);
+
+        expect(await consumeToken(token, 'password_reset')).toBeNull();
+    });
+
+    it('is replaced by a newer token for the same purpose', async () => {
+        const first = await issueToken('u1', 'password_reset', 60000);
+        const second = await issueToken('u1', 'password_reset', 60000);
+
+        expect(await consumeToken(first, 'password_reset')).toBeNull();
+        expect(await consumeToken(second, 'password_reset')).toBe('u1');
+    });
+
+    it('rejects empty and non-string tokens without a lookup', async () => {
+        expect(await consumeToken('', 'password_reset')).toBeNull();
+        expect(await consumeToken(undefined as any, 'password_reset')).toBeNull();
+        expect(AuthToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+});
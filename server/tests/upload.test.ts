@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { referenceUpload } from "../middlewares/upload.js";
+
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+    const app = express();
+    app.post('/generate', referenceUpload, (req, res) => {
+        res.json({ body: req.body, file: req.file ? { mimetype: req.file.mimetype, size: req.file.size } : null });
+    });
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/generate`;
+});
+
+afterAll(() => {
+    server.close();
+});
+
+const post = (file: Blob, name: string) => {
+    const form = new FormData();
+    form.append('data', JSON.stringify({ title: 'Hello' }));
+    form.append('reference_image', file, name);
+    return fetch(url, { method: 'POST', body: form });
+};
+
+describe('referenceUpload', () => {
+
+    it('passes an image on with the JSON body', async () => {
+        const response = await post(new Blob([Buffer.from('fake png bytes')], { type: 'image/png' }), 'ref.png');
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ body: { title: 'Hello' }, file: { mimetype: 'image/png', size: 14 } });
+    });
+
+    it('rejects a file that is not an image instead of dropping it', async () => {
+        const response = await post(new Blob(['%PDF-1.7'], { type: 'application/pdf' }), 'ref.pdf');
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ message: 'reference_image must be an image' });
+    });
+});
@@ -0,0 +1,56 @@
+import { NextFunction, Request, Response } from "express";
+
+// Every v1 error has the same body: { error: { code, message, details? } }.
+// The code is stable for programs to branch on, the message is for people.
+
+const ERROR_CODES: Record<number, string> = {
+    400: 'invalid_request',
+    401: 'unauthenticated',
+    402: 'insufficient_credits',
+    403: 'forbidden',
+    404: 'not_found',
+    409: 'conflict',
+    413: 'payload_too_large',
+    429: 'rate_limited',
+    503: 'unavailable',
+};
+
+export const ERROR_CODE_VALUES = [...new Set([...Object.values(ERROR_CODES), 'internal_error'])];
+
+export const errorCode = (status: number) => ERROR_CODES[status] || (status >= 500 ? 'internal_error' : 'invalid_request');
+
+// What a 5xx tells the client; the actual error only goes to the log
+export const INTERNAL_ERROR_MESSAGE = 'Something went wrong';
+
+export const sendError = (res: Response, status: number, message: string, details?: Record<string, unknown>) =>
+    res.status(status).json({ error: { code: errorCode(status), message, ...(details && { details }) } });
+
+// Middlewares shared with the session API (protect, rate limits, uploads) answer
+// with { message, ...extra }; under v1 those bodies are rewritten into the envelope.
+export const errorEnvelope = (req: Request, res: Response, next: NextFunction) => {
+
+    const json = res.json.bind(res);
+
+    res.json = (body: any) => {
+        if (res.statusCode >= 400 && typeof body?.message === 'string' && !body.error) {
+            const { message, ...details } = body;
+            return json({ error: { code: errorCode(res.statusCode), message, ...(Object.keys(details).length > 0 && { details }) } });
+        }
+        return json(body);
+    };
+
+    next();
+};
+
+export const notFound = (req: Request, res: Response) => sendError(res, 404, `No such endpoint: ${req.method} ${req.originalUrl.split('?')[0]}`);
+
+// Errors thrown or passed on inside v1, including bodies the JSON parser rejected
+export const errorHandler = (error: any, req: Request, res: Response, next: NextFunction) => {
+
+    const status = Number(error.status || error.statusCode) || 500;
+    if (status >= 500) {
+        console.log(error);
+    }
+
+    sendError(res, status, status >= 500 ? INTERNAL_ERROR_MESSAGE : error.message);
+};
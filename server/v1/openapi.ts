@@ -0,0 +1,79 @@
+import { RequestHandler } from "express";
+import { ApiKeyScope } from "../models/ApiKey.js";
+import { SCHEMAS, Schema } from "./schemas.js";
+
+// A v1 endpoint is declared once: the router is built from these definitions and
+// so is the OpenAPI document, so the docs can't drift from what is served.
+
+export interface ApiRoute {
+    method: 'get' | 'post' | 'delete';
+    // OpenAPI path template, e.g. /thumbnails/{id}
+    path: string;
+    operationId: string;
+    summary: string;
+    description?: string;
+    tag: string;
+    // what an API key needs to call it; the browser session may call everything
+    scope: ApiKeyScope;
+    // runs after authentication
+    middleware?: RequestHandler[];
+    parameters?: Schema[];
+    requestBody?: Schema;
+    responses: Record<string, Schema>;
+    handler: RequestHandler;
+}
+
+export const toExpressPath = (path: string) => path.replace(/\{(\w+)\}/g, ':$1');
+
+export const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+// Every authenticated endpoint can answer these
+const COMMON_ERRORS = {
+    401: errorResponse('Not logged in, or the API key is invalid or revoked'),
+    403: errorResponse('The API key lacks the scope, or the plan has no API access'),
+    429: errorResponse('Rate limited; wait details.retry_after seconds (also in Retry-After)'),
+    500: errorResponse('Unexpected server error'),
+};
+
+export const buildOpenApiDocument = (routes: ApiRoute[], serverUrl: string) => {
+
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of routes) {
+        paths[route.path] ??= {};
+        paths[route.path][route.method] = {
+            operationId: route.operationId,
+            summary: route.summary,
+            ...(route.description && { description: route.description }),
+            tags: [route.tag],
+            security: [{ apiKey: [route.scope] }, { session: [] }],
+            ...(route.parameters && { parameters: route.parameters }),
+            ...(route.requestBody && { requestBody: route.requestBody }),
+            responses: { ...COMMON_ERRORS, ...route.responses },
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'Thumbnail Go API',
+            version: '1.0.0',
+            description: 'Generate and manage YouTube thumbnails. Authenticate scripts with a personal API key '
+                + '(`Authorization: Bearer <key>`, created on the API Keys page); each operation lists the key scope it needs. '
+                + 'Errors always use the Error envelope, and lists are paginated with next_cursor.',
+        },
+        servers: [{ url: serverUrl }],
+        tags: [...new Set(routes.map((route) => route.tag))].map((name) => ({ name })),
+        paths,
+        components: {
+            schemas: SCHEMAS,
+            securitySchemes: {
+                apiKey: { type: 'http', scheme: 'bearer', description: 'Personal API key; the security requirement lists the scope it needs' },
+                session: { type: 'apiKey', in: 'cookie', name: 'connect.sid', description: 'Browser session from the web app' },
+            },
+        },
+    };
+};
@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+
+// Cursor pagination, newest first. The cursor is the (createdAt, _id) of the
+// last item served, so pages stay stable while new items are being added.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+interface Cursor {
+    createdAt: Date;
+    id: mongoose.Types.ObjectId;
+}
+
+const encodeCursor = (doc: { createdAt: Date; _id: mongoose.Types.ObjectId }) =>
+    Buffer.from(JSON.stringify([doc.createdAt.toISOString(), doc._id.toString()])).toString('base64url');
+
+const decodeCursor = (cursor: string): Cursor | null => {
+
+    try {
+        const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        const date = new Date(createdAt);
+        return mongoose.isValidObjectId(id) && !isNaN(date.getTime()) ? { createdAt: date, id: new mongoose.Types.ObjectId(id) } : null;
+    } catch {
+        return null;
+    }
+};
+
+// Reads ?limit and ?cursor. Returns an error message meant for a 400 response
+// when either is malformed.
+export const parsePageQuery = (query: Record<string, unknown>) => {
+
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return { error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+    }
+
+    if (query.cursor === undefined) {
+        return { page: { limit, cursor: null } };
+    }
+
+    const cursor = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+    if (!cursor) {
+        return { error: 'cursor is not valid, pass the next_cursor of a previous page' };
+    }
+
+    return { page: { limit, cursor } };
+};
+
+// One page of `filter`, plus the cursor of the next page (null on the last one)
+export const paginate = async (Model: mongoose.Model<any>, filter: Record<string, unknown>, { limit, cursor }: { limit: number; cursor: Cursor | null }) => {
+
+    const after = cursor
+        ? { $or: [{ createdAt: { $lt: cursor.createdAt } }, { createdAt: cursor.createdAt, _id: { $lt: cursor.id } }] }
+        : {};
+
+    // one extra tells whether another page exists
+    const docs = await Model.find({ $and: [filter, after] }).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const items = docs.slice(0, limit);
+
+    return { items, next_cursor: docs.length > limit ? encodeCursor(items[items.length - 1]) : null };
+};
@@ -0,0 +1,106 @@
+import { MAX_TITLE_LENGTH } from "../controllers/ThumbnailController.js";
+import { OVERLAY_FONTS, OVERLAY_POSITIONS } from "../imaging/textOverlay.js";
+import { ERROR_CODE_VALUES } from "./errors.js";
+import { MAX_PAGE_SIZE } from "./pagination.js";
+
+// JSON Schemas (OpenAPI 3.1) shared by the v1 route definitions
+
+export type Schema = Record<string, unknown>;
+
+export const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const nullable = (type: string, extra: Schema = {}): Schema => ({ type: [type, 'null'], ...extra });
+
+const GENERATION_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+export const SCHEMAS: Record<string, Schema> = {
+
+    Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+            error: {
+                type: 'object',
+                required: ['code', 'message'],
+                properties: {
+                    code: { type: 'string', enum: ERROR_CODE_VALUES },
+                    message: { type: 'string' },
+                    details: { type: 'object', description: 'Extra fields, e.g. retry_after (seconds) on rate_limited', additionalProperties: true },
+                },
+            },
+        },
+    },
+
+    OverlayStyle: {
+        type: 'object',
+        properties: {
+            font: { type: 'string', enum: Object.keys(OVERLAY_FONTS) },
+            position: { type: 'string', enum: [...OVERLAY_POSITIONS] },
+            color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+            stroke: { type: 'boolean' },
+            shadow: { type: 'boolean' },
+            uppercase: { type: 'boolean' },
+        },
+    },
+
+    Thumbnail: {
+        type: 'object',
+        required: ['id', 'title', 'status', 'created_at'],
+        properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            status: { type: 'string', enum: GENERATION_STATUSES, description: 'Generation happens in the background; poll until succeeded, failed or cancelled' },
+            error: nullable('string', { description: 'Why the generation failed' }),
+            prompt: nullable('string', { description: 'Extra details given with the request' }),
+            style: { type: 'string' },
+            aspect_ratio: { type: 'string', enum: ['16:9', '1:1', '9:16'] },
+            color_scheme: nullable('string'),
+            text_overlay: { type: 'boolean' },
+            overlay_text: nullable('string'),
+            overlay_style: ref('OverlayStyle'),
+            image_url: nullable('string', { format: 'uri', description: 'Primary image, once generated' }),
+            alternates: { type: 'array', items: { type: 'object', properties: { image_url: { type: 'string', format: 'uri' } } } },
+            variation_count: { type: 'integer', minimum: 1, maximum: 4 },
+            credits_charged: { type: 'integer' },
+            quality_score: nullable('integer', { minimum: 0, maximum: 100 }),
+            parent_id: nullable('string', { description: 'Thumbnail this one was regenerated or remixed from' }),
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+        },
+    },
+
+    ThumbnailList: {
+        type: 'object',
+        required: ['data', 'next_cursor'],
+        properties: {
+            data: { type: 'array', items: ref('Thumbnail') },
+            next_cursor: nullable('string', { description: 'Pass as ?cursor= to get the next page; null on the last page' }),
+        },
+    },
+
+    CreateThumbnail: {
+        type: 'object',
+        required: ['title'],
+        properties: {
+            title: { type: 'string', maxLength: MAX_TITLE_LENGTH },
+            prompt: { type: 'string', description: 'Extra details for the image' },
+            style: { type: 'string', examples: ['Bold & Graphic', 'Tech/Futuristic', 'Minimalist', 'Photorealistic', 'Illustrated'] },
+            style_id: { type: 'string', description: 'One of your custom styles, instead of style' },
+            aspect_ratio: { type: 'string', enum: ['16:9', '1:1', '9:16'], default: '16:9' },
+            color_scheme: { type: 'string', examples: ['vibrant', 'sunset', 'neon', 'ocean'] },
+            palette_id: { type: 'string', description: 'One of your custom palettes, instead of color_scheme' },
+            text_overlay: { type: 'boolean', default: false },
+            overlay_text: { type: 'string' },
+            overlay_style: ref('OverlayStyle'),
+            variations: { type: 'integer', minimum: 1, maximum: 4, default: 1, description: 'Images to generate; each costs one credit' },
+            use_brand_kit: { type: 'boolean', default: false },
+        },
+    },
+};
+
+export const PAGE_PARAMETERS = [
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: 20 } },
+    { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'next_cursor from the previous page' },
+];
+
+export const ID_PARAMETER = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
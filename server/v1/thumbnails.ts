@@ -0,0 +1,208 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Thumbnail from "../models/Thumbnail.js";
+import { MAX_TITLE_LENGTH, removeThumbnail, startThumbnailGeneration } from "../controllers/ThumbnailController.js";
+import requireVerifiedEmail from "../middlewares/verified.js";
+import { generateLimit } from "../middlewares/rateLimit.js";
+import { referenceUpload } from "../middlewares/upload.js";
+import { getUserId } from "../middlewares/auth.js";
+import { INTERNAL_ERROR_MESSAGE, sendError } from "./errors.js";
+import { paginate, parsePageQuery } from "./pagination.js";
+import { ApiRoute, errorResponse } from "./openapi.js";
+import { ID_PARAMETER, PAGE_PARAMETERS, ref } from "./schemas.js";
+
+const STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+// Public shape of a thumbnail: storage keys, prompts and job internals stay private
+const toResource = (thumbnail: any) => ({
+    id: thumbnail._id.toString(),
+    title: thumbnail.title,
+    status: thumbnail.status,
+    error: thumbnail.error ?? null,
+    prompt: thumbnail.user_prompt || null,
+    style: thumbnail.style,
+    aspect_ratio: thumbnail.aspect_ratio,
+    color_scheme: thumbnail.color_scheme ?? null,
+    text_overlay: thumbnail.text_overlay,
+    overlay_text: thumbnail.overlay_text || null,
+    overlay_style: thumbnail.overlay_style,
+    image_url: thumbnail.image_url ?? null,
+    alternates: (thumbnail.alternates || []).map((alternate: any) => ({ image_url: alternate.image_url })),
+    variation_count: thumbnail.variation_count,
+    credits_charged: thumbnail.credits_charged ?? 0,
+    quality_score: thumbnail.quality?.image_url === thumbnail.image_url ? thumbnail.quality?.score ?? null : null,
+    parent_id: thumbnail.parent_id ?? null,
+    created_at: thumbnail.createdAt,
+    updated_at: thumbnail.updatedAt,
+});
+
+const findOwnThumbnail = (userId: string, id: string) =>
+    mongoose.isValidObjectId(id) ? Thumbnail.findOne({ _id: id, userId }) : null;
+
+export const listThumbnails = async (req: Request, res: Response) => {
+    try {
+        const userId = getUserId(req);
+
+        const { page, error } = parsePageQuery(req.query);
+        if (!page) {
+            return sendError(res, 400, error);
+        }
+
+        const { status } = req.query;
+        if (status !== undefined && !STATUSES.includes(status as string)) {
+            return sendError(res, 400, `status must be one of: ${STATUSES.join(', ')}`);
+        }
+
+        const { items, next_cursor } = await paginate(Thumbnail, { userId, ...(status !== undefined && { status }) }, page);
+        res.json({ data: items.map(toResource), next_cursor });
+
+    } catch (error) {
+        console.log(error);
+        sendError(res, 500, INTERNAL_ERROR_MESSAGE);
+    }
+};
+
+export const createThumbnail = async (req: Request, res: Response) => {
+    try {
+        const userId = getUserId(req);
+
+        if (typeof req.body?.title !== 'string' || !req.body.title.trim()) {
+            return sendError(res, 400, 'title is required');
+        }
+        if (req.body.title.length > MAX_TITLE_LENGTH) {
+            return sendError(res, 400, `title must be at most ${MAX_TITLE_LENGTH} characters`);
+        }
+
+        const { thumbnail, status, error } = await startThumbnailGeneration(userId as string, req.body, req.file);
+        if (!thumbnail) {
+            return sendError(res, status as number, error as string);
+        }
+
+        res.status(202).location(`${req.baseUrl}/thumbnails/${thumbnail._id}`).json({ data: toResource(thumbnail) });
+
+    } catch (error) {
+        console.log(error);
+        sendError(res, 500, INTERNAL_ERROR_MESSAGE);
+    }
+};
+
+export const getThumbnail = async (req: Request, res: Response) => {
+    try {
+        const userId = getUserId(req);
+
+        const thumbnail = await findOwnThumbnail(userId as string, req.params.id as string);
+        if (!thumbnail) {
+            return sendError(res, 404, 'Thumbnail not found');
+        }
+
+        res.json({ data: toResource(thumbnail) });
+
+    } catch (error) {
+        console.log(error);
+        sendError(res, 500, INTERNAL_ERROR_MESSAGE);
+    }
+};
+
+export const deleteThumbnail = async (req: Request, res: Response) => {
+    try {
+        const userId = getUserId(req);
+        const id = req.params.id as string;
+
+        if (!mongoose.isValidObjectId(id) || !await removeThumbnail(userId as string, id)) {
+            return sendError(res, 404, 'Thumbnail not found');
+        }
+
+        res.status(204).end();
+
+    } catch (error) {
+        console.log(error);
+        sendError(res, 500, INTERNAL_ERROR_MESSAGE);
+    }
+};
+
+const thumbnailResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { type: 'object', required: ['data'], properties: { data: ref('Thumbnail') } } } },
+});
+
+export const THUMBNAIL_ROUTES: ApiRoute[] = [
+    {
+        method: 'get',
+        path: '/thumbnails',
+        operationId: 'listThumbnails',
+        summary: 'List your thumbnails, newest first',
+        tag: 'Thumbnails',
+        scope: 'thumbnails:read',
+        parameters: [
+            ...PAGE_PARAMETERS,
+            { name: 'status', in: 'query', schema: { type: 'string', enum: STATUSES } },
+        ],
+        responses: {
+            200: { description: 'A page of thumbnails', content: { 'application/json': { schema: ref('ThumbnailList') } } },
+            400: errorResponse('Bad limit, cursor or status'),
+        },
+        handler: listThumbnails,
+    },
+    {
+        method: 'post',
+        path: '/thumbnails',
+        operationId: 'createThumbnail',
+        summary: 'Start generating a thumbnail',
+        description: 'Charges one credit per variation and queues the generation. Poll GET /thumbnails/{id} until the status is final. '
+            + 'To send a reference image, post multipart/form-data with the JSON body as a string in `data` and the image in `reference_image`.',
+        tag: 'Thumbnails',
+        scope: 'thumbnails:write',
+        middleware: [requireVerifiedEmail, ...generateLimit, referenceUpload],
+        requestBody: {
+            required: true,
+            content: {
+                'application/json': { schema: ref('CreateThumbnail') },
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        required: ['data'],
+                        properties: {
+                            data: { type: 'string', description: 'CreateThumbnail as JSON' },
+                            reference_image: { type: 'string', format: 'binary' },
+                        },
+                    },
+                },
+            },
+        },
+        responses: {
+            202: thumbnailResponse('Queued; the Location header points at the new thumbnail'),
+            400: errorResponse('Invalid request, unknown custom style or palette, or unusable reference image'),
+            402: errorResponse('Not enough credits left this month'),
+        },
+        handler: createThumbnail,
+    },
+    {
+        method: 'get',
+        path: '/thumbnails/{id}',
+        operationId: 'getThumbnail',
+        summary: 'Get one thumbnail and its generation status',
+        tag: 'Thumbnails',
+        scope: 'thumbnails:read',
+        parameters: [ID_PARAMETER],
+        responses: {
+            200: thumbnailResponse('The thumbnail'),
+            404: errorResponse('No such thumbnail'),
+        },
+        handler: getThumbnail,
+    },
+    {
+        method: 'delete',
+        path: '/thumbnails/{id}',
+        operationId: 'deleteThumbnail',
+        summary: 'Delete a thumbnail and its images',
+        description: 'An unfinished generation is cancelled and its credits refunded.',
+        tag: 'Thumbnails',
+        scope: 'thumbnails:write',
+        parameters: [ID_PARAMETER],
+        responses: {
+            204: { description: 'Deleted' },
+            404: errorResponse('No such thumbnail'),
+        },
+        handler: deleteThumbnail,
+    },
+];
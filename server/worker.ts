@@ -0,0 +1,30 @@
+import 'dotenv/config'
+import connectDB from './configs/db.js';
+import { startWorker } from './jobs/worker.js';
+import { sweepOrphans } from './storage/cleanup.js';
+
+// Standalone generation worker: `npm run worker`
+
+await connectDB()
+
+const stopWorker = startWorker({ pollInterval: Number(process.env.WORKER_POLL_INTERVAL_MS) || 2000 })
+
+// optional scheduled orphan sweep, same as `npm run sweep:orphans -- --apply`
+const sweepHours = Number(process.env.ORPHAN_SWEEP_INTERVAL_HOURS)
+const sweepTimer = sweepHours > 0 ? setInterval(async () => {
+    try {
+        const report = await sweepOrphans({ dryRun: false })
+        console.log(`🧹 Orphan sweep removed ${report.deleted} of ${report.scanned} stored objects`)
+    } catch (error) {
+        console.error('Orphan sweep failed:', error)
+    }
+}, sweepHours * 60 * 60 * 1000) : undefined
+
+const shutdown = async () => {
+    clearInterval(sweepTimer)
+    await stopWorker()
+    process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)